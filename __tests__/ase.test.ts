@@ -0,0 +1,69 @@
+// __tests__/ase.test.ts
+import ASE from '../src/ase';
+import { InvalidResponseError, ParseError } from '../src/errors';
+import { listenUdp } from './helpers/udp-server';
+import type { UdpServer } from './helpers/udp-server';
+
+// Prefixes each string with its length plus one
+const strings = (...values: string[]) => Buffer.concat(values.map((value) => Buffer.concat([Buffer.from([Buffer.byteLength(value) + 1]), Buffer.from(value)])));
+
+describe('ASE Class', () => {
+    let server: UdpServer;
+    let port: number;
+    let reply: (message: Buffer) => Buffer;
+
+    beforeAll(async () => {
+        server = await listenUdp((message) => reply(message));
+        port = server.port;
+    });
+
+    afterAll(async () => {
+        await server.close();
+    });
+
+    it('should parse the server information, the rules and the players', async () => {
+        let request: Buffer | undefined;
+
+        reply = (message) => {
+            request = message;
+
+            return Buffer.concat([
+                Buffer.from('EYE1'),
+                strings('mta', '22003', 'My MTA Server', 'Freeroam', 'San Andreas', '1.6', '0', '2', '32'),
+                strings('weather', 'sunny', 'version', '1.6.0-9.22204', ''),
+                Buffer.from([0x3F]), strings('Alice', 'Red', '0', '150', '42', '0'),
+                Buffer.from([0x19]), strings('Bob', '9', '88'),
+            ]);
+        };
+
+        expect(await new ASE({ host: '127.0.0.1', port, timeout: 1000 }).getStatus()).toEqual({
+            gamename: 'mta',
+            gameport: 22003,
+            hostname: 'My MTA Server',
+            gametype: 'Freeroam',
+            map: 'San Andreas',
+            version: '1.6',
+            password: false,
+            numplayers: 2,
+            maxplayers: 32,
+            rules: { weather: 'sunny', version: '1.6.0-9.22204' },
+            players: [
+                { name: 'Alice', team: 'Red', skin: '0', score: 150, ping: 42, time: 0 },
+                { name: 'Bob', score: 9, ping: 88 },
+            ],
+        });
+        expect(request).toEqual(Buffer.from('s'));
+    });
+
+    it('should reject a response without the EYE1 header', async () => {
+        reply = () => Buffer.from('EYE2');
+
+        await expect(new ASE({ host: '127.0.0.1', port, timeout: 1000 }).getStatus()).rejects.toBeInstanceOf(InvalidResponseError);
+    });
+
+    it('should reject a truncated response', async () => {
+        reply = () => Buffer.concat([Buffer.from('EYE1'), strings('mta', '22003'), Buffer.from([0x20, 0x41])]);
+
+        await expect(new ASE({ host: '127.0.0.1', port, timeout: 1000 }).getStatus()).rejects.toBeInstanceOf(ParseError);
+    });
+});
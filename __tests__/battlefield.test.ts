@@ -0,0 +1,168 @@
+// __tests__/battlefield.test.ts
+import * as crypto from 'crypto';
+import * as net from 'net';
+import Battlefield from '../src/battlefield';
+import { BattlefieldError, ParseError } from '../src/errors';
+
+// Encodes a packet with the given header flags and words
+const packet = (header: number, words: string[]) => {
+    const encoded = words.map((word) => {
+        const size = Buffer.alloc(4);
+        size.writeUInt32LE(Buffer.byteLength(word));
+        return Buffer.concat([size, Buffer.from(word), Buffer.from([0x00])]);
+    });
+    const head = Buffer.alloc(12);
+    head.writeUInt32LE(header >>> 0, 0);
+    head.writeUInt32LE(12 + encoded.reduce((total, word) => total + word.length, 0), 4);
+    head.writeUInt32LE(words.length, 8);
+    return Buffer.concat([head, ...encoded]);
+};
+
+// Decodes the packets of a chunk
+const decode = (data: Buffer) => {
+    const packets: { sequence: number, words: string[] }[] = [];
+
+    for (let offset = 0; offset < data.length; offset += data.readUInt32LE(offset + 4)) {
+        const words: string[] = [];
+        let position = offset + 12;
+
+        for (let i = 0; i < data.readUInt32LE(offset + 8); i++) {
+            const size = data.readUInt32LE(position);
+            words.push(data.toString('utf-8', position + 4, position + 4 + size));
+            position += size + 5;
+        }
+
+        packets.push({ sequence: data.readUInt32LE(offset) & 0x3FFFFFFF, words });
+    }
+
+    return packets;
+};
+
+const BF4_SERVER_INFO = ['OK', 'My BF4 Server', '48', '64', 'ConquestLarge0', 'MP_Prison', '0', '2', '2', '650', '512', '0', '', 'true', 'true', 'false', '93024', '512', '10.0.0.1:25200', 'v1.826 | A1.391 C2.355', 'false', 'EU', 'ams', 'NL', '48', 'GameStateInGame'];
+
+describe('Battlefield Class', () => {
+    let server: net.Server;
+    let port: number;
+    let requests: string[][];
+    let answer: (words: string[]) => string[];
+    let corrupt: (response: Buffer) => Buffer;
+
+    beforeAll(async () => {
+        server = net.createServer((socket) => socket.on('data', (data) => {
+            for (const { sequence, words } of decode(data)) {
+                requests.push(words);
+
+                // An event from the server, which the client has to skip
+                socket.write(packet(0x80000000 | 7, ['player.onJoin', 'Someone', '']));
+
+                // Split the response in two chunks to exercise the reassembly
+                const response = corrupt(packet(0x40000000 | sequence, answer(words)));
+                socket.write(response.subarray(0, 5));
+                setTimeout(() => socket.write(response.subarray(5)), 10);
+            }
+        }));
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        port = (server.address() as net.AddressInfo).port;
+    });
+
+    afterAll(async () => {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+        requests = [];
+        corrupt = (response) => response;
+    });
+
+    it('should parse the Battlefield 4 server information', async () => {
+        answer = () => BF4_SERVER_INFO;
+
+        expect(await new Battlefield({ host: '127.0.0.1', port, timeout: 1000 }).getInfo()).toEqual({
+            hostname: 'My BF4 Server',
+            numPlayers: 48,
+            maxPlayers: 64,
+            gameMode: 'ConquestLarge0',
+            map: 'MP_Prison',
+            roundsPlayed: 0,
+            roundsTotal: 2,
+            teams: [{ id: 1, score: 650 }, { id: 2, score: 512 }],
+            targetScore: 0,
+            onlineState: '',
+            ranked: true,
+            punkBuster: true,
+            password: false,
+            uptime: 93024,
+            roundTime: 512,
+            gameIpAndPort: '10.0.0.1:25200',
+            punkBusterVersion: 'v1.826 | A1.391 C2.355',
+            joinQueueEnabled: false,
+            region: 'EU',
+            closestPingSite: 'ams',
+            country: 'NL',
+            blazePlayerCount: 48,
+            blazeGameState: 'GameStateInGame',
+        });
+        expect(requests).toEqual([['serverInfo']]);
+    });
+
+    it('should parse the Battlefield 3 server information', async () => {
+        answer = () => ['OK', 'My BF3 Server', '10', '32', 'RushLarge0', 'MP_Subway', '1', '2', '2', '75', '0', '0', '', 'true', 'false', 'true', '3600', '60', '', '', 'true', 'NAm', 'iad', 'US', 'false'];
+
+        expect(await new Battlefield({ host: '127.0.0.1', port, timeout: 1000 }).getInfo()).toMatchObject({
+            teams: [{ id: 1, score: 75 }, { id: 2, score: 0 }],
+            password: true,
+            region: 'NAm',
+            closestPingSite: 'iad',
+            matchMakingEnabled: false,
+        });
+    });
+
+    it('should retrieve the version and the players', async () => {
+        answer = (words) => words[0] === 'version'
+            ? ['OK', 'BF4', '179665']
+            : ['OK', '10', 'name', 'guid', 'teamId', 'squadId', 'kills', 'deaths', 'score', 'rank', 'ping', 'type', '2', 'Alice', '', '1', '2', '10', '3', '2500', '140', '35', '0', 'Bob', '', '2', '0', '0', '5', '100', '12', '65535', '1'];
+
+        const battlefield = new Battlefield({ host: '127.0.0.1', port, timeout: 1000 });
+
+        expect(await battlefield.getVersion()).toEqual({ game: 'BF4', version: '179665' });
+        expect(await battlefield.getPlayers()).toEqual([
+            { name: 'Alice', guid: '', teamId: 1, squadId: 2, kills: 10, deaths: 3, score: 2500, rank: 140, ping: 35, type: 0 },
+            { name: 'Bob', guid: '', teamId: 2, squadId: 0, kills: 0, deaths: 5, score: 100, rank: 12, ping: 65535, type: 1 },
+        ]);
+        expect(requests).toEqual([['version'], ['listPlayers', 'all']]);
+    });
+
+    it('should log in with the hashed password before a command', async () => {
+        const salt = '0123456789ABCDEF';
+        const hash = crypto.createHash('md5').update(Buffer.concat([Buffer.from(salt, 'hex'), Buffer.from('secret')])).digest('hex').toUpperCase();
+
+        answer = (words) => {
+            if (words[0] === 'login.hashed') {
+                return words.length === 1 ? ['OK', salt] : words[1] === hash ? ['OK'] : ['InvalidPasswordHash'];
+            }
+
+            return ['OK', 'true'];
+        };
+
+        expect(await new Battlefield({ host: '127.0.0.1', port, timeout: 1000, password: 'secret' }).command(['vars.ranked'])).toEqual(['true']);
+        expect(requests).toEqual([['login.hashed'], ['login.hashed', hash], ['vars.ranked']]);
+
+        const error = await new Battlefield({ host: '127.0.0.1', port, timeout: 1000, password: 'wrong' }).command(['vars.ranked']).catch((err) => err);
+
+        expect(error).toBeInstanceOf(BattlefieldError);
+        expect(error.status).toBe('InvalidPasswordHash');
+    });
+
+    it('should reject a response with more words than it holds with ParseError', async () => {
+        answer = () => ['OK', 'true'];
+        corrupt = (response) => {
+            response.writeUInt32LE(3, 8);
+            return response;
+        };
+
+        const error = await new Battlefield({ host: '127.0.0.1', port, timeout: 1000 }).command(['vars.ranked']).catch((err) => err);
+
+        expect(error).toBeInstanceOf(ParseError);
+        expect(error).toMatchObject({ field: 'words[2].size', offset: 28 });
+    });
+});
@@ -0,0 +1,130 @@
+// __tests__/buffer-reader.test.ts
+import { BufferReadError, BufferReader, hexDump } from '../src/lib/buffer-reader';
+import { BufferWriter } from '../src/lib/buffer-writer';
+
+describe('BufferReader', () => {
+    it('should reject reads past the end of the buffer', () => {
+        const reader = new BufferReader(Buffer.from([0x01, 0x02, 0x03]));
+        reader.readUint16();
+
+        const error = (() => {
+            try {
+                reader.readUint32(true, 'score');
+            } catch (err) {
+                return err as BufferReadError;
+            }
+        })();
+
+        expect(error).toBeInstanceOf(BufferReadError);
+        expect(error).toBeInstanceOf(RangeError);
+        expect(error).toMatchObject({ offset: 2, field: 'score', message: 'Cannot read score at offset 2: 4 bytes needed, 1 left' });
+        expect(reader.getOffset()).toBe(2);
+    });
+
+    it('should reject a string without a null terminator', () => {
+        const reader = new BufferReader(Buffer.from('ab\0cd', 'latin1'));
+
+        expect(reader.readString()).toBe('ab');
+        expect(() => reader.readString('name')).toThrow('Cannot read name at offset 3: no null terminator before the end of the buffer');
+        expect(reader.getOffset()).toBe(3);
+        expect(() => new BufferReader(Buffer.alloc(0)).readString()).toThrow(BufferReadError);
+    });
+
+    it('should peek without advancing and read raw bytes', () => {
+        const reader = new BufferReader(Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0x49, 0x11, 0x22]));
+
+        expect(reader.peekInt32()).toBe(-1);
+        expect(reader.peekUint32(false)).toBe(0xFFFFFFFF);
+        expect(reader.remaining()).toBe(7);
+        reader.skip(4);
+        expect(reader.peekUint8()).toBe(0x49);
+        expect(reader.peekUint16(false)).toBe(0x4911);
+        expect(reader.peekBytes(2)).toEqual(Buffer.from([0x49, 0x11]));
+        expect(reader.readBytes(3)).toEqual(Buffer.from([0x49, 0x11, 0x22]));
+        expect(reader.remaining()).toBe(0);
+        expect(() => reader.peekUint8()).toThrow(BufferReadError);
+        expect(() => reader.skip(1)).toThrow(BufferReadError);
+    });
+
+    it('should dump the bytes around the offset', () => {
+        const dump = hexDump(Buffer.from('0123456789abcdefXYZ\n', 'latin1'));
+
+        expect(dump).toBe([
+            '00000000  30 31 32 33 34 35 36 37  38 39 61 62 63 64 65 66  |0123456789abcdef|',
+            '00000010  58 59 5a 0a                                       |XYZ.|',
+        ].join('\n'));
+        expect(hexDump(Buffer.alloc(1024), 512).split('\n')[0]).toMatch(/^00000180 /);
+    });
+
+    it('should read VarInts and VarLongs', () => {
+        const reader = new BufferReader(Buffer.from([0x00, 0xDD, 0xC7, 0x01, 0xFF, 0xFF, 0xFF, 0xFF, 0x0F, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0x01]));
+        expect(reader.readVarInt()).toBe(0);
+        expect(reader.readVarInt()).toBe(25565);
+        expect(reader.readVarInt()).toBe(-1);
+        expect(reader.readVarLong()).toBe(BigInt(-1));
+    });
+
+    it('should reject a VarInt longer than 5 bytes', () => {
+        expect(() => new BufferReader(Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0xFF, 0x01])).readVarInt()).toThrow('VarInt is too big');
+    });
+
+    it('should read Pascal strings prefixed with their length', () => {
+        const reader = new BufferReader(Buffer.from('\x03abc\x03de\x01', 'latin1'));
+        expect(reader.readPascalString()).toBe('abc');
+        expect(reader.readPascalString(true)).toBe('de');
+        expect(reader.readPascalString(true)).toBe('');
+        expect(reader.getOffset()).toBe(8);
+    });
+
+    it('should reject a Pascal string length past the end of the buffer', () => {
+        expect(() => new BufferReader(Buffer.from([0x05, 0x61])).readPascalString()).toThrow(RangeError);
+    });
+});
+
+describe('BufferWriter', () => {
+    it('should write what BufferReader reads', () => {
+        const buffer = new BufferWriter()
+            .writeInt32(-1)
+            .writeUint8(0x54)
+            .writeString('Source Engine Query')
+            .writeUint16(27015)
+            .writeUint16(0x1234, false)
+            .writeInt16(-2)
+            .writeUint32(0xDEADBEEF)
+            .writeInt8(-3)
+            .writeBigUint64(BigInt('76561198000000000'))
+            .writeBigInt64(BigInt(-4))
+            .writeFloat32(1.5)
+            .writeFloat64(-0.25)
+            .writeVarInt(300)
+            .writeVarInt(-1)
+            .writeBytes(Buffer.from([0xAA, 0xBB]))
+            .toBuffer();
+
+        const reader = new BufferReader(buffer);
+
+        expect(reader.readInt32()).toBe(-1);
+        expect(reader.readUint8()).toBe(0x54);
+        expect(reader.readString()).toBe('Source Engine Query');
+        expect(reader.readUint16()).toBe(27015);
+        expect(reader.readUint16(false)).toBe(0x1234);
+        expect(reader.readInt16()).toBe(-2);
+        expect(reader.readUint32()).toBe(0xDEADBEEF);
+        expect(reader.readInt8()).toBe(-3);
+        expect(reader.readBigUint64()).toBe(BigInt('76561198000000000'));
+        expect(reader.readBigInt64()).toBe(BigInt(-4));
+        expect(reader.readFloat32()).toBe(1.5);
+        expect(reader.readFloat64()).toBe(-0.25);
+        expect(reader.readVarInt()).toBe(300);
+        expect(reader.readVarInt()).toBe(-1);
+        expect(reader.readBytes(2)).toEqual(Buffer.from([0xAA, 0xBB]));
+        expect(reader.remaining()).toBe(0);
+    });
+
+    it('should build the A2S_INFO request', () => {
+        const writer = new BufferWriter().writeInt32(-1).writeUint8(0x54).writeString('Source Engine Query');
+
+        expect(writer.byteLength()).toBe(25);
+        expect(writer.toBuffer()).toEqual(Buffer.from('\xFF\xFF\xFF\xFFTSource Engine Query\0', 'latin1'));
+    });
+});
@@ -0,0 +1,164 @@
+// __tests__/cli.test.ts
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createProgram, ExitCode, getExitCode, main } from '../src/cli';
+import SourceResponder from '../src/source-responder';
+import {
+    BattlefieldError,
+    ChallengeError,
+    ChecksumMismatchError,
+    DecompressionError,
+    InvalidResponseError,
+    ParseError,
+    QueryAbortError,
+    QueryTimeoutError,
+    RconAuthenticationError,
+    TeamSpeak3Error,
+} from '../src/errors';
+
+describe('CLI', () => {
+    let responder: SourceResponder;
+    let port: number;
+    let output: string[];
+    let log: jest.SpyInstance;
+    let error: jest.SpyInstance;
+
+    const run = async (...args: string[]) => {
+        output = [];
+        process.exitCode = undefined;
+        await createProgram().parseAsync(['node', 'opengsq', ...args]);
+        return output.join('\n');
+    };
+
+    beforeAll(async () => {
+        responder = new SourceResponder({
+            host: '127.0.0.1',
+            port: 0,
+            info: {
+                protocol: 17, name: 'CLI Test', map: 'cp_badlands', folder: 'tf', game: 'Team Fortress', id: 440,
+                players: 1, maxPlayers: 24, bots: 0, serverType: 'd', environment: 'l', visibility: 0, vac: 1,
+                version: '1.0', extraData: { steamID: BigInt('90071996842377216') },
+            },
+            players: [{ index: 0, name: 'Alice', score: 5, duration: 30 }],
+            rules: { mp_timelimit: '30', sv_cheats: '0' },
+        });
+        await responder.listen();
+        port = responder.address().port;
+    });
+
+    afterAll(async () => {
+        await responder.close();
+    });
+
+    beforeEach(() => {
+        log = jest.spyOn(console, 'log').mockImplementation((line: string) => output.push(line));
+        error = jest.spyOn(console, 'error').mockImplementation((line: string) => output.push(line));
+    });
+
+    afterEach(() => {
+        log.mockRestore();
+        error.mockRestore();
+        process.exitCode = undefined;
+    });
+
+    it('should print server info as a table', async () => {
+        const text = await run('source', 'info', '--host', '127.0.0.1', '--port', String(port));
+        expect(text).toMatch(/^name\s+CLI Test$/m);
+        expect(text).toMatch(/^extraData\.steamID\s+90071996842377216$/m);
+        expect(process.exitCode).toBe(ExitCode.Success);
+    });
+
+    it('should print players as JSON', async () => {
+        const text = await run('source', 'players', '--host', '127.0.0.1', '--port', String(port), '--json');
+        expect(JSON.parse(text)).toEqual([{ index: 0, name: 'Alice', score: 5, duration: 30 }]);
+    });
+
+    it('should print rules as NDJSON', async () => {
+        const text = await run('source', 'rules', '--host', '127.0.0.1', '--port', String(port), '--format', 'ndjson');
+        expect(text.split('\n').map((line) => JSON.parse(line))).toEqual([
+            { name: 'mp_timelimit', value: '30' },
+            { name: 'sv_cheats', value: '0' },
+        ]);
+    });
+
+    it('should print everything with all', async () => {
+        const result = JSON.parse(await run('source', 'all', '--host', '127.0.0.1', '--port', String(port), '--json'));
+        expect(result.info.extraData.steamID).toBe('90071996842377216');
+        expect(result.players).toHaveLength(1);
+        expect(result.rules.sv_cheats).toBe('0');
+    });
+
+    it('should exit with the timeout code', async () => {
+        await run('source', 'info', '--host', '127.0.0.1', '--port', '1', '--timeout', '300');
+        expect(output.join('\n')).toContain('Request timed out');
+        expect(process.exitCode).toBe(ExitCode.Timeout);
+    });
+
+    describe('batch', () => {
+        let file: string;
+
+        beforeAll(() => {
+            file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'opengsq-')), 'servers.txt');
+            fs.writeFileSync(file, [
+                '# protocol host:port',
+                `source 127.0.0.1:${port}`,
+                'source 127.0.0.1:1',
+                '',
+                `unknown 127.0.0.1:${port}`,
+                'source not-an-address',
+            ].join('\n'));
+        });
+
+        it('should print one NDJSON result per server and a summary', async () => {
+            const lines = (await run('batch', file, '--timeout', '300', '--concurrency', '2')).split('\n');
+            const summary = lines.pop();
+            const results = lines.map((line) => JSON.parse(line));
+
+            expect(results).toHaveLength(4);
+            expect(results.find((result) => result.port === port && result.protocol === 'source')).toMatchObject({ status: 'ok', result: { name: 'CLI Test' } });
+            expect(results.find((result) => result.port === 1)).toMatchObject({ status: 'timeout', error: 'Request timed out' });
+            expect(results.find((result) => result.protocol === 'unknown')).toMatchObject({ status: 'error', error: 'Unknown protocol: unknown' });
+            expect(results.find((result) => result.host === 'not-an-address')).toMatchObject({ status: 'error' });
+            expect(summary).toBe('Summary: 4 servers, 1 ok, 1 timeout, 2 error');
+            expect(process.exitCode).toBe(ExitCode.Error);
+        });
+
+        it('should print one line and exit with an error when the file cannot be read', async () => {
+            output = [];
+            await main(['node', 'opengsq', 'batch', path.join(os.tmpdir(), 'opengsq-missing.txt')]);
+
+            expect(output).toHaveLength(1);
+            expect(output[0]).toMatch(/^Error: ENOENT: no such file or directory/);
+            expect(process.exitCode).toBe(ExitCode.Error);
+        });
+
+        it('should print CSV rows', async () => {
+            const lines = (await run('batch', file, '--timeout', '300', '--csv')).split('\n');
+
+            expect(lines[0]).toBe('protocol,host,port,status,error,name,map,players,maxPlayers');
+            expect(lines).toContain(`source,127.0.0.1,${port},ok,,CLI Test,cp_badlands,1,24`);
+            expect(lines).toContain('source,127.0.0.1,1,timeout,Request timed out,,,,');
+        });
+    });
+
+    describe('getExitCode', () => {
+        const details = { host: '127.0.0.1', port: 27015, requestType: 'A2S_INFO' };
+
+        it.each([
+            ['QueryTimeoutError', new QueryTimeoutError(details), ExitCode.Timeout],
+            ['InvalidResponseError', new InvalidResponseError(details), ExitCode.BadResponse],
+            ['ParseError', new ParseError(details), ExitCode.BadResponse],
+            ['ChecksumMismatchError', new ChecksumMismatchError(details, 1, 2), ExitCode.BadResponse],
+            ['DecompressionError', new DecompressionError(details), ExitCode.BadResponse],
+            ['ChallengeError', new ChallengeError(details), ExitCode.BadResponse],
+            ['TeamSpeak3Error', new TeamSpeak3Error(details, 520, 'invalid loginname or password'), ExitCode.BadResponse],
+            ['BattlefieldError', new BattlefieldError(details, 'InvalidPasswordHash'), ExitCode.BadResponse],
+            ['QueryAbortError', new QueryAbortError(details), ExitCode.Error],
+            ['RconAuthenticationError', new RconAuthenticationError(), ExitCode.Error],
+            ['Error', new Error('getaddrinfo ENOTFOUND'), ExitCode.Error],
+        ])('should map %s to its exit code', (_, err, code) => {
+            expect(getExitCode(err)).toBe(code);
+        });
+    });
+});
@@ -0,0 +1,115 @@
+// __tests__/fivem.test.ts
+import * as http from 'http';
+import * as net from 'net';
+import FiveM from '../src/fivem';
+import { InvalidResponseError, ParseError, QueryAbortError, QueryTimeoutError } from '../src/errors';
+
+const info = {
+    enhancedHostSupport: true,
+    resources: ['mapmanager', 'chat', 'spawnmanager', 'sessionmanager'],
+    server: 'FXServer-master SERVER v1.0.0.7290 linux',
+    vars: { sv_projectName: '^2My ^7Roleplay', sv_maxClients: '48', gamename: 'gta5', tags: 'roleplay,economy', locale: 'en-US' },
+    version: 1046431432,
+};
+
+const players = [
+    { endpoint: '127.0.0.1', id: 3, identifiers: ['license:0123456789abcdef', 'discord:123456789'], name: 'Alice', ping: 42 },
+    { endpoint: '127.0.0.1', id: 7, identifiers: [], name: 'Bob', ping: 88 },
+];
+
+const dynamic = { clients: 2, gametype: 'Roleplay', hostname: '^2My ^7Roleplay', iv: '-1184163376', mapname: 'Los Santos', sv_maxclients: '48' };
+
+describe('FiveM Class', () => {
+    let server: http.Server;
+    let port: number;
+    let routes: Record<string, (response: http.ServerResponse) => void>;
+
+    const json = (body: unknown) => (response: http.ServerResponse) => {
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify(body));
+    };
+
+    beforeAll(async () => {
+        server = http.createServer((request, response) => {
+            const route = routes[request.url ?? ''];
+
+            if (route) {
+                route(response);
+            } else {
+                response.writeHead(404);
+                response.end('Not Found');
+            }
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        port = (server.address() as net.AddressInfo).port;
+    });
+
+    afterAll(async () => {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+        routes = { '/info.json': json(info), '/players.json': json(players), '/dynamic.json': json(dynamic) };
+    });
+
+    it('should retrieve the status from the three endpoints', async () => {
+        const status = await new FiveM({ host: '127.0.0.1', port, timeout: 1000 }).getStatus();
+
+        expect(status).toEqual({
+            hostname: '^2My ^7Roleplay',
+            clients: 2,
+            maxClients: 48,
+            gametype: 'Roleplay',
+            mapname: 'Los Santos',
+            info,
+            players,
+        });
+    });
+
+    it('should default missing identifiers and resources', async () => {
+        routes['/info.json'] = json({ server: 'FXServer', version: 1 });
+        routes['/players.json'] = json([{ endpoint: '127.0.0.1', id: 1, name: 'Carol', ping: 10 }]);
+
+        const fivem = new FiveM({ host: '127.0.0.1', port, timeout: 1000 });
+
+        expect(await fivem.getInfo()).toEqual({ server: 'FXServer', version: 1, resources: [], vars: {} });
+        expect(await fivem.getPlayers()).toEqual([{ endpoint: '127.0.0.1', id: 1, identifiers: [], name: 'Carol', ping: 10 }]);
+    });
+
+    it('should reject an HTTP error or invalid JSON', async () => {
+        const fivem = new FiveM({ host: '127.0.0.1', port, timeout: 1000 });
+
+        delete routes['/dynamic.json'];
+        await expect(fivem.getDynamic()).rejects.toBeInstanceOf(InvalidResponseError);
+
+        routes['/players.json'] = (response) => response.end('<html>');
+        await expect(fivem.getPlayers()).rejects.toBeInstanceOf(ParseError);
+    });
+
+    it('should reject live server data without the hostname or the client count', async () => {
+        const fivem = new FiveM({ host: '127.0.0.1', port, timeout: 1000 });
+
+        routes['/dynamic.json'] = json(null);
+        await expect(fivem.getDynamic()).rejects.toBeInstanceOf(InvalidResponseError);
+
+        routes['/dynamic.json'] = json([dynamic]);
+        await expect(fivem.getDynamic()).rejects.toBeInstanceOf(InvalidResponseError);
+
+        routes['/dynamic.json'] = json({ ...dynamic, clients: '2' });
+        await expect(fivem.getStatus()).rejects.toBeInstanceOf(InvalidResponseError);
+
+        routes['/dynamic.json'] = (response) => response.end('{"hostname":');
+        await expect(fivem.getDynamic()).rejects.toBeInstanceOf(ParseError);
+    });
+
+    it('should time out or abort a server that does not answer', async () => {
+        routes['/info.json'] = () => undefined; // Never answers
+
+        await expect(new FiveM({ host: '127.0.0.1', port, timeout: 200 }).getInfo()).rejects.toBeInstanceOf(QueryTimeoutError);
+
+        const controller = new AbortController();
+        const pending = new FiveM({ host: '127.0.0.1', port, timeout: 5000 }).getInfo({ signal: controller.signal });
+        controller.abort();
+        await expect(pending).rejects.toBeInstanceOf(QueryAbortError);
+    });
+});
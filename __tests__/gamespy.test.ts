@@ -0,0 +1,107 @@
+// __tests__/gamespy.test.ts
+import GameSpy1 from '../src/gamespy1';
+import GameSpy2 from '../src/gamespy2';
+import GameSpy3 from '../src/gamespy3';
+import GameSpy4 from '../src/gamespy4';
+import { InvalidResponseError, QueryTimeoutError } from '../src/errors';
+import { listenUdp } from './helpers/udp-server';
+import type { UdpServer } from './helpers/udp-server';
+
+const SESSION_ID = [0x04, 0x05, 0x06, 0x07];
+
+// Joins strings and bytes into a packet, terminating each string with a null byte
+const packet = (...parts: (string | number[])[]) => Buffer.concat(parts.map((part) => typeof part === 'string' ? Buffer.from(`${part}\0`) : Buffer.from(part)));
+
+// Header of a GameSpy 3 status packet
+const split = (number: number, last: boolean) => [0x00, ...SESSION_ID, ...Buffer.from('splitnum\0'), number | (last ? 0x80 : 0)];
+
+describe('GameSpy Classes', () => {
+    let server: UdpServer;
+    let port: number;
+    let reply: (message: Buffer) => Buffer[];
+
+    beforeAll(async () => {
+        server = await listenUdp((message) => reply(message));
+        port = server.port;
+    });
+
+    afterAll(async () => {
+        await server.close();
+    });
+
+    const params = () => ({ host: '127.0.0.1', port, timeout: 300 });
+
+    it('should reassemble the GameSpy1 status from out-of-order packets', async () => {
+        reply = (message) => message.toString() !== '\\status\\' ? [] : [
+            Buffer.from('\\player_1\\Bob\\frags_1\\3\\team_t0\\Red\\score_t0\\10\\final\\\\queryid\\42.2'),
+            Buffer.from('\\hostname\\UT Server\\mapname\\DM-Deck16\\player_0\\Alice\\frags_0\\7\\queryid\\42.1'),
+        ];
+
+        expect(await new GameSpy1(params()).getStatus()).toEqual({
+            info: { hostname: 'UT Server', mapname: 'DM-Deck16' },
+            players: [{ player: 'Alice', frags: '7' }, { player: 'Bob', frags: '3' }],
+            teams: [{ team: 'Red', score: '10' }],
+        });
+    });
+
+    it('should reject the GameSpy1 status without queryid', async () => {
+        reply = () => [Buffer.from('\\hostname\\UT Server\\final\\')];
+        await expect(new GameSpy1(params()).getStatus()).rejects.toBeInstanceOf(InvalidResponseError);
+    });
+
+    it('should retrieve the GameSpy2 status', async () => {
+        reply = (message) => message[2] !== 0x00 ? [] : [packet(
+            [0x00, ...SESSION_ID],
+            'hostname', 'BFV Server', 'mapname', 'Hue', '',
+            [0x00, 2], 'player_', 'score_', 'team_', '',
+            'Alice', '10', '1', 'Bob', '5', '2',
+            [2], 'team_t', 'score_t', '',
+            'NVA', '100', 'USA', '90',
+        )];
+
+        expect(await new GameSpy2(params()).getStatus()).toEqual({
+            info: { hostname: 'BFV Server', mapname: 'Hue' },
+            players: [{ player: 'Alice', score: '10', team: '1' }, { player: 'Bob', score: '5', team: '2' }],
+            teams: [{ team: 'NVA', score: '100' }, { team: 'USA', score: '90' }],
+        });
+    });
+
+    it('should reassemble the GameSpy3 status with columns continued in the next packet', async () => {
+        reply = (message) => message[2] !== 0x00 ? [] : [
+            packet(split(1, true), [1], 'player_', [2], 'Carol', '', 'score_', [0], '1', '2', '3', '', '', [2], 'team_t', [0], 'Red', '', ''),
+            packet(split(0, false), [0], 'hostname', 'BF2 Server', 'mapname', 'Karkand', '', [1], 'player_', [0], 'Alice', 'Bob'),
+        ];
+
+        expect(await new GameSpy3(params()).getStatus()).toEqual({
+            info: { hostname: 'BF2 Server', mapname: 'Karkand' },
+            players: [{ player: 'Alice', score: '1' }, { player: 'Bob', score: '2' }, { player: 'Carol', score: '3' }],
+            teams: [{ team: 'Red' }],
+        });
+    });
+
+    it('should request a challenge token with GameSpy4', async () => {
+        reply = (message) => {
+            if (message[2] === 0x09) {
+                return [packet([0x09, ...SESSION_ID], '-1234567')];
+            }
+
+            // The token must be sent back as a big-endian integer
+            if (message[2] === 0x00 && message.readInt32BE(7) === -1234567) {
+                return [packet(split(0, true), [0], 'hostname', 'A Minecraft Server', '', [1], 'player_', [0], 'Steve', '', '')];
+            }
+
+            return [];
+        };
+
+        expect(await new GameSpy4(params()).getStatus()).toEqual({
+            info: { hostname: 'A Minecraft Server' },
+            players: [{ player: 'Steve' }],
+            teams: [],
+        });
+    });
+
+    it('should reject with QueryTimeoutError when a packet is missing', async () => {
+        reply = (message) => message[2] !== 0x00 ? [] : [packet(split(1, true), [0], 'hostname', 'BF2 Server', '')];
+        await expect(new GameSpy3(params()).getStatus()).rejects.toBeInstanceOf(QueryTimeoutError);
+    });
+});
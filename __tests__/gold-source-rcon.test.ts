@@ -0,0 +1,98 @@
+// __tests__/gold-source-rcon.test.ts
+import * as dgram from 'dgram';
+import GoldSourceRcon from '../src/gold-source-rcon';
+import { QueryTimeoutError, RconAuthenticationError, RconBannedError } from '../src/errors';
+
+const PASSWORD = 'secret';
+const CHALLENGE = '123456789';
+
+// A minimal HLDS stand-in: issues challenges and splits long output into GoldSource multi-packet responses.
+function createServer(): dgram.Socket {
+    const server = dgram.createSocket('udp4');
+
+    server.on('message', (message, rinfo) => {
+        const reply = (buffer: Buffer) => server.send(buffer, rinfo.port, rinfo.address);
+        const print = (text: string) => Buffer.concat([Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0x6C]), Buffer.from(text + '\0')]);
+        const text = message.toString('utf-8', 4).trim();
+
+        if (text === 'challenge rcon') {
+            reply(Buffer.concat([Buffer.from([0xFF, 0xFF, 0xFF, 0xFF]), Buffer.from(`challenge rcon ${CHALLENGE}\n\0`)]));
+            return;
+        }
+
+        const match = /^rcon (\S+) "([^"]*)" (.*)$/.exec(text);
+
+        if (!match || match[1] !== CHALLENGE) {
+            reply(print('Bad challenge.\n'));
+        } else if (match[3] === 'banme') {
+            reply(print('You have been banned from this server.\n'));
+        } else if (match[2] !== PASSWORD) {
+            reply(print('Bad rcon_password.\n'));
+        } else if (match[3] === 'silent') {
+            return;
+        } else if (match[3] === 'cvarlist') {
+            const payload = print('x'.repeat(2000) + '\n');
+            const parts = [payload.subarray(0, 1000), payload.subarray(1000)];
+            parts.reverse().forEach((part, i) => {
+                const number = parts.length - 1 - i;
+                const header = Buffer.alloc(9);
+                header.writeInt32LE(-2, 0);
+                header.writeInt32LE(1, 4);
+                header.writeUInt8((number << 4) | parts.length, 8);
+                reply(Buffer.concat([header, part]));
+            });
+            reply(print('2 total cvars\n'));
+        } else {
+            reply(print(`echo: ${match[3]}\n`));
+        }
+    });
+
+    return server;
+}
+
+describe('GoldSourceRcon Class', () => {
+    let server: dgram.Socket;
+    let port: number;
+
+    beforeAll((done) => {
+        server = createServer();
+        server.bind(0, '127.0.0.1', () => {
+            port = server.address().port;
+            done();
+        });
+    });
+
+    afterAll((done) => {
+        server.close(done);
+    });
+
+    it('should execute commands after the challenge handshake', async () => {
+        const rcon = new GoldSourceRcon({ host: '127.0.0.1', port, password: PASSWORD });
+        expect(await rcon.exec('status')).toBe('echo: status\n');
+        expect(await rcon.exec('users')).toBe('echo: users\n');
+    });
+
+    it('should reassemble multi-packet output', async () => {
+        const rcon = new GoldSourceRcon({ host: '127.0.0.1', port, password: PASSWORD });
+        expect(await rcon.exec('cvarlist')).toBe('x'.repeat(2000) + '\n2 total cvars\n');
+    });
+
+    it('should reject a wrong password', async () => {
+        const rcon = new GoldSourceRcon({ host: '127.0.0.1', port, password: 'wrong' });
+        await expect(rcon.exec('status')).rejects.toBeInstanceOf(RconAuthenticationError);
+    });
+
+    it('should refuse a password that contains a double quote', () => {
+        expect(() => new GoldSourceRcon({ host: '127.0.0.1', port, password: 'pass"word' })).toThrow(RangeError);
+    });
+
+    it('should time out on a command that prints nothing', async () => {
+        const rcon = new GoldSourceRcon({ host: '127.0.0.1', port, password: PASSWORD, timeout: 300 });
+        await expect(rcon.exec('silent')).rejects.toBeInstanceOf(QueryTimeoutError);
+    });
+
+    it('should reject when banned', async () => {
+        const rcon = new GoldSourceRcon({ host: '127.0.0.1', port, password: PASSWORD });
+        await expect(rcon.exec('banme')).rejects.toBeInstanceOf(RconBannedError);
+    });
+});
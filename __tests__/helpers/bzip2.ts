@@ -0,0 +1,369 @@
+// __tests__/helpers/bzip2.ts
+
+/**
+ * A minimal bzip2 compressor producing streams that any bzip2 decoder (including `seek-bzip`) accepts.
+ * It favours simplicity over ratio: one Huffman table is used for the whole block.
+ * Used by the tests to make `SourceResponder` send compressed multi-packet responses.
+ */
+
+const BLOCK_SIZE_100K = 9;
+
+// Input bytes per block, leaving room for the worst-case 5/4 expansion of the initial run-length encoding.
+const MAX_BLOCK_INPUT = 700000;
+
+const MAX_CODE_LENGTH = 17;
+
+const CRC_TABLE = (() => {
+    const table: number[] = [];
+
+    for (let i = 0; i < 256; i++) {
+        let c = i << 24;
+        for (let j = 0; j < 8; j++) {
+            c = c & 0x80000000 ? (c << 1) ^ 0x04C11DB7 : c << 1;
+        }
+        table.push(c >>> 0);
+    }
+
+    return table;
+})();
+
+/**
+ * Writes values most-significant bit first, as bzip2 expects.
+ */
+class BitWriter {
+    private bytes: number[] = [];
+    private current = 0;
+    private count = 0;
+
+    /**
+     * Writes the lowest `bits` bits of `value`.
+     *
+     * @param bits - The number of bits to write (at most 24).
+     * @param value - The value to write.
+     */
+    write(bits: number, value: number): void {
+        for (let i = bits - 1; i >= 0; i--) {
+            this.current = (this.current << 1) | ((value >>> i) & 1);
+            this.count++;
+
+            if (this.count === 8) {
+                this.bytes.push(this.current);
+                this.current = 0;
+                this.count = 0;
+            }
+        }
+    }
+
+    /**
+     * Writes a 32-bit value.
+     *
+     * @param value - The value to write.
+     */
+    write32(value: number): void {
+        this.write(16, (value >>> 16) & 0xFFFF);
+        this.write(16, value & 0xFFFF);
+    }
+
+    /**
+     * Pads the last byte with zero bits and returns the written bytes.
+     *
+     * @returns The written bytes.
+     */
+    finish(): Buffer {
+        if (this.count > 0) {
+            this.write(8 - this.count, 0);
+        }
+
+        return Buffer.from(this.bytes);
+    }
+}
+
+/**
+ * Compresses data into a bzip2 stream.
+ *
+ * @param data - The data to compress.
+ * @returns The compressed bzip2 stream.
+ */
+export function compress(data: Buffer): Buffer {
+    const writer = new BitWriter();
+    let combinedCrc = 0;
+
+    writer.write(8, 0x42); // 'B'
+    writer.write(8, 0x5A); // 'Z'
+    writer.write(8, 0x68); // 'h'
+    writer.write(8, 0x30 + BLOCK_SIZE_100K);
+
+    for (let start = 0; start < data.length; start += MAX_BLOCK_INPUT) {
+        const block = data.subarray(start, start + MAX_BLOCK_INPUT);
+        const blockCrc = crc(block);
+        combinedCrc = (((combinedCrc << 1) | (combinedCrc >>> 31)) ^ blockCrc) >>> 0;
+        writeBlock(writer, block, blockCrc);
+    }
+
+    // End of stream magic (sqrt(pi))
+    writer.write(24, 0x177245);
+    writer.write(24, 0x385090);
+    writer.write32(combinedCrc);
+
+    return writer.finish();
+}
+
+/**
+ * Computes the bzip2 (MSB-first) CRC32 of a block.
+ *
+ * @param data - The block data.
+ * @returns The CRC32 checksum.
+ */
+function crc(data: Buffer): number {
+    let value = 0xFFFFFFFF;
+
+    for (const byte of data) {
+        value = ((value << 8) ^ CRC_TABLE[((value >>> 24) ^ byte) & 0xFF]) >>> 0;
+    }
+
+    return (value ^ 0xFFFFFFFF) >>> 0;
+}
+
+/**
+ * Writes one compressed block.
+ *
+ * @param writer - The bit writer.
+ * @param block - The uncompressed block data.
+ * @param blockCrc - The CRC32 of the uncompressed block data.
+ */
+function writeBlock(writer: BitWriter, block: Buffer, blockCrc: number): void {
+    const rle = runLengthEncode(block);
+    const { output, origPtr } = burrowsWheeler(rle);
+
+    // Map the bytes in use to a dense alphabet
+    const inUse: boolean[] = new Array(256).fill(false);
+    for (const byte of output) inUse[byte] = true;
+
+    const unseqToSeq: number[] = new Array(256).fill(0);
+    let nInUse = 0;
+    for (let i = 0; i < 256; i++) {
+        if (inUse[i]) unseqToSeq[i] = nInUse++;
+    }
+
+    const symbols = moveToFront(output, unseqToSeq, nInUse);
+    const alphaSize = nInUse + 2;
+
+    const frequencies: number[] = new Array(alphaSize).fill(0);
+    for (const symbol of symbols) frequencies[symbol]++;
+
+    const lengths = codeLengths(frequencies);
+    const codes = assignCodes(lengths);
+
+    // Block header magic (pi)
+    writer.write(24, 0x314159);
+    writer.write(24, 0x265359);
+    writer.write32(blockCrc);
+    writer.write(1, 0); // Not randomised
+    writer.write(24, origPtr);
+
+    // Symbol map: 16 ranges of 16 bytes each
+    const ranges: boolean[] = [];
+    for (let i = 0; i < 16; i++) {
+        ranges.push(inUse.slice(i * 16, i * 16 + 16).some((used) => used));
+    }
+
+    writer.write(16, ranges.reduce((bits, used) => (bits << 1) | (used ? 1 : 0), 0));
+
+    for (let i = 0; i < 16; i++) {
+        if (ranges[i]) {
+            writer.write(16, inUse.slice(i * 16, i * 16 + 16).reduce((bits, used) => (bits << 1) | (used ? 1 : 0), 0));
+        }
+    }
+
+    // Two identical tables (the minimum allowed), every group of 50 symbols selects the first one
+    const nGroups = 2;
+    const nSelectors = Math.ceil(symbols.length / 50);
+
+    writer.write(3, nGroups);
+    writer.write(15, nSelectors);
+
+    for (let i = 0; i < nSelectors; i++) {
+        writer.write(1, 0); // Move-to-front index 0
+    }
+
+    for (let t = 0; t < nGroups; t++) {
+        let current = lengths[0];
+        writer.write(5, current);
+
+        for (let i = 0; i < alphaSize; i++) {
+            while (current < lengths[i]) {
+                writer.write(2, 2); // Increment
+                current++;
+            }
+            while (current > lengths[i]) {
+                writer.write(2, 3); // Decrement
+                current--;
+            }
+            writer.write(1, 0);
+        }
+    }
+
+    for (const symbol of symbols) {
+        writer.write(lengths[symbol], codes[symbol]);
+    }
+}
+
+/**
+ * Applies the initial run-length encoding: runs of 4 to 255 equal bytes become 4 bytes and a count.
+ *
+ * @param data - The block data.
+ * @returns The encoded data.
+ */
+function runLengthEncode(data: Buffer): Buffer {
+    const output: number[] = [];
+    let i = 0;
+
+    while (i < data.length) {
+        const byte = data[i];
+        let run = 1;
+
+        while (run < 255 && i + run < data.length && data[i + run] === byte) {
+            run++;
+        }
+
+        if (run >= 4) {
+            output.push(byte, byte, byte, byte, run - 4);
+        } else {
+            for (let j = 0; j < run; j++) output.push(byte);
+        }
+
+        i += run;
+    }
+
+    return Buffer.from(output);
+}
+
+/**
+ * Applies the Burrows-Wheeler transform.
+ *
+ * @param data - The data to transform.
+ * @returns The last column of the sorted rotations and the row of the original data.
+ */
+function burrowsWheeler(data: Buffer): { output: Buffer; origPtr: number } {
+    const n = data.length;
+    const doubled = Buffer.concat([data, data]);
+    const rotations: number[] = [];
+
+    for (let i = 0; i < n; i++) rotations.push(i);
+
+    rotations.sort((a, b) => doubled.compare(doubled, b, b + n, a, a + n) || a - b);
+
+    const output = Buffer.alloc(n);
+    let origPtr = 0;
+
+    rotations.forEach((rotation, i) => {
+        output[i] = doubled[rotation + n - 1];
+        if (rotation === 0) origPtr = i;
+    });
+
+    return { output, origPtr };
+}
+
+/**
+ * Applies the move-to-front transform and encodes runs of zeros with RUNA/RUNB, ending with the EOB symbol.
+ *
+ * @param data - The Burrows-Wheeler transformed data.
+ * @param unseqToSeq - Maps each byte to its index in the dense alphabet.
+ * @param nInUse - The number of distinct bytes.
+ * @returns The symbols to be Huffman coded.
+ */
+function moveToFront(data: Buffer, unseqToSeq: number[], nInUse: number): number[] {
+    const RUNA = 0;
+    const RUNB = 1;
+    const order: number[] = [];
+    const symbols: number[] = [];
+    let zeroRun = 0;
+
+    for (let i = 0; i < nInUse; i++) order.push(i);
+
+    const flushRun = () => {
+        if (zeroRun === 0) return;
+
+        // Bijective base-2 encoding of the run length
+        let run = zeroRun - 1;
+        for (;;) {
+            symbols.push(run & 1 ? RUNB : RUNA);
+            if (run < 2) break;
+            run = (run - 2) >> 1;
+        }
+
+        zeroRun = 0;
+    };
+
+    for (const byte of data) {
+        const seq = unseqToSeq[byte];
+        const position = order.indexOf(seq);
+
+        if (position === 0) {
+            zeroRun++;
+            continue;
+        }
+
+        flushRun();
+        order.splice(position, 1);
+        order.unshift(seq);
+        symbols.push(position + 1);
+    }
+
+    flushRun();
+    symbols.push(nInUse + 1); // EOB
+
+    return symbols;
+}
+
+/**
+ * Computes Huffman code lengths, flattening the frequencies until no code is longer than the limit.
+ *
+ * @param frequencies - The frequency of each symbol.
+ * @returns The code length of each symbol.
+ */
+function codeLengths(frequencies: number[]): number[] {
+    // Every symbol of the alphabet needs a code, even if it never occurs
+    let weights = frequencies.map((frequency) => Math.max(frequency, 1));
+
+    for (;;) {
+        const lengths: number[] = new Array(weights.length).fill(0);
+        let nodes = weights.map((weight, symbol) => ({ weight, symbols: [symbol] }));
+
+        while (nodes.length > 1) {
+            nodes.sort((a, b) => a.weight - b.weight);
+            const [a, b] = nodes;
+            const merged = { weight: a.weight + b.weight, symbols: a.symbols.concat(b.symbols) };
+
+            for (const symbol of merged.symbols) lengths[symbol]++;
+
+            nodes = [merged, ...nodes.slice(2)];
+        }
+
+        if (Math.max(...lengths) <= MAX_CODE_LENGTH) {
+            return lengths;
+        }
+
+        weights = weights.map((weight) => 1 + (weight >> 1));
+    }
+}
+
+/**
+ * Assigns canonical Huffman codes from code lengths, in the same order as the bzip2 decoder.
+ *
+ * @param lengths - The code length of each symbol.
+ * @returns The code of each symbol.
+ */
+function assignCodes(lengths: number[]): number[] {
+    const codes: number[] = new Array(lengths.length).fill(0);
+    let code = 0;
+
+    for (let length = Math.min(...lengths); length <= Math.max(...lengths); length++) {
+        for (let symbol = 0; symbol < lengths.length; symbol++) {
+            if (lengths[symbol] === length) codes[symbol] = code++;
+        }
+        code <<= 1;
+    }
+
+    return codes;
+}
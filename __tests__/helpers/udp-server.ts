@@ -0,0 +1,47 @@
+// __tests__/helpers/udp-server.ts
+import * as dgram from 'dgram';
+
+/**
+ * A game server stand-in listening for UDP datagrams on 127.0.0.1.
+ */
+export interface UdpServer {
+    /**
+     * The port the stand-in listens on.
+     */
+    port: number;
+
+    /**
+     * Stops listening.
+     */
+    close(): Promise<void>;
+}
+
+/**
+ * The answer to a datagram: one datagram, several, or undefined for none.
+ */
+type UdpAnswer = Buffer | Buffer[] | undefined;
+
+/**
+ * Starts a UDP stand-in that answers each datagram with what the handler returns.
+ *
+ * @param answer - Returns the answer to a datagram, or a promise of it to answer later.
+ * @returns A promise that resolves once the stand-in listens.
+ */
+export async function listenUdp(answer: (message: Buffer) => UdpAnswer | Promise<UdpAnswer>): Promise<UdpServer> {
+    const socket = dgram.createSocket('udp4');
+
+    socket.on('message', async (message, rinfo) => {
+        const response = await answer(message);
+
+        for (const packet of response === undefined ? [] : Array.isArray(response) ? response : [response]) {
+            socket.send(packet, rinfo.port, rinfo.address);
+        }
+    });
+
+    await new Promise<void>((resolve) => socket.bind(0, '127.0.0.1', resolve));
+
+    return {
+        port: socket.address().port,
+        close: () => new Promise<void>((resolve) => socket.close(resolve)),
+    };
+}
@@ -0,0 +1,105 @@
+// __tests__/master-server.test.ts
+import * as dgram from 'dgram';
+import MasterServer from '../src/master-server';
+import { MasterServerRegion } from '../src/interfaces/master-server.interface';
+
+const SERVERS = ['1.2.3.4:27015', '5.6.7.8:27016', '9.10.11.12:27017', '13.14.15.16:27018', '17.18.19.20:27019'];
+const PAGE_SIZE = 2;
+
+// A master server stand-in that pages through SERVERS and records the requests it received.
+function createServer(requests: { region: number; seed: string; filter: string }[]): dgram.Socket {
+    const server = dgram.createSocket('udp4');
+
+    server.on('message', (message, rinfo) => {
+        const [seed, filter] = message.toString('utf-8', 2).split('\0');
+        requests.push({ region: message[1], seed, filter });
+
+        const start = seed === '0.0.0.0:0' ? 0 : SERVERS.indexOf(seed) + 1;
+        const page = SERVERS.slice(start, start + PAGE_SIZE);
+
+        if (start + PAGE_SIZE >= SERVERS.length) {
+            page.push('0.0.0.0:0');
+        }
+
+        const entries = page.map((address) => {
+            const [host, port] = address.split(':');
+            const entry = Buffer.alloc(6);
+            host.split('.').forEach((octet, i) => entry.writeUInt8(Number(octet), i));
+            entry.writeUInt16BE(Number(port), 4);
+            return entry;
+        });
+
+        server.send(Buffer.concat([Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0x66, 0x0A]), ...entries]), rinfo.port, rinfo.address);
+    });
+
+    return server;
+}
+
+describe('MasterServer Class', () => {
+    const requests: { region: number; seed: string; filter: string }[] = [];
+    let server: dgram.Socket;
+    let port: number;
+
+    beforeAll((done) => {
+        server = createServer(requests);
+        server.bind(0, '127.0.0.1', () => {
+            port = server.address().port;
+            done();
+        });
+    });
+
+    afterAll((done) => {
+        server.close(done);
+    });
+
+    it('should page through the whole server list', async () => {
+        requests.length = 0;
+        const master = new MasterServer({ host: '127.0.0.1', port });
+        const servers: string[] = [];
+
+        for await (const { host, port } of master.getServers({ filter: '\\appid\\730', region: MasterServerRegion.Europe })) {
+            servers.push(`${host}:${port}`);
+        }
+
+        expect(servers).toEqual(SERVERS);
+        expect(requests.map((request) => request.seed)).toEqual(['0.0.0.0:0', '5.6.7.8:27016', '13.14.15.16:27018']);
+        expect(requests.every((request) => request.region === 0x03 && request.filter === '\\appid\\730')).toBe(true);
+    });
+
+    it('should serialize filter objects', async () => {
+        requests.length = 0;
+        const master = new MasterServer({ host: '127.0.0.1', port });
+        const iterator = master.getServers({ filter: { appid: 730, dedicated: true, nor: { map: 'de_dust2', secure: false } } });
+
+        await iterator.next();
+        await iterator.return!(undefined);
+
+        expect(requests[0].filter).toBe('\\appid\\730\\dedicated\\1\\nor\\2\\map\\de_dust2\\secure\\0');
+        expect(requests[0].region).toBe(0xFF);
+    });
+
+    it('should throw the error the socket emitted between two pages', async () => {
+        const send = jest.spyOn(dgram.Socket.prototype, 'send');
+
+        try {
+            const master = new MasterServer({ host: '127.0.0.1', port });
+            const iterator = master.getServers();
+
+            await iterator.next();
+            await iterator.next();
+
+            // The consumer is busy with the first page, so no request is pending
+            const socket = send.mock.instances[0] as unknown as dgram.Socket;
+            socket.emit('error', new Error('ICMP port unreachable'));
+
+            await expect(iterator.next()).rejects.toThrow('ICMP port unreachable');
+        } finally {
+            send.mockRestore();
+        }
+    });
+
+    it('should throw error on timeout', async () => {
+        const master = new MasterServer({ host: '127.0.0.1', port: 1, timeout: 500 });
+        await expect(master.getServers().next()).rejects.toThrow('Request timed out');
+    });
+});
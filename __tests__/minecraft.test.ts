@@ -0,0 +1,172 @@
+// __tests__/minecraft.test.ts
+import * as dgram from 'dgram';
+import * as net from 'net';
+import Minecraft from '../src/minecraft';
+import { BufferReader } from '../src/lib/buffer-reader';
+import { InvalidResponseError } from '../src/errors';
+
+const status = {
+    version: { name: '1.20.4', protocol: 765 },
+    players: { max: 20, online: 1, sample: [{ name: 'Steve', id: '8667ba71-b85a-4004-af54-457a9734eed7' }] },
+    description: { text: '§aA ', extra: [{ text: 'Minecraft', bold: true }, ' Server'] },
+    favicon: 'data:image/png;base64,AAAA',
+};
+
+// Prefixes the JSON text with its length as a two-byte VarInt
+const jsonString = (json: unknown) => {
+    const text = Buffer.from(JSON.stringify(json));
+    return Buffer.concat([Buffer.from([0x80 | (text.length & 0x7F), text.length >> 7]), text]);
+};
+
+describe('Minecraft Class', () => {
+    let server: net.Server;
+    let port: number;
+    let onConnection: (socket: net.Socket) => void;
+
+    beforeAll(async () => {
+        server = net.createServer((socket) => onConnection(socket));
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        port = (server.address() as net.AddressInfo).port;
+    });
+
+    afterAll(async () => {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    it('should retrieve the status using the Server List Ping', async () => {
+        let handshake: Buffer | undefined;
+
+        onConnection = (socket) => socket.on('data', (data) => {
+            handshake = data;
+            const response = Buffer.concat([Buffer.from([0x00]), jsonString(status)]);
+
+            // Send the response in two chunks to exercise the reassembly
+            const packet = Buffer.concat([Buffer.from([0x80 | (response.length & 0x7F), response.length >> 7]), response]);
+            socket.write(packet.subarray(0, 10));
+            setTimeout(() => socket.write(packet.subarray(10)), 20);
+        });
+
+        const result = await new Minecraft({ host: '127.0.0.1', port, timeout: 1000 }).getStatus();
+
+        expect(result).toEqual({ ...status, motd: 'A Minecraft Server' });
+
+        // Handshake with protocol version -1, the address, the port and next state 1, then the status request
+        const reader = new BufferReader(handshake!);
+        reader.readVarInt();
+        expect(reader.readVarInt()).toBe(0x00);
+        expect(reader.readVarInt()).toBe(-1);
+        expect(reader.subarray(reader.getOffset() + 1, reader.getOffset() + 10).toString()).toBe('127.0.0.1');
+        expect(handshake!.subarray(-5)).toEqual(Buffer.from([port >> 8, port & 0xFF, 0x01, 0x01, 0x00]));
+    });
+
+    it('should fall back to the legacy ping', async () => {
+        onConnection = (socket) => socket.on('data', (data) => {
+            if (data[0] !== 0xFE) {
+                socket.destroy(); // Old servers do not understand the handshake
+                return;
+            }
+
+            const text = Buffer.from('§1\x0047\x001.4.7\x00§cA Legacy Server\x003\x0010', 'utf16le').swap16();
+            const length = Buffer.alloc(2);
+            length.writeUInt16BE(text.length / 2);
+            socket.end(Buffer.concat([Buffer.from([0xFF]), length, text]));
+        });
+
+        expect(await new Minecraft({ host: '127.0.0.1', port, timeout: 1000 }).getStatus()).toEqual({
+            version: { name: '1.4.7', protocol: 47 },
+            players: { max: 10, online: 3 },
+            description: '§cA Legacy Server',
+            motd: 'A Legacy Server',
+        });
+    });
+
+    it('should parse the beta legacy ping', async () => {
+        onConnection = (socket) => socket.on('data', () => {
+            const text = Buffer.from('A Beta Server§0§20', 'utf16le').swap16();
+            socket.end(Buffer.concat([Buffer.from([0xFF, 0x00, text.length / 2]), text]));
+        });
+
+        expect(await new Minecraft({ host: '127.0.0.1', port, timeout: 1000 }).getLegacyStatus()).toMatchObject({
+            players: { max: 20, online: 0 },
+            motd: 'A Beta Server',
+        });
+    });
+
+    it('should keep the formatting codes of a beta MOTD out of the player counts', async () => {
+        onConnection = (socket) => socket.on('data', () => {
+            const text = Buffer.from('§cA §lBeta§r Server§3§20', 'utf16le').swap16();
+            socket.end(Buffer.concat([Buffer.from([0xFF, 0x00, text.length / 2]), text]));
+        });
+
+        expect(await new Minecraft({ host: '127.0.0.1', port, timeout: 1000 }).getLegacyStatus()).toMatchObject({
+            players: { max: 20, online: 3 },
+            description: '§cA §lBeta§r Server',
+            motd: 'A Beta Server',
+        });
+    });
+
+    it('should not take a status that is not a JSON object', async () => {
+        onConnection = (socket) => socket.on('data', (data) => {
+            if (data[0] === 0xFE) {
+                const text = Buffer.from('A Beta Server§0§20', 'utf16le').swap16();
+                socket.end(Buffer.concat([Buffer.from([0xFF, 0x00, text.length / 2]), text]));
+                return;
+            }
+
+            // Status response with the JSON "[]"
+            socket.write(Buffer.from([0x04, 0x00, 0x02, 0x5B, 0x5D]));
+        });
+
+        // The invalid status is rejected, so the legacy ping is tried instead
+        expect(await new Minecraft({ host: '127.0.0.1', port, timeout: 1000 }).getStatus()).toMatchObject({
+            players: { max: 20, online: 0 },
+            motd: 'A Beta Server',
+        });
+    });
+
+    it('should reject when both pings fail', async () => {
+        onConnection = (socket) => socket.on('data', (data) => {
+            if (data[0] === 0xFE) {
+                socket.destroy();
+                return;
+            }
+
+            // Status response with the malformed JSON "{{"
+            socket.write(Buffer.from([0x04, 0x00, 0x02, 0x7B, 0x7B]));
+        });
+
+        await expect(new Minecraft({ host: '127.0.0.1', port, timeout: 1000 }).getStatus()).rejects.toBeInstanceOf(InvalidResponseError);
+    });
+
+    it('should retrieve the full stat using the Query protocol', async () => {
+        const query = dgram.createSocket('udp4');
+        query.on('message', (message, rinfo) => {
+            const session = message.subarray(3, 7);
+
+            if (message[2] === 0x09) {
+                query.send(Buffer.concat([Buffer.from([0x09]), session, Buffer.from('9513307\0')]), rinfo.port, rinfo.address);
+            } else {
+                const body = 'hostname\0A Minecraft Server\0plugins\0CraftBukkit on Bukkit 1.20.4: WorldEdit 7.2.15; Essentials 2.20.1\0numplayers\x002\0\0\x01player_\0\0Steve\0Alex\0\0';
+                query.send(Buffer.concat([Buffer.from([0x00]), session, Buffer.from('splitnum\0\x80\0', 'latin1'), Buffer.from(body)]), rinfo.port, rinfo.address);
+            }
+        });
+        await new Promise<void>((resolve) => query.bind(0, '127.0.0.1', resolve));
+
+        try {
+            const minecraft = new Minecraft({ host: '127.0.0.1', port, queryPort: query.address().port, timeout: 1000 });
+
+            expect(await minecraft.getFullStat()).toEqual({
+                info: {
+                    hostname: 'A Minecraft Server',
+                    plugins: 'CraftBukkit on Bukkit 1.20.4: WorldEdit 7.2.15; Essentials 2.20.1',
+                    numplayers: '2',
+                },
+                software: 'CraftBukkit on Bukkit 1.20.4',
+                plugins: ['WorldEdit 7.2.15', 'Essentials 2.20.1'],
+                players: ['Steve', 'Alex'],
+            });
+        } finally {
+            await new Promise<void>((resolve) => query.close(resolve));
+        }
+    });
+});
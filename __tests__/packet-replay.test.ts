@@ -0,0 +1,75 @@
+// __tests__/packet-replay.test.ts
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import Source from '../src/source';
+import SourceResponder from '../src/source-responder';
+import PacketRecorder from '../src/packet-recorder';
+import PacketReplay from '../src/packet-replay';
+
+describe('PacketRecorder and PacketReplay Classes', () => {
+    const info = {
+        protocol: 17, name: 'Capture', map: 'de_inferno', folder: 'csgo', game: 'Counter-Strike', id: 730,
+        players: 1, maxPlayers: 10, bots: 0, serverType: 'd', environment: 'l', visibility: 0, vac: 1, version: '1.0',
+    };
+    const players = [{ index: 0, name: 'Alice', score: 1, duration: 2 }];
+    const rules = { sv_cheats: '0' };
+    let responder: SourceResponder;
+    let port: number;
+    let directory: string;
+
+    beforeAll(async () => {
+        responder = new SourceResponder({ host: '127.0.0.1', port: 0, info, players, rules });
+        await responder.listen();
+        port = responder.address().port;
+        directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'opengsq-'));
+    });
+
+    afterAll(async () => {
+        await responder.close();
+        await fs.promises.rm(directory, { recursive: true, force: true });
+    });
+
+    it('should capture a query and replay it without the server', async () => {
+        const recorder = new PacketRecorder();
+        const recorded = await new Source({ host: '127.0.0.1', port, transport: recorder.transport }).getAll();
+        const file = path.join(directory, 'capture.json');
+        await recorder.save(file);
+
+        const capture = recorder.toJSON();
+        expect(capture.target).toEqual({ host: '127.0.0.1', port });
+        expect(capture.packets.map((packet) => packet.direction)).toEqual(['send', 'receive', 'send', 'send', 'send', 'receive', 'receive', 'receive']);
+        expect(capture.packets[0]).toMatchObject({ data: 'ffffffff54536f7572636520456e67696e6520517565727900', time: 0 });
+
+        const replay = await PacketReplay.load(file);
+        const replayed = await new Source({ host: 'offline.test', port: 1, transport: replay.transport }).getAll();
+
+        expect(replayed).toEqual({ info, players, rules, errors: {} });
+        expect(recorded).toMatchObject({ info, players, rules, errors: {} });
+        expect(replay.done).toBe(true);
+    });
+
+    it('should share the packets between the transports of several queries', async () => {
+        const recorder = new PacketRecorder();
+        const source = new Source({ host: '127.0.0.1', port, transport: recorder.transport });
+        await source.getInfo();
+        await source.getPlayers();
+
+        const replay = new PacketReplay(recorder.toJSON());
+        const offline = new Source({ host: '127.0.0.1', port, transport: replay.transport });
+
+        expect(await offline.getInfo()).toEqual(info);
+        expect(await offline.getPlayers()).toEqual(players);
+        expect(replay.done).toBe(true);
+    });
+
+    it('should reject a query that does not match the capture', async () => {
+        const recorder = new PacketRecorder();
+        await new Source({ host: '127.0.0.1', port, transport: recorder.transport }).getInfo();
+
+        const replay = new PacketReplay(recorder.toJSON());
+        const error = await new Source({ host: '127.0.0.1', port, timeout: 1000, transport: replay.transport }).getRules().catch((err) => err);
+
+        expect(error.message).toBe('Replay mismatch at packet 0: expected ffffffff54536f7572636520456e67696e6520517565727900, got ffffffff56ffffffff');
+    });
+});
@@ -0,0 +1,107 @@
+// __tests__/protocols.test.ts
+import ProtocolBase from '../src/protocol-base';
+import Source from '../src/source';
+import SourceResponder from '../src/source-responder';
+import { createProtocol, getProtocols, query } from '../src/protocols';
+import { InvalidResponseError, ParseError, QueryAbortError, QueryTimeoutError } from '../src/errors';
+import { listenUdp } from './helpers/udp-server';
+import type { QueryOptions } from '../src/interfaces/query.interface';
+import type { UdpServer } from './helpers/udp-server';
+
+/**
+ * A protocol whose server echoes the request back in two halves.
+ */
+class EchoProtocol extends ProtocolBase {
+    public readonly fullName = 'Echo Protocol';
+
+    public getStatus(options: QueryOptions = {}): Promise<string> {
+        let text = '';
+
+        return this.udp('ECHO', Buffer.from('hello world'), (message) => {
+            if (message[0] === 0xFF) {
+                throw new InvalidResponseError(this.details('ECHO', message));
+            }
+
+            if (message[0] === 0xFE) {
+                message.readUInt32LE(1); // Truncated
+            }
+
+            text += message.toString();
+            return text.length === 'hello world'.length ? text : undefined;
+        }, options);
+    }
+}
+
+describe('Protocol registry', () => {
+    it('should list the supported protocols', () => {
+        expect(getProtocols()).toContain('source');
+    });
+
+    it('should create a protocol by its name', () => {
+        expect(createProtocol('source', { host: '127.0.0.1', port: 27015 })).toBeInstanceOf(Source);
+        expect(() => createProtocol('unknown', { host: '127.0.0.1', port: 27015 })).toThrow('Unknown protocol: unknown');
+    });
+
+    it('should query a server by protocol name', async () => {
+        const info = { protocol: 17, name: 'registry', map: 'de_dust2', folder: 'csgo', game: 'Counter-Strike', id: 730, players: 1, maxPlayers: 10, bots: 0, serverType: 'd', environment: 'l', visibility: 0, vac: 1, version: '1.0' };
+        const responder = new SourceResponder({ host: '127.0.0.1', port: 0, info });
+        await responder.listen();
+
+        try {
+            const result = await query('source', { host: '127.0.0.1', port: responder.address().port, timeout: 1000 });
+            expect(result.name).toBe('registry');
+        } finally {
+            await responder.close();
+        }
+    });
+
+    it('should reject an unknown protocol', async () => {
+        await expect(query('unknown', { host: '127.0.0.1', port: 27015 })).rejects.toThrow('Unknown protocol: unknown');
+    });
+});
+
+describe('ProtocolBase Class', () => {
+    let server: UdpServer;
+    let port: number;
+    let reply: (message: Buffer) => Buffer[];
+
+    beforeAll(async () => {
+        server = await listenUdp((message) => reply(message));
+        port = server.port;
+    });
+
+    afterAll(async () => {
+        await server.close();
+    });
+
+    const echo = (timeout = 300) => new EchoProtocol({ host: '127.0.0.1', port, timeout });
+
+    it('should collect a response of several datagrams', async () => {
+        reply = (message) => [message.subarray(0, 5), message.subarray(5)];
+        expect(await echo().getStatus()).toBe('hello world');
+    });
+
+    it('should reject with QueryTimeoutError', async () => {
+        reply = () => [];
+        await expect(echo().getStatus()).rejects.toMatchObject({ constructor: QueryTimeoutError, requestType: 'ECHO', port });
+    });
+
+    it('should reject with the error thrown by the handler', async () => {
+        reply = () => [Buffer.from([0xFF])];
+        await expect(echo().getStatus()).rejects.toBeInstanceOf(InvalidResponseError);
+    });
+
+    it('should wrap read errors into ParseError', async () => {
+        reply = () => [Buffer.from([0xFE, 0x00])];
+        const err = await echo().getStatus().catch((err) => err);
+        expect(err).toBeInstanceOf(ParseError);
+        expect(err.data).toEqual(Buffer.from([0xFE, 0x00]));
+    });
+
+    it('should reject with QueryAbortError', async () => {
+        reply = () => [];
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 20);
+        await expect(echo(2000).getStatus({ signal: controller.signal })).rejects.toBeInstanceOf(QueryAbortError);
+    });
+});
@@ -0,0 +1,104 @@
+// __tests__/quake.test.ts
+import Quake1 from '../src/quake1';
+import Quake2 from '../src/quake2';
+import Quake3 from '../src/quake3';
+import { InvalidResponseError, ParseError, QueryTimeoutError } from '../src/errors';
+import { listenUdp } from './helpers/udp-server';
+import type { UdpServer } from './helpers/udp-server';
+
+describe('Quake Classes', () => {
+    let server: UdpServer;
+    let port: number;
+    let responses: Record<string, string>;
+
+    beforeAll(async () => {
+        server = await listenUdp((message) => {
+            const response = responses[message.toString('latin1')];
+            return response !== undefined ? Buffer.from(response, 'latin1') : undefined;
+        });
+        port = server.port;
+    });
+
+    afterAll(async () => {
+        await server.close();
+    });
+
+    const params = () => ({ host: '127.0.0.1', port, timeout: 300 });
+
+    it('should retrieve the Quake1 status', async () => {
+        responses = {
+            '\xFF\xFF\xFF\xFFstatus\n': '\xFF\xFF\xFF\xFFn\\hostname\\QW Server\\map\\dm4\\maxclients\\16\n'
+                + '2 15 40 25 "Player One" "base" 4 13\n'
+                + '5 -1 3 100 "Two" "" 0 0\n',
+        };
+
+        expect(await new Quake1(params()).getStatus()).toEqual({
+            info: { hostname: 'QW Server', map: 'dm4', maxclients: '16' },
+            players: [
+                { id: 2, score: 15, time: 40, ping: 25, name: 'Player One', skin: 'base', color1: 4, color2: 13 },
+                { id: 5, score: -1, time: 3, ping: 100, name: 'Two', skin: '', color1: 0, color2: 0 },
+            ],
+        });
+    });
+
+    it('should retrieve the Quake2 status', async () => {
+        responses = {
+            '\xFF\xFF\xFF\xFFstatus\n': '\xFF\xFF\xFF\xFFprint\n\\hostname\\Q2 Server\\mapname\\q2dm1\n'
+                + '10 50 "Alice"\n'
+                + '3 0 "Bob" "192.168.0.2:27901"\n',
+        };
+
+        expect(await new Quake2(params()).getStatus()).toEqual({
+            info: { hostname: 'Q2 Server', mapname: 'q2dm1' },
+            players: [
+                { score: 10, ping: 50, name: 'Alice' },
+                { score: 3, ping: 0, name: 'Bob', address: '192.168.0.2:27901' },
+            ],
+        });
+    });
+
+    it('should retrieve the Quake3 info and status without color codes', async () => {
+        responses = {
+            '\xFF\xFF\xFF\xFFgetinfo opengsq\n': '\xFF\xFF\xFF\xFFinfoResponse\n\\challenge\\opengsq\\hostname\\^1Red ^7Server\\clients\\2\\sv_maxclients\\12',
+            '\xFF\xFF\xFF\xFFgetstatus\n': '\xFF\xFF\xFF\xFFstatusResponse\n\\sv_hostname\\^1Red ^7Server\\mapname\\q3dm17\n'
+                + '20 48 "^4Blue^7 Player"\n'
+                + '0 0 "^XFF8800Orange"\n',
+        };
+
+        const quake3 = new Quake3(params());
+
+        expect(await quake3.getInfo()).toEqual({ challenge: 'opengsq', hostname: 'Red Server', clients: '2', sv_maxclients: '12' });
+        expect(await quake3.getStatus()).toEqual({
+            info: { sv_hostname: 'Red Server', mapname: 'q3dm17' },
+            players: [
+                { score: 20, ping: 48, name: 'Blue Player' },
+                { score: 0, ping: 0, name: 'Orange' },
+            ],
+        });
+    });
+
+    it('should keep the color codes if requested', async () => {
+        responses = {
+            '\xFF\xFF\xFF\xFFgetstatus\n': '\xFF\xFF\xFF\xFFstatusResponse\n\\sv_hostname\\^1Red\n20 48 "^4Blue"\n',
+        };
+
+        const status = await new Quake3({ ...params(), stripColors: false }).getStatus();
+        expect(status.info.sv_hostname).toBe('^1Red');
+        expect(status.players[0].name).toBe('^4Blue');
+    });
+
+    it('should reject with InvalidResponseError on an unexpected header', async () => {
+        responses = { '\xFF\xFF\xFF\xFFgetstatus\n': '\xFF\xFF\xFF\xFFprint\nunknown command' };
+        await expect(new Quake3(params()).getStatus()).rejects.toBeInstanceOf(InvalidResponseError);
+    });
+
+    it('should reject with ParseError on a malformed player line', async () => {
+        responses = { '\xFF\xFF\xFF\xFFgetstatus\n': '\xFF\xFF\xFF\xFFstatusResponse\n\\sv_hostname\\Server\nabc 48 "Name"\n' };
+        await expect(new Quake3(params()).getStatus()).rejects.toBeInstanceOf(ParseError);
+    });
+
+    it('should reject with QueryTimeoutError', async () => {
+        responses = {};
+        await expect(new Quake3(params()).getStatus()).rejects.toMatchObject({ constructor: QueryTimeoutError, requestType: 'getstatus' });
+    });
+});
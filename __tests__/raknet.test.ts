@@ -0,0 +1,101 @@
+// __tests__/raknet.test.ts
+import * as dns from 'dns';
+import RakNet from '../src/raknet';
+import { InvalidResponseError, ParseError } from '../src/errors';
+import { listenUdp } from './helpers/udp-server';
+import type { UdpServer } from './helpers/udp-server';
+
+const MAGIC = Buffer.from('00ffff00fefefefefdfdfdfd12345678', 'hex');
+
+// Builds an Unconnected Pong answering the given ping
+const pong = (ping: Buffer, serverId: string, magic = MAGIC) => {
+    const guid = Buffer.alloc(8);
+    guid.writeBigInt64BE(BigInt('0x12345678'));
+    const length = Buffer.alloc(2);
+    length.writeUInt16BE(Buffer.byteLength(serverId));
+    return Buffer.concat([Buffer.from([0x1C]), ping.subarray(1, 9), guid, magic, length, Buffer.from(serverId)]);
+};
+
+describe('RakNet Class', () => {
+    let server: UdpServer;
+    let port: number;
+    let reply: (message: Buffer) => Buffer;
+
+    beforeAll(async () => {
+        server = await listenUdp((message) => reply(message));
+        port = server.port;
+    });
+
+    afterAll(async () => {
+        await server.close();
+    });
+
+    it('should parse the Bedrock MOTD', async () => {
+        const serverId = 'MCPE;Dedicated Server;622;1.20.50;3;10;13253860892328930865;Bedrock level;Survival;1;19132;19133;';
+        let ping: Buffer | undefined;
+
+        reply = (message) => {
+            ping = message;
+            return pong(message, serverId);
+        };
+
+        const status = await new RakNet({ host: '127.0.0.1', port, timeout: 1000 }).getStatus();
+
+        expect(status).toEqual({
+            edition: 'MCPE',
+            motd: 'Dedicated Server',
+            protocol: 622,
+            version: '1.20.50',
+            players: 3,
+            maxPlayers: 10,
+            serverGuid: '13253860892328930865',
+            levelName: 'Bedrock level',
+            gamemode: 'Survival',
+            gamemodeId: 1,
+            portIPv4: 19132,
+            portIPv6: 19133,
+            raw: serverId,
+            latency: expect.any(Number),
+        });
+        expect(status.latency).toBeGreaterThanOrEqual(0);
+
+        // Packet id, time, magic and client GUID
+        expect(ping!.length).toBe(33);
+        expect(ping![0]).toBe(0x01);
+        expect(ping!.subarray(9, 25)).toEqual(MAGIC);
+    });
+
+    it('should omit the fields older servers do not send', async () => {
+        reply = (message) => pong(message, 'MCPE;Old Server;137;1.2.0;0;20;123');
+
+        const status = await new RakNet({ host: '127.0.0.1', port, timeout: 1000 }).getStatus();
+        expect(status.version).toBe('1.2.0');
+        expect(status).not.toHaveProperty('levelName');
+        expect(status).not.toHaveProperty('portIPv4');
+    });
+
+    it('should not include the DNS lookup in the latency', async () => {
+        reply = (message) => pong(message, 'MCPE;Slow DNS;622;1.20.50;0;10;123');
+        const lookup = jest.spyOn(dns.promises, 'lookup').mockImplementation(() => new Promise((resolve) => {
+            setTimeout(() => resolve([{ address: '127.0.0.1', family: 4 }] as any), 200);
+        }) as any);
+
+        try {
+            const status = await new RakNet({ host: 'slow-dns.test', port, timeout: 1000 }).getStatus();
+            expect(status.motd).toBe('Slow DNS');
+            expect(status.latency).toBeLessThan(150);
+        } finally {
+            lookup.mockRestore();
+        }
+    });
+
+    it('should reject with InvalidResponseError on a wrong magic', async () => {
+        reply = (message) => pong(message, 'MCPE;', Buffer.alloc(16));
+        await expect(new RakNet({ host: '127.0.0.1', port, timeout: 1000 }).getStatus()).rejects.toBeInstanceOf(InvalidResponseError);
+    });
+
+    it('should reject with ParseError on a truncated server id', async () => {
+        reply = (message) => pong(message, 'MCPE;Truncated Server;622;1.20.50;0;10;123').subarray(0, -10);
+        await expect(new RakNet({ host: '127.0.0.1', port, timeout: 1000 }).getStatus()).rejects.toBeInstanceOf(ParseError);
+    });
+});
@@ -0,0 +1,215 @@
+// __tests__/resolver.test.ts
+import * as dgram from 'dgram';
+import * as dns from 'dns';
+import * as net from 'net';
+import RakNet from '../src/raknet';
+import Minecraft from '../src/minecraft';
+import TeamSpeak3 from '../src/teamspeak3';
+import GoldSourceRcon from '../src/gold-source-rcon';
+import MasterServer from '../src/master-server';
+import { lookupHost, lookupSrv } from '../src/lib/resolver';
+import { UdpEndpoint } from '../src/lib/udp-endpoint';
+
+const MAGIC = Buffer.from('00ffff00fefefefefdfdfdfd12345678', 'hex');
+
+// Answers every Unconnected Ping with a Bedrock pong
+const answerPings = (socket: dgram.Socket) => socket.on('message', (message, rinfo) => {
+    const serverId = Buffer.from('MCPE;Dual Stack;622;1.20.50;1;10;1;;;');
+    const length = Buffer.alloc(2);
+    length.writeUInt16BE(serverId.length);
+    socket.send(Buffer.concat([Buffer.from([0x1C]), message.subarray(1, 9), Buffer.alloc(8), MAGIC, length, serverId]), rinfo.port, rinfo.address);
+});
+
+const bind = async (type: 'udp4' | 'udp6', host: string, port = 0) => {
+    const socket = dgram.createSocket(type);
+    await new Promise<void>((resolve) => socket.bind(port, host, resolve));
+    return socket;
+};
+
+describe('lookupHost', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should return IP addresses without a lookup', async () => {
+        const lookup = jest.spyOn(dns.promises, 'lookup');
+
+        expect(await lookupHost('::1')).toEqual([{ address: '::1', family: 6 }]);
+        expect(await lookupHost('127.0.0.1')).toEqual([{ address: '127.0.0.1', family: 4 }]);
+        expect(lookup).not.toHaveBeenCalled();
+    });
+
+    it('should interleave the address families, starting with the preferred one', async () => {
+        jest.spyOn(dns.promises, 'lookup').mockResolvedValue([
+            { address: '2001:db8::1', family: 6 },
+            { address: '2001:db8::2', family: 6 },
+            { address: '192.0.2.1', family: 4 },
+        ] as any);
+
+        expect(await lookupHost('example.com')).toEqual([
+            { address: '2001:db8::1', family: 6 },
+            { address: '192.0.2.1', family: 4 },
+            { address: '2001:db8::2', family: 6 },
+        ]);
+    });
+});
+
+describe('lookupSrv', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should pick the record with the lowest priority and the highest weight', async () => {
+        const resolveSrv = jest.spyOn(dns.promises, 'resolveSrv').mockResolvedValue([
+            { name: 'backup.example.com', port: 25570, priority: 10, weight: 100 },
+            { name: 'light.example.com', port: 25566, priority: 5, weight: 1 },
+            { name: 'heavy.example.com', port: 25565, priority: 5, weight: 10 },
+        ]);
+
+        expect(await lookupSrv('_minecraft._tcp.example.com')).toEqual({ host: 'heavy.example.com', port: 25565 });
+        expect(resolveSrv).toHaveBeenCalledWith('_minecraft._tcp.example.com');
+    });
+
+    it('should return undefined when there is no record', async () => {
+        jest.spyOn(dns.promises, 'resolveSrv').mockRejectedValue(Object.assign(new Error('queryNotFound'), { code: dns.NOTFOUND }));
+
+        expect(await lookupSrv('_minecraft._tcp.example.com')).toBeUndefined();
+    });
+});
+
+describe('UdpEndpoint', () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should query an IPv6 server over udp6', async () => {
+        const server = await bind('udp6', '::1');
+        answerPings(server);
+
+        try {
+            const raknet = new RakNet({ host: '::1', port: server.address().port, timeout: 1000 });
+            const onAddress = jest.fn();
+
+            expect(await raknet.getStatus({ onAddress })).toMatchObject({ motd: 'Dual Stack' });
+            expect(onAddress).toHaveBeenCalledWith({ host: '::1', port: server.address().port, address: '::1', family: 6 });
+        } finally {
+            server.close();
+        }
+    });
+
+    it('should fall back to the other address family when the first one does not answer', async () => {
+        const server = await bind('udp4', '127.0.0.1');
+        answerPings(server);
+
+        // Nothing listens on the IPv6 address, so only the IPv4 one answers
+        jest.spyOn(dns.promises, 'lookup').mockResolvedValue([{ address: '::1', family: 6 }, { address: '127.0.0.1', family: 4 }] as any);
+
+        try {
+            const raknet = new RakNet({ host: 'dual-stack.test', port: server.address().port, timeout: 1000 });
+            const onAddress = jest.fn();
+
+            expect(await raknet.getStatus({ onAddress })).toMatchObject({ motd: 'Dual Stack' });
+            expect(onAddress).toHaveBeenCalledWith(expect.objectContaining({ host: 'dual-stack.test', address: '127.0.0.1', family: 4 }));
+        } finally {
+            server.close();
+        }
+    });
+
+    it('should send RCON commands and list servers over udp6', async () => {
+        const server = await bind('udp6', '::1');
+
+        // Answers RCON with a challenge and then the output, and the master server with one server and the end marker
+        server.on('message', (message, rinfo) => {
+            const reply = (buffer: Buffer) => server.send(buffer, rinfo.port, rinfo.address);
+
+            if (message[0] === 0x31) {
+                reply(Buffer.from('ffffffff660a' + '7f0000016987' + '000000000000', 'hex'));
+            } else if (message.toString('utf-8', 4).startsWith('challenge rcon')) {
+                reply(Buffer.from('\xFF\xFF\xFF\xFFchallenge rcon 1\n', 'latin1'));
+            } else {
+                reply(Buffer.from('\xFF\xFF\xFF\xFFlpong\n', 'latin1'));
+            }
+        });
+
+        try {
+            const rcon = new GoldSourceRcon({ host: '::1', port: server.address().port, password: 'secret', timeout: 1000, idleTimeout: 50 });
+            expect(await rcon.exec('ping')).toBe('pong\n');
+
+            const servers = [];
+            for await (const entry of new MasterServer({ host: '::1', port: server.address().port, timeout: 1000 }).getServers()) {
+                servers.push(entry);
+            }
+            expect(servers).toEqual([{ host: '127.0.0.1', port: 27015 }]);
+        } finally {
+            server.close();
+        }
+    });
+
+    it('should report a failed lookup', async () => {
+        jest.spyOn(dns.promises, 'lookup').mockRejectedValue(new Error('getaddrinfo ENOTFOUND missing.test'));
+
+        const err = await new Promise<Error>((resolve) => {
+            const endpoint = new UdpEndpoint({ host: 'missing.test', port: 1 }, { onMessage: () => undefined, onError: resolve });
+            endpoint.send(Buffer.from('ping'));
+        });
+
+        expect(err.message).toBe('getaddrinfo ENOTFOUND missing.test');
+    });
+});
+
+describe('DNS SRV lookup', () => {
+    let server: net.Server;
+    let port: number;
+    let onConnection: (socket: net.Socket) => void;
+
+    beforeAll(async () => {
+        server = net.createServer((socket) => onConnection(socket));
+        await new Promise<void>((resolve) => server.listen(0, '::1', resolve));
+        port = (server.address() as net.AddressInfo).port;
+    });
+
+    afterAll(async () => {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should query the target of the Minecraft SRV record', async () => {
+        const resolveSrv = jest.spyOn(dns.promises, 'resolveSrv').mockResolvedValue([{ name: '::1', port, priority: 0, weight: 0 }]);
+
+        onConnection = (socket) => socket.on('data', () => {
+            const json = Buffer.from(JSON.stringify({ version: { name: '1.20.4', protocol: 765 }, players: { max: 20, online: 0 }, description: 'Via SRV' }));
+            const body = Buffer.concat([Buffer.from([0x00, json.length]), json]);
+            socket.write(Buffer.concat([Buffer.from([body.length]), body]));
+        });
+
+        const minecraft = new Minecraft({ host: 'mc.example.com', port: 25565, timeout: 1000, srv: true });
+        const onAddress = jest.fn();
+
+        expect(await minecraft.getStatus({ onAddress })).toMatchObject({ motd: 'Via SRV' });
+        expect(resolveSrv).toHaveBeenCalledWith('_minecraft._tcp.mc.example.com');
+        expect(onAddress).toHaveBeenCalledWith({ host: '::1', port, address: '::1', family: 6 });
+    });
+
+    it('should take the TeamSpeak 3 voice port from the SRV record', async () => {
+        jest.spyOn(dns.promises, 'resolveSrv').mockResolvedValue([{ name: '::1', port: 9988, priority: 0, weight: 0 }]);
+        const commands: string[] = [];
+
+        onConnection = (socket) => {
+            socket.write('TS3\n\r');
+            socket.on('data', (data) => {
+                for (const command of data.toString().split('\n').filter(Boolean)) {
+                    commands.push(command);
+                    socket.write(command === 'serverinfo' ? 'virtualserver_name=Voice\n\rerror id=0 msg=ok\n\r' : 'error id=0 msg=ok\n\r');
+                }
+            });
+        };
+
+        const teamspeak3 = new TeamSpeak3({ host: 'ts.example.com', port, timeout: 1000, srv: true });
+
+        expect(await teamspeak3.getInfo()).toEqual({ virtualserver_name: 'Voice' });
+        expect(commands).toEqual(['use port=9988', 'serverinfo']);
+    });
+});
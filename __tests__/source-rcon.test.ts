@@ -0,0 +1,126 @@
+// __tests__/source-rcon.test.ts
+import * as net from 'net';
+import SourceRcon from '../src/source-rcon';
+import { InvalidResponseError, ParseError } from '../src/errors';
+
+const PASSWORD = 'secret';
+
+function pack(id: number, type: number, body: string): Buffer {
+    const bodyBuffer = Buffer.from(body);
+    const packet = Buffer.alloc(14 + bodyBuffer.length);
+    packet.writeInt32LE(10 + bodyBuffer.length, 0);
+    packet.writeInt32LE(id, 4);
+    packet.writeInt32LE(type, 8);
+    bodyBuffer.copy(packet, 12);
+    return packet;
+}
+
+// A minimal SRCDS stand-in that splits long responses and mirrors the empty terminator packet.
+function createServer(): net.Server {
+    return net.createServer((socket) => {
+        let buffer = Buffer.alloc(0);
+
+        socket.on('data', (data) => {
+            buffer = Buffer.concat([buffer, data]);
+
+            while (buffer.length >= 4 && buffer.length >= 4 + buffer.readInt32LE(0)) {
+                const size = buffer.readInt32LE(0);
+                const id = buffer.readInt32LE(4);
+                const type = buffer.readInt32LE(8);
+                const body = buffer.toString('utf-8', 12, 4 + size - 2);
+                buffer = buffer.subarray(4 + size);
+
+                if (type === 3) {
+                    socket.write(pack(id, 0, ''));
+                    socket.write(pack(body === PASSWORD ? id : -1, 2, ''));
+                } else if (type === 2 && body === 'cvarlist') {
+                    socket.write(Buffer.concat([pack(id, 0, 'a'.repeat(4096)), pack(id, 0, 'b'.repeat(100))]));
+                } else if (type === 2 && body === 'quit') {
+                    socket.destroy();
+                } else if (type === 2) {
+                    socket.write(pack(id, 0, `echo: ${body}`));
+                } else if (type === 0) {
+                    socket.write(pack(id, 0, ''));
+                    socket.write(pack(id, 0, '\x00\x01\x00\x00'));
+                }
+            }
+        });
+    });
+}
+
+describe('SourceRcon Class', () => {
+    let server: net.Server;
+    let port: number;
+
+    beforeAll((done) => {
+        server = createServer();
+        server.listen(0, '127.0.0.1', () => {
+            port = (server.address() as net.AddressInfo).port;
+            done();
+        });
+    });
+
+    afterAll((done) => {
+        server.close(done);
+    });
+
+    it('should authenticate and execute commands', async () => {
+        const rcon = new SourceRcon({ host: '127.0.0.1', port });
+        await rcon.authenticate(PASSWORD);
+        expect(await rcon.exec('status')).toBe('echo: status');
+        expect(await rcon.exec('users')).toBe('echo: users');
+        rcon.close();
+    });
+
+    it('should reassemble multi-packet responses', async () => {
+        const rcon = new SourceRcon({ host: '127.0.0.1', port });
+        await rcon.authenticate(PASSWORD);
+        expect(await rcon.exec('cvarlist')).toBe('a'.repeat(4096) + 'b'.repeat(100));
+        rcon.close();
+    });
+
+    it('should reject a wrong password', async () => {
+        const rcon = new SourceRcon({ host: '127.0.0.1', port });
+        await expect(rcon.authenticate('wrong')).rejects.toThrow('wrong RCON password');
+        await expect(rcon.exec('status')).rejects.toThrow('Not authenticated');
+        rcon.close();
+    });
+
+    it('should reject when the connection drops', async () => {
+        const rcon = new SourceRcon({ host: '127.0.0.1', port });
+        await rcon.authenticate(PASSWORD);
+        await expect(rcon.exec('quit')).rejects.toThrow('Connection closed by the server');
+    });
+
+    it('should reject a packet that is too small', async () => {
+        const malformed = net.createServer((socket) => socket.on('data', () => socket.write(Buffer.from([0x04, 0x00, 0x00, 0x00, 0x01, 0x00, 0x00, 0x00]))));
+        await new Promise<void>((resolve) => malformed.listen(0, '127.0.0.1', resolve));
+
+        try {
+            const rcon = new SourceRcon({ host: '127.0.0.1', port: (malformed.address() as net.AddressInfo).port });
+            const error = await rcon.authenticate(PASSWORD).catch((err) => err);
+            expect(error).toBeInstanceOf(InvalidResponseError);
+            expect(error.message).toBe('Invalid packet size: 4');
+        } finally {
+            await new Promise<void>((resolve) => malformed.close(() => resolve()));
+        }
+    });
+
+    it('should reject a packet whose body is not terminated', async () => {
+        const malformed = net.createServer((socket) => socket.on('data', () => {
+            const packet = Buffer.alloc(14, 0x41);
+            packet.writeInt32LE(10, 0);
+            socket.write(packet);
+        }));
+        await new Promise<void>((resolve) => malformed.listen(0, '127.0.0.1', resolve));
+
+        try {
+            const rcon = new SourceRcon({ host: '127.0.0.1', port: (malformed.address() as net.AddressInfo).port });
+            const error = await rcon.authenticate(PASSWORD).catch((err) => err);
+            expect(error).toBeInstanceOf(ParseError);
+            expect(error.field).toBe('body');
+        } finally {
+            await new Promise<void>((resolve) => malformed.close(() => resolve()));
+        }
+    });
+});
@@ -0,0 +1,113 @@
+// __tests__/source-responder.test.ts
+import Source from '../src/source';
+import SourceResponder from '../src/source-responder';
+import { QueryTimeoutError } from '../src/errors';
+import { compress } from './helpers/bzip2';
+import type { SourceResponderParams } from '../src/interfaces/source-responder.interface';
+import type { SourceServerInfo } from '../src/interfaces/source.interface';
+
+const info: SourceServerInfo = {
+    protocol: 17,
+    name: 'OpenGSQ Test Server',
+    map: 'de_dust2',
+    folder: 'csgo',
+    game: 'Counter-Strike: Global Offensive',
+    id: 730,
+    players: 2,
+    maxPlayers: 24,
+    bots: 0,
+    serverType: 'd',
+    environment: 'l',
+    visibility: 0,
+    vac: 1,
+    version: '1.38.7.9',
+    extraData: { port: 27015, steamID: BigInt('90071996842377216'), keywords: 'secure', gameID: BigInt(730) },
+};
+
+// Enough rules to need several packets
+const rules: Record<string, string> = {};
+for (let i = 0; i < 300; i++) rules[`sv_rule_${i}`] = `value ${i}`;
+
+async function query<T>(params: Partial<SourceResponderParams>, run: (source: Source) => Promise<T>): Promise<T> {
+    const responder = new SourceResponder({ host: '127.0.0.1', port: 0, info, rules, ...params });
+    await responder.listen();
+
+    try {
+        return await run(new Source({ host: '127.0.0.1', port: responder.address().port, timeout: 2000 }));
+    } finally {
+        await responder.close();
+    }
+}
+
+describe('SourceResponder Class', () => {
+    it('should answer A2S_INFO with challenge', async () => {
+        expect(await query({}, (source) => source.getInfo())).toEqual(info);
+    });
+
+    it('should answer A2S_INFO with the Obsolete GoldSource response', async () => {
+        const mod = { link: 'http://example.com', downloadLink: 'http://example.com/dl', version: 1, size: 1024, type: 0, dll: 1 };
+        const result = await query({ obsoleteInfo: true, info: { ...info, address: '127.0.0.1:27015', mod } }, (source) => source.getInfo());
+        expect(result.address).toBe('127.0.0.1:27015');
+        expect(result.mod).toEqual(mod);
+        expect(result.vac).toBe(1);
+    });
+
+    it('should answer A2S_PLAYER with The Ship additional player info', async () => {
+        const players = [
+            { index: 0, name: 'Alice', score: 10, duration: 60.5, deaths: 1, money: 100 },
+            { index: 1, name: 'Bob', score: 3, duration: 12.25, deaths: 4, money: 50 },
+        ];
+        expect(await query({ players }, (source) => source.getPlayers())).toEqual(players);
+    });
+
+    it('should split A2S_RULES into Source packets', async () => {
+        expect(await query({}, (source) => source.getRules())).toEqual(rules);
+    });
+
+    it('should split A2S_RULES into pre-Orange Box packets', async () => {
+        expect(await query({ orangeBox: false }, (source) => source.getRules())).toEqual(rules);
+    });
+
+    it('should split A2S_RULES into bzip2 compressed packets', async () => {
+        expect(await query({ compress, maxPacketSize: 400 }, (source) => source.getRules())).toEqual(rules);
+    });
+
+    it('should split A2S_RULES into bzip2 compressed pre-Orange Box packets', async () => {
+        expect(await query({ compress, orangeBox: false, maxPacketSize: 400 }, (source) => source.getRules())).toEqual(rules);
+    });
+
+    it('should grow the packets of a response that would need more than 255 of them', async () => {
+        expect(await query({ maxPacketSize: 21 }, (source) => source.getRules())).toEqual(rules);
+    });
+
+    it('should reject a maximum packet size that leaves no room for data', () => {
+        expect(() => new SourceResponder({ port: 0, info, maxPacketSize: 20 })).toThrow('maxPacketSize must be greater than 20, got 20');
+    });
+
+    it('should reject more players than a response can count', async () => {
+        const players = Array.from({ length: 256 }, (_, index) => ({ index, name: `Player ${index}`, score: 0, duration: 0 }));
+
+        expect(() => new SourceResponder({ port: 0, info, players })).toThrow('The number of players must be at most 255, got 256');
+        expect(() => new SourceResponder({ port: 0, info: { ...info, players: 256 } })).toThrow('info.players must be at most 255, got 256');
+
+        // Counts changed after construction leave the query unanswered instead of wrapping around
+        const responder = new SourceResponder({ host: '127.0.0.1', port: 0, info });
+        await responder.listen();
+        responder.players = players;
+
+        try {
+            const source = new Source({ host: '127.0.0.1', port: responder.address().port, timeout: 300 });
+            await expect(source.getPlayers()).rejects.toBeInstanceOf(QueryTimeoutError);
+        } finally {
+            await responder.close();
+        }
+    });
+
+    it('should split A2S_RULES into GoldSource packets', async () => {
+        expect(await query({ goldSource: true }, (source) => source.getRules())).toEqual(rules);
+    });
+
+    it('should answer without challenge when disabled', async () => {
+        expect(await query({ challenge: false }, (source) => source.getRules())).toEqual(rules);
+    });
+});
@@ -0,0 +1,157 @@
+// __tests__/source-scanner.test.ts
+import * as dgram from 'dgram';
+import SourceScanner from '../src/source-scanner';
+import SourceResponder from '../src/source-responder';
+import { QueryAbortError, QueryTimeoutError } from '../src/errors';
+import type { SourceScanResult } from '../src/interfaces/source-scanner.interface';
+import type { SourceServerInfo } from '../src/interfaces/source.interface';
+
+const info = (name: string): SourceServerInfo => ({
+    protocol: 17, name, map: 'de_dust2', folder: 'csgo', game: 'Counter-Strike', id: 730,
+    players: 1, maxPlayers: 10, bots: 0, serverType: 'd', environment: 'l', visibility: 0, vac: 1, version: '1.0',
+});
+
+async function collect(iterator: AsyncIterable<SourceScanResult>): Promise<SourceScanResult[]> {
+    const results: SourceScanResult[] = [];
+    for await (const result of iterator) results.push(result);
+    return results.sort((a, b) => a.port - b.port);
+}
+
+describe('SourceScanner Class', () => {
+    const responders: SourceResponder[] = [];
+    let silent: dgram.Socket;
+    let ports: number[];
+    let silentPort: number;
+
+    beforeAll(async () => {
+        for (let i = 0; i < 3; i++) {
+            const responder = new SourceResponder({ host: '127.0.0.1', port: 0, info: info(`server ${i}`), players: [{ index: 0, name: `player ${i}`, score: i, duration: 1 }] });
+            await responder.listen();
+            responders.push(responder);
+        }
+
+        ports = responders.map((responder) => responder.address().port);
+
+        // A server that never answers
+        silent = dgram.createSocket('udp4');
+        await new Promise<void>((resolve) => silent.bind(0, '127.0.0.1', resolve));
+        silentPort = silent.address().port;
+    });
+
+    afterAll(async () => {
+        await Promise.all(responders.map((responder) => responder.close()));
+        await new Promise<void>((resolve) => silent.close(resolve));
+    });
+
+    it('should query every server through one socket', async () => {
+        const send = jest.spyOn(dgram.Socket.prototype, 'send');
+
+        try {
+            const scanner = new SourceScanner({ timeout: 300 });
+            const results = await collect(scanner.scan(ports.map((port) => ({ host: '127.0.0.1', port }))));
+
+            expect(results).toEqual(ports.map((port, i) => ({
+                host: '127.0.0.1',
+                port,
+                info: info(`server ${i}`),
+                address: { host: '127.0.0.1', port, address: '127.0.0.1', family: 4 },
+                errors: {},
+            })).sort((a, b) => a.port - b.port));
+
+            // socket.send(msg, offset, length, port, address) calls itself again without offset and length
+            const sockets = new Set(send.mock.instances.filter((_, i) => ports.includes((send.mock.calls[i] as unknown[])[3] as number)));
+            expect(sockets.size).toBe(1);
+        } finally {
+            send.mockRestore();
+        }
+    });
+
+    it('should stream results and time out per server', async () => {
+        const scanner = new SourceScanner({ timeout: 300, sockets: 2 });
+        const targets = [{ host: '127.0.0.1', port: silentPort }, ...ports.map((port) => ({ host: 'localhost', port }))];
+        const results: SourceScanResult[] = [];
+
+        for await (const result of scanner.scan(targets, { requests: ['info', 'players'] })) {
+            results.push(result);
+        }
+
+        // The silent server is listed first but answers last
+        expect(results[results.length - 1].port).toBe(silentPort);
+        expect(results[results.length - 1].errors.info).toBeInstanceOf(QueryTimeoutError);
+        expect(results[results.length - 1].errors.players).toBeInstanceOf(QueryTimeoutError);
+        expect(results.slice(0, -1).map((result) => result.players![0].name).sort()).toEqual(['player 0', 'player 1', 'player 2']);
+    });
+
+    it('should limit concurrency and packets per second', async () => {
+        const scanner = new SourceScanner({ timeout: 2000, concurrency: 1, packetsPerSecond: 20 });
+        const start = Date.now();
+        const results = await collect(scanner.scan(ports.map((port) => ({ host: '127.0.0.1', port }))));
+
+        // Two packets per server (without and with the challenge) at one packet every 50 ms
+        expect(Date.now() - start).toBeGreaterThanOrEqual(5 * 50 - 10);
+        expect(results.every((result) => result.info !== undefined)).toBe(true);
+    });
+
+    it('should accept an async iterable and stop early', async () => {
+        let returned = false;
+
+        async function* targets() {
+            try {
+                for (const port of ports) yield { host: '127.0.0.1', port };
+                // Like MasterServer.getServers(), wait for more servers that never come
+                await new Promise(() => undefined);
+            } finally {
+                returned = true;
+            }
+        }
+
+        const scanner = new SourceScanner({ timeout: 300, concurrency: 1 });
+
+        for await (const result of scanner.scan(targets())) {
+            expect(result.info).toBeDefined();
+            break;
+        }
+
+        expect(returned).toBe(true);
+    });
+
+    it('should stop querying while the consumer is busy', async () => {
+        const send = jest.spyOn(dgram.Socket.prototype, 'send');
+
+        try {
+            const scanner = new SourceScanner({ timeout: 300, concurrency: 1 });
+            const iterator = scanner.scan(ports.map((port) => ({ host: '127.0.0.1', port })));
+
+            await iterator.next();
+            await new Promise((resolve) => setTimeout(resolve, 200));
+
+            // One result was taken and one is buffered, so the third server has not been queried
+            const queried = new Set(send.mock.calls.map((args) => (args as unknown[])[3]).filter((port) => ports.includes(port as number)));
+            expect(queried.size).toBe(2);
+
+            await iterator.return!(undefined);
+        } finally {
+            send.mockRestore();
+        }
+    });
+
+    it('should route the responses of bracketed and IPv4-mapped IPv6 addresses', async () => {
+        const scanner = new SourceScanner({ timeout: 1000 });
+        const results = await collect(scanner.scan([{ host: '[::FFFF:7F00:1]', port: ports[0] }]));
+
+        expect(results).toHaveLength(1);
+        expect(results[0].info).toEqual(info('server 0'));
+    });
+
+    it('should stop when aborted', async () => {
+        const controller = new AbortController();
+        const scanner = new SourceScanner({ timeout: 2000 });
+        const scan = collect(scanner.scan([{ host: '127.0.0.1', port: silentPort }], { signal: controller.signal }));
+
+        setTimeout(() => controller.abort(), 50);
+        const results = await scan;
+
+        expect(results).toHaveLength(1);
+        expect(results[0].errors.info).toBeInstanceOf(QueryAbortError);
+    });
+});
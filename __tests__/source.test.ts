@@ -1,5 +1,21 @@
 // __tests__/source.test.ts
+import * as dgram from 'dgram';
+import * as path from 'path';
 import Source from '../src/source';
+import SourceResponder from '../src/source-responder';
+import PacketReplay from '../src/packet-replay';
+import { compress } from './helpers/bzip2';
+import {
+    ChallengeError,
+    ChecksumMismatchError,
+    DecompressionError,
+    InvalidResponseError,
+    ParseError,
+    QueryAbortError,
+    QueryTimeoutError,
+} from '../src/errors';
+import { listenUdp } from './helpers/udp-server';
+import type { UdpServer } from './helpers/udp-server';
 
 describe('Source Class', () => {
     it('should successfully retrieve server info', async () => {
@@ -91,4 +107,415 @@ describe('Source Class', () => {
         });
         return expect(source.getRules()).rejects.toThrow('Request timed out');
     }, 10000);
-});
\ No newline at end of file
+});
+
+describe('Source Class (errors)', () => {
+    let server: UdpServer;
+    let port: number;
+    let respond: (message: Buffer) => Buffer[];
+
+    beforeAll(async () => {
+        server = await listenUdp((message) => respond(message));
+        port = server.port;
+    });
+
+    afterAll(async () => {
+        await server.close();
+    });
+
+    const query = () => new Source({ host: '127.0.0.1', port, timeout: 500 }).getRules();
+
+    it('should reject with QueryTimeoutError', async () => {
+        respond = () => [];
+        const error = await query().catch((err) => err);
+        expect(error).toBeInstanceOf(QueryTimeoutError);
+        expect(error).toMatchObject({ host: '127.0.0.1', port, requestType: 'A2S_RULES' });
+    });
+
+    it('should reject with InvalidResponseError', async () => {
+        respond = () => [Buffer.from([0x01, 0x02, 0x03, 0x04, 0x05])];
+        const error = await query().catch((err) => err);
+        expect(error).toBeInstanceOf(InvalidResponseError);
+        expect(error.data).toEqual(Buffer.from([0x01, 0x02, 0x03, 0x04, 0x05]));
+    });
+
+    it('should reject with ChallengeError', async () => {
+        respond = () => [Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0x41, 0x01, 0x02, 0x03, 0x04])];
+        await expect(query()).rejects.toBeInstanceOf(ChallengeError);
+    });
+
+    it('should reject with ParseError on a truncated response', async () => {
+        respond = () => [Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0x44, 0x01, 0x00, 0x61, 0x00, 0x05])];
+        await expect(new Source({ host: '127.0.0.1', port, timeout: 500 }).getPlayers()).rejects.toBeInstanceOf(ParseError);
+    });
+
+    it('should report where a truncated response ends', async () => {
+        respond = () => [Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0x44, 0x02, 0x00, 0x61, 0x00, 0x05])];
+        const error = await new Source({ host: '127.0.0.1', port, timeout: 500 }).getPlayers().catch((err) => err);
+        expect(error).toBeInstanceOf(ParseError);
+        expect(error).toMatchObject({ requestType: 'A2S_PLAYER', offset: 9, field: 'players[0].score' });
+        expect(error.message).toBe('Cannot read players[0].score at offset 9: 4 bytes needed, 1 left');
+        expect(error.hexDump).toBe('00000000  ff ff ff ff 44 02 00 61  00 05                    |....D..a..|');
+    });
+
+    it('should reject with ChecksumMismatchError', async () => {
+        const payload = Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0x45, 0x00, 0x00]);
+        const header = Buffer.alloc(20);
+        header.writeInt32LE(-2, 0);
+        header.writeUInt32LE(0x80000001, 4);
+        header.writeUInt8(1, 8);
+        header.writeUInt8(0, 9);
+        header.writeUInt16LE(1400, 10);
+        header.writeUInt32LE(payload.length, 12);
+        header.writeInt32LE(12345, 16);
+        respond = () => [Buffer.concat([header, compress(payload)])];
+        await expect(query()).rejects.toBeInstanceOf(ChecksumMismatchError);
+    });
+
+    it('should reject with DecompressionError', async () => {
+        const header = Buffer.alloc(18);
+        header.writeInt32LE(-2, 0);
+        header.writeUInt32LE(0x80000001, 4);
+        header.writeUInt8(1, 8);
+        header.writeUInt8(0, 9);
+        header.writeUInt32LE(7, 10);
+        header.writeInt32LE(0, 14);
+        respond = () => [Buffer.concat([header, Buffer.from('not bzip2 data')])];
+        await expect(query()).rejects.toBeInstanceOf(DecompressionError);
+    });
+
+    it('should reject with QueryAbortError when already aborted', async () => {
+        respond = () => [];
+        const controller = new AbortController();
+        controller.abort();
+        await expect(new Source({ host: '127.0.0.1', port }).getInfo({ signal: controller.signal })).rejects.toBeInstanceOf(QueryAbortError);
+    });
+
+    it('should abort during the challenge handshake', async () => {
+        // Issue a challenge, then never answer the request that echoes it
+        respond = (message) => message.readInt32LE(5) === -1 ? [Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0x41, 0x01, 0x02, 0x03, 0x04])] : [];
+        const controller = new AbortController();
+        const promise = new Source({ host: '127.0.0.1', port, timeout: 5000 }).getRules({ signal: controller.signal });
+        setTimeout(() => controller.abort(), 50);
+        await expect(promise).rejects.toBeInstanceOf(QueryAbortError);
+    });
+
+    it('should abort during multi-packet reassembly', async () => {
+        const header = Buffer.alloc(12);
+        header.writeInt32LE(-2, 0);
+        header.writeInt32LE(1, 4);
+        header.writeUInt8(2, 8);
+        header.writeUInt8(0, 9);
+        header.writeUInt16LE(1400, 10);
+        respond = () => [Buffer.concat([header, Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0x45, 0x01, 0x00])])];
+
+        const controller = new AbortController();
+        const promise = new Source({ host: '127.0.0.1', port, timeout: 5000 }).getRules({ signal: controller.signal });
+        setTimeout(() => controller.abort(), 50);
+        const error = await promise.catch((err) => err);
+        expect(error).toBeInstanceOf(QueryAbortError);
+        expect(error.data.length).toBeGreaterThan(0);
+    });
+});
+
+describe('Source Class (getAll)', () => {
+    const info = {
+        protocol: 17, name: 'getAll', map: 'de_dust2', folder: 'csgo', game: 'Counter-Strike', id: 730,
+        players: 1, maxPlayers: 10, bots: 0, serverType: 'd', environment: 'l', visibility: 0, vac: 1, version: '1.0',
+    };
+    const players = [{ index: 0, name: 'Alice', score: 1, duration: 2 }];
+    const rules = { sv_cheats: '0' };
+    let responder: SourceResponder;
+    let port: number;
+    let send: jest.SpyInstance;
+
+    // socket.send(msg, offset, length, port, address) calls itself again without offset and length
+    const sentToServer = () => send.mock.calls.filter((args) => args[3] === port).length;
+
+    beforeAll(async () => {
+        responder = new SourceResponder({ host: '127.0.0.1', port: 0, info, players, rules });
+        await responder.listen();
+        port = responder.address().port;
+    });
+
+    afterAll(async () => {
+        await responder.close();
+    });
+
+    beforeEach(() => {
+        send = jest.spyOn(dgram.Socket.prototype, 'send');
+    });
+
+    afterEach(() => {
+        send.mockRestore();
+    });
+
+    it('should retrieve everything with one challenge round trip', async () => {
+        const result = await new Source({ host: '127.0.0.1', port }).getAll();
+        expect(result).toEqual({ info, players, rules, address: { host: '127.0.0.1', port, address: '127.0.0.1', family: 4 }, errors: {} });
+        expect(sentToServer()).toBe(4);
+    });
+
+    it('should reuse the cached challenge with keepAlive', async () => {
+        const source = new Source({ host: '127.0.0.1', port, keepAlive: true });
+        await source.getAll();
+        send.mockClear();
+
+        expect(await source.getAll()).toMatchObject({ info, players, rules, errors: {} });
+        expect(await source.getPlayers()).toEqual(players);
+        expect(sentToServer()).toBe(4);
+        source.close();
+    });
+
+    it('should report the address of each query', async () => {
+        const onAddress = jest.fn();
+        expect(await new Source({ host: 'localhost', port }).getInfo({ onAddress })).toEqual(info);
+        expect(onAddress).toHaveBeenCalledWith(expect.objectContaining({ host: 'localhost', port, address: expect.any(String) }));
+    });
+
+    it('should not fail the other requests because of one datagram it cannot attribute', async () => {
+        const server = await listenUdp((message) => {
+            if (message[4] === 0x54) {
+                return Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0x6D, 0x00, 0x61, 0x00, 0x00, 0x00, 0x00, 0x01, 0x02, 0x30, 0x64, 0x6C, 0x00, 0x00, 0x01, 0x00]);
+            }
+
+            // A broken datagram arrives while A2S_PLAYER and A2S_RULES are both pending
+            return message[4] === 0x55
+                ? [Buffer.from([0x12, 0x34, 0x56, 0x78, 0x44]), Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0x44, 0x00])]
+                : Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0x45, 0x00, 0x00]);
+        });
+
+        try {
+            const result = await new Source({ host: '127.0.0.1', port: server.port, timeout: 500 }).getAll();
+            expect(result).toMatchObject({ info: { name: 'a' }, players: [], rules: {}, errors: {} });
+        } finally {
+            await server.close();
+        }
+    });
+
+    it('should report partial results', async () => {
+        // Answer A2S_INFO only, as if players and rules were disabled
+        const server = await listenUdp((message) => message[4] === 0x54
+            ? Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0x6D, 0x00, 0x61, 0x00, 0x00, 0x00, 0x00, 0x01, 0x02, 0x30, 0x64, 0x6C, 0x00, 0x00, 0x01, 0x00])
+            : undefined);
+
+        const result = await new Source({ host: '127.0.0.1', port: server.port, timeout: 300 }).getAll();
+        expect(result.info).toMatchObject({ name: 'a', players: 1, maxPlayers: 2 });
+        expect(result.players).toBeUndefined();
+        expect(result.errors.players).toBeInstanceOf(QueryTimeoutError);
+        expect(result.errors.rules).toBeInstanceOf(QueryTimeoutError);
+
+        await server.close();
+    });
+});
+
+describe('Source Class (timing)', () => {
+    const info = {
+        protocol: 17, name: 'timing', map: 'de_dust2', folder: 'csgo', game: 'Counter-Strike', id: 730,
+        players: 0, maxPlayers: 10, bots: 0, serverType: 'd', environment: 'l', visibility: 0, vac: 1, version: '1.0',
+    };
+    let responder: SourceResponder;
+    let port: number;
+
+    beforeAll(async () => {
+        responder = new SourceResponder({ host: '127.0.0.1', port: 0, info, players: [], rules: { sv_cheats: '0' } });
+        await responder.listen();
+        port = responder.address().port;
+    });
+
+    afterAll(async () => {
+        await responder.close();
+    });
+
+    it('should not report timing unless enabled', async () => {
+        const source = new Source({ host: '127.0.0.1', port });
+        expect(await source.getInfo()).toEqual(info);
+        expect((await source.getAll()).timing).toBeUndefined();
+    });
+
+    it('should measure the challenge and data round trips separately', async () => {
+        const source = new Source({ host: '127.0.0.1', port });
+        const { value, timing, address } = await source.getInfo({ timing: true });
+        expect(value).toEqual(info);
+        expect(address).toEqual({ host: '127.0.0.1', port, address: '127.0.0.1', family: 4 });
+        expect(timing.challengeRtt).toBeGreaterThanOrEqual(0);
+        expect(timing.dataRtt).toBeGreaterThanOrEqual(0);
+        expect(timing.total).toBeGreaterThanOrEqual(timing.challengeRtt! + timing.dataRtt - 1);
+        expect(timing).toMatchObject({ packets: 2, retries: 0 });
+        expect(timing.bytes).toBeGreaterThan(9);
+    });
+
+    it('should report the timing of each request of getAll', async () => {
+        const source = new Source({ host: '127.0.0.1', port, keepAlive: true });
+        await source.getAll();
+
+        // The challenge is cached by now, so no handshake is measured
+        const result = await source.getAll({ timing: true });
+        expect(result).toMatchObject({ info, players: [], rules: { sv_cheats: '0' }, errors: {} });
+        for (const timing of [result.timing!.info!, result.timing!.players!, result.timing!.rules!]) {
+            expect(timing).toMatchObject({ challengeRtt: undefined, packets: 1, retries: 0 });
+        }
+        source.close();
+    });
+
+    it('should keep the timing of concurrent queries apart', async () => {
+        const source = new Source({ host: '127.0.0.1', port, keepAlive: true });
+        const [players, rules] = await Promise.all([source.getPlayers({ timing: true }), source.getRules({ timing: true })]);
+
+        expect(players.value).toEqual([]);
+        expect(rules.value).toEqual({ sv_cheats: '0' });
+        expect(players.timing).not.toBe(rules.timing);
+        expect(players.timing.packets).toBeGreaterThanOrEqual(1);
+        expect(rules.timing.packets).toBeGreaterThanOrEqual(1);
+        source.close();
+    });
+
+    it('should report the round-trip statistics of getPing', async () => {
+        const result = await new Source({ host: '127.0.0.1', port }).getPing({ count: 3 });
+        expect(result).toMatchObject({ sent: 3, received: 3, loss: 0 });
+        expect(result.rtts).toHaveLength(3);
+        expect(result.min).toBe(Math.min(...result.rtts));
+        expect(result.max).toBe(Math.max(...result.rtts));
+        expect(result.avg).toBeCloseTo(result.rtts.reduce((sum, rtt) => sum + rtt, 0) / 3);
+        expect(result.jitter).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should not take the late answer of a lost probe for the answer of the next one', async () => {
+        const response = Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0x6D, 0x00, 0x61, 0x00, 0x00, 0x00, 0x00, 0x01, 0x02, 0x30, 0x64, 0x6C, 0x00, 0x00, 0x01, 0x00]);
+        let probes = 0;
+
+        // The first probe is answered after its timeout, the second one within it
+        const server = await listenUdp(() => {
+            const delay = probes++ === 0 ? 250 : 150;
+            return new Promise<Buffer>((resolve) => setTimeout(() => resolve(response), delay));
+        });
+
+        try {
+            const result = await new Source({ host: '127.0.0.1', port: server.port, timeout: 200 }).getPing({ count: 2 });
+            expect(result).toMatchObject({ sent: 2, received: 1, loss: 0.5 });
+            expect(result.rtts[0]).toBeGreaterThanOrEqual(120);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it('should count the probes that time out as lost', async () => {
+        const server = await listenUdp(() => undefined);
+
+        try {
+            const result = await new Source({ host: '127.0.0.1', port: server.port, timeout: 100 }).getPing({ count: 2 });
+            expect(result).toEqual({ sent: 2, received: 0, loss: 1, rtts: [] });
+        } finally {
+            await server.close();
+        }
+    });
+});
+
+describe('Source Class (encoding)', () => {
+    const cp1251 = Buffer.from([0xCF, 0xF0, 0xE8, 0xE2, 0xE5, 0xF2]); // Привет
+    const gbk = Buffer.from([0xD6, 0xD0, 0xCE, 0xC4]); // 中文
+    const utf8 = Buffer.from('Jürgen', 'utf-8');
+    let server: UdpServer;
+    let port: number;
+
+    // A2S_PLAYER with a player for each name
+    const response = (...names: Buffer[]) => {
+        const parts = [Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0x44, names.length])];
+        names.forEach((name, i) => parts.push(Buffer.from([i]), name, Buffer.alloc(9)));
+        return Buffer.concat(parts);
+    };
+
+    beforeAll(async () => {
+        server = await listenUdp(() => response(cp1251, utf8, gbk));
+        port = server.port;
+    });
+
+    afterAll(async () => {
+        await server.close();
+    });
+
+    const names = async (params: object) => (await new Source({ host: '127.0.0.1', port, timeout: 500, ...params }).getPlayers()).map((player) => player.name);
+
+    it('should decode the strings as UTF-8 by default', async () => {
+        const [first, second] = await names({});
+        expect(first).toContain('�');
+        expect(second).toBe('Jürgen');
+    });
+
+    it('should decode the strings with the given encoding', async () => {
+        expect((await names({ encoding: 'windows-1251' }))[0]).toBe('Привет');
+        expect((await names({ encoding: 'gbk' }))[2]).toBe('中文');
+    });
+
+    it('should fall back from invalid UTF-8 with auto', async () => {
+        expect((await names({ encoding: 'auto', fallbackEncoding: 'windows-1251' })).slice(0, 2)).toEqual(['Привет', 'Jürgen']);
+        expect((await names({ encoding: 'auto', fallbackEncoding: 'gbk' })).slice(1)).toEqual(['Jürgen', '中文']);
+    });
+
+    it('should pass the raw bytes of each string to a custom decoder', async () => {
+        const decoded: [Buffer, string][] = [];
+        const decoder = (bytes: Buffer, field: string) => {
+            decoded.push([Buffer.from(bytes), field]);
+            return bytes.toString('hex');
+        };
+
+        expect(await names({ encoding: decoder })).toEqual([cp1251.toString('hex'), utf8.toString('hex'), gbk.toString('hex')]);
+        expect(decoded).toEqual([[cp1251, 'players[0].name'], [utf8, 'players[1].name'], [gbk, 'players[2].name']]);
+    });
+
+    it('should reject an unsupported encoding', () => {
+        expect(() => new Source({ host: '127.0.0.1', port, encoding: 'klingon' })).toThrow('The "klingon" encoding is not supported');
+        expect(() => new Source({ host: '127.0.0.1', port, encoding: 'auto', fallbackEncoding: 'klingon' })).toThrow('The "klingon" encoding is not supported');
+    });
+});
+
+describe('Source Class (replay)', () => {
+    // Captured with PacketRecorder from SourceResponder configured for each response format
+    const replay = (name: string) => PacketReplay.load(path.join(__dirname, 'fixtures', 'source', `${name}.json`));
+
+    const players = [
+        { index: 0, name: 'Alice', score: 12, duration: 1834.5 },
+        { index: 0, name: 'Bob', score: 3, duration: 60.25 },
+    ];
+    const rules: Record<string, string> = {};
+
+    for (let i = 0; i < 40; i++) {
+        rules[`sv_rule_${i}`] = `value number ${i}`;
+    }
+
+    const info = {
+        protocol: 17, name: 'Replay Test Server', map: 'de_dust2', folder: 'csgo', game: 'Counter-Strike: Global Offensive', id: 730,
+        players: 2, maxPlayers: 24, bots: 0, serverType: 'd', environment: 'l', visibility: 0, vac: 1, version: '1.38.7.9',
+        extraData: { port: 27015, steamID: BigInt('90071992547409920'), keywords: 'replay,test', gameID: BigInt(730) },
+    };
+
+    it.each(['split-packet', 'bzip2', 'pre-orange-box'])('should reassemble the %s response', async (name) => {
+        const source = new Source({ host: '127.0.0.1', port: 27015, transport: (await replay(name)).transport });
+
+        expect(await source.getAll()).toEqual({ info, players, rules, errors: {} });
+    });
+
+    it('should reassemble the GoldSource response with the obsolete info', async () => {
+        const source = new Source({ host: '127.0.0.1', port: 27015, transport: (await replay('goldsource')).transport });
+
+        expect(await source.getAll()).toEqual({
+            info: {
+                address: '127.0.0.1:27015', protocol: 47, name: 'GoldSource Replay', map: 'crossfire', folder: 'valve', game: 'Half-Life',
+                players: 2, maxPlayers: 16, bots: 1, serverType: 'd', environment: 'l', visibility: 0, vac: 1,
+                mod: { link: 'http://example.com', downloadLink: 'http://example.com/dl', version: 1, size: 184000000, type: 0, dll: 1 },
+            },
+            players,
+            rules,
+            errors: {},
+        });
+    });
+
+    it('should parse The Ship additional player info', async () => {
+        const source = new Source({ host: '127.0.0.1', port: 27015, transport: (await replay('the-ship')).transport });
+
+        expect((await source.getAll()).players).toEqual([
+            { ...players[0], deaths: 1, money: 500 },
+            { ...players[1], deaths: 2, money: 1000 },
+        ]);
+    });
+});
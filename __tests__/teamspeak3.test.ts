@@ -0,0 +1,113 @@
+// __tests__/teamspeak3.test.ts
+import * as net from 'net';
+import TeamSpeak3 from '../src/teamspeak3';
+import { InvalidResponseError, TeamSpeak3Error } from '../src/errors';
+
+const OK = 'error id=0 msg=ok';
+
+describe('TeamSpeak3 Class', () => {
+    let server: net.Server;
+    let port: number;
+    let commands: string[];
+    let answer: (command: string) => string[];
+    let greeting: string;
+
+    beforeAll(async () => {
+        server = net.createServer((socket) => {
+            socket.write(greeting);
+
+            let buffer = '';
+            socket.on('data', (data) => {
+                buffer += data.toString();
+
+                let index: number;
+                while ((index = buffer.indexOf('\n')) !== -1) {
+                    const command = buffer.substring(0, index);
+                    buffer = buffer.substring(index + 1);
+                    commands.push(command);
+
+                    // Lines end with "\n\r" like the real server
+                    socket.write(answer(command).map((line) => `${line}\n\r`).join(''));
+                }
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        port = (server.address() as net.AddressInfo).port;
+    });
+
+    afterAll(async () => {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    beforeEach(() => {
+        commands = [];
+        greeting = 'TS3\n\rWelcome to the TeamSpeak 3 ServerQuery interface, type "help" for a list of commands.\n\r';
+    });
+
+    it('should log in, select the virtual server and retrieve the server information', async () => {
+        answer = (command) => command === 'serverinfo'
+            ? ['virtualserver_id=1 virtualserver_name=My\\sTeamSpeak\\s\\p\\sServer virtualserver_welcomemessage=Hello\\/bye virtualserver_port=9987 virtualserver_clientsonline=2 virtualserver_maxclients=32 virtualserver_platform=Linux', OK]
+            : [OK];
+
+        const teamspeak3 = new TeamSpeak3({ host: '127.0.0.1', port, voicePort: 9987, username: 'server admin', password: 'p|ss', timeout: 1000 });
+        const info = await teamspeak3.getInfo();
+
+        expect(commands).toEqual(['login client_login_name=server\\sadmin client_login_password=p\\pss', 'use port=9987', 'serverinfo']);
+        expect(info).toEqual({
+            virtualserver_id: 1,
+            virtualserver_name: 'My TeamSpeak | Server',
+            virtualserver_welcomemessage: 'Hello/bye',
+            virtualserver_port: 9987,
+            virtualserver_clientsonline: 2,
+            virtualserver_maxclients: 32,
+            virtualserver_platform: 'Linux',
+        });
+    });
+
+    it('should retrieve the clients and the channels without logging in', async () => {
+        answer = (command) => {
+            if (command === 'clientlist') {
+                return ['clid=1 cid=1 client_database_id=2 client_nickname=Alice client_type=0|clid=5 cid=2 client_database_id=1 client_nickname=serveradmin\\sfrom\\s127.0.0.1:56782 client_type=1', OK];
+            }
+
+            if (command === 'channellist') {
+                return ['cid=1 pid=0 channel_order=0 channel_name=Default\\sChannel total_clients=1 channel_needed_subscribe_power=0|cid=2 pid=1 channel_order=1 channel_name=AFK total_clients=0 channel_needed_subscribe_power=0', OK];
+            }
+
+            return [OK];
+        };
+
+        const teamspeak3 = new TeamSpeak3({ host: '127.0.0.1', port, timeout: 1000 });
+
+        expect(await teamspeak3.getClients()).toEqual([
+            { clid: 1, cid: 1, client_database_id: 2, client_nickname: 'Alice', client_type: 0 },
+            { clid: 5, cid: 2, client_database_id: 1, client_nickname: 'serveradmin from 127.0.0.1:56782', client_type: 1 },
+        ]);
+        expect(await teamspeak3.getChannels()).toEqual([
+            { cid: 1, pid: 0, channel_order: 0, channel_name: 'Default Channel', total_clients: 1, channel_needed_subscribe_power: 0 },
+            { cid: 2, pid: 1, channel_order: 1, channel_name: 'AFK', total_clients: 0, channel_needed_subscribe_power: 0 },
+        ]);
+        expect(commands).toEqual(['use port=9987', 'clientlist', 'use port=9987', 'channellist']);
+    });
+
+    it('should reject with the error of a failed command', async () => {
+        answer = (command) => command.startsWith('login')
+            ? ['error id=520 msg=invalid\\sloginname\\sor\\spassword']
+            : [OK];
+
+        const teamspeak3 = new TeamSpeak3({ host: '127.0.0.1', port, voicePort: 9987, username: 'serveradmin', password: 'wrong', timeout: 1000 });
+        const error = await teamspeak3.getInfo().catch((err) => err);
+
+        expect(error).toBeInstanceOf(TeamSpeak3Error);
+        expect(error.id).toBe(520);
+        expect(error.message).toBe('invalid loginname or password');
+        expect(commands).toHaveLength(1);
+    });
+
+    it('should reject a server that is not a ServerQuery interface', async () => {
+        greeting = 'SSH-2.0-OpenSSH_9.6\r\n';
+        answer = () => [OK];
+
+        await expect(new TeamSpeak3({ host: '127.0.0.1', port, timeout: 1000 }).getInfo()).rejects.toBeInstanceOf(InvalidResponseError);
+    });
+});
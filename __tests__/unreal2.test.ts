@@ -0,0 +1,166 @@
+// __tests__/unreal2.test.ts
+import Unreal2 from '../src/unreal2';
+import { InvalidResponseError } from '../src/errors';
+import { listenUdp } from './helpers/udp-server';
+import type { UdpServer } from './helpers/udp-server';
+
+const int32 = (value: number) => {
+    const buffer = Buffer.alloc(4);
+    buffer.writeInt32LE(value);
+    return buffer;
+};
+
+// A Latin-1 string, prefixed with its length including the null terminator
+const latin1 = (value: string) => Buffer.concat([Buffer.from([value.length + 1]), Buffer.from(value, 'latin1'), Buffer.from([0x00])]);
+
+// A UCS-2 string, flagged by the high bit of its length in characters
+const ucs2 = (value: string) => Buffer.concat([Buffer.from([0x80 | (value.length + 1)]), Buffer.from(`${value}\0`, 'utf16le')]);
+
+const response = (type: number, ...fields: Buffer[]) => Buffer.concat([Buffer.from([0x80, 0x00, 0x00, 0x00, type]), ...fields]);
+
+const details = [int32(0), latin1(''), int32(7777), int32(0)];
+
+// A Killing Floor details response, with the 0x01 byte after the length of the UCS-2 server name
+const killingFloorDetails = Buffer.from(
+    '80000000000000000001001b1e0000000000008b01230431043504360438044904350420004b00460000000e4b462d42696f746963734c6162' +
+    '000b4b4647616d655479706500030000000600000002000000070000000000000000000000023200',
+    'hex',
+);
+
+// A Killing Floor players response, with the 0x01 byte after the length of the UCS-2 player name
+const killingFloorPlayers = Buffer.from(
+    '80000000020500000085010104360438043a0400003d00000078000000000000000900000006416c69636500260000002d00000000000000',
+    'hex',
+);
+
+describe('Unreal2 Class', () => {
+    let server: UdpServer;
+    let port: number;
+    let reply: (message: Buffer) => Buffer;
+
+    beforeAll(async () => {
+        server = await listenUdp((message) => reply(message));
+        port = server.port;
+    });
+
+    afterAll(async () => {
+        await server.close();
+    });
+
+    it('should parse the UT2004 server details and strip the color codes', async () => {
+        let request: Buffer | undefined;
+
+        reply = (message) => {
+            request = message;
+            return response(0x00, ...details, latin1('\x1B\xFF\x00\x00Red \x1B\xFF\xFF\xFFServer'), latin1('DM-Rankin'), latin1('xDeathMatch'), int32(3), int32(16), int32(0), int32(0x40), latin1('3'));
+        };
+
+        expect(await new Unreal2({ host: '127.0.0.1', port, timeout: 1000 }).getDetails()).toEqual({
+            serverId: 0,
+            serverIp: '',
+            gamePort: 7777,
+            queryPort: 0,
+            serverName: 'Red Server',
+            mapName: 'DM-Rankin',
+            gameType: 'xDeathMatch',
+            numPlayers: 3,
+            maxPlayers: 16,
+            ping: 0,
+            serverFlags: 0x40,
+            skillLevel: '3',
+        });
+        expect(request).toEqual(Buffer.from([0x79, 0x00, 0x00, 0x00, 0x00]));
+    });
+
+    it('should expose the Killing Floor waves', async () => {
+        reply = () => response(0x00, ...details, latin1('KF Server'), latin1('KF-BioticsLab'), latin1('KFGameType'), int32(5), int32(6), int32(4), int32(10), int32(0), int32(0), latin1('2'));
+
+        expect(await new Unreal2({ host: '127.0.0.1', port, timeout: 1000 }).getDetails()).toMatchObject({
+            gameType: 'KFGameType',
+            currentWave: 4,
+            totalWaves: 10,
+            ping: 0,
+            serverFlags: 0,
+            skillLevel: '2',
+        });
+    });
+
+    it('should decode UCS-2 strings and keep the color codes if asked', async () => {
+        reply = () => response(0x00, ...details, ucs2('Сервер \x1B\x01\x02\x03'), latin1('RO-Arad'), latin1('ROTeamGame'), int32(0), int32(32));
+
+        const result = await new Unreal2({ host: '127.0.0.1', port, timeout: 1000, stripColors: false }).getDetails();
+
+        expect(result.serverName).toBe('Сервер \x1B\x01\x02\x03');
+        expect(result.mapName).toBe('RO-Arad');
+        expect(result.ping).toBeUndefined();
+    });
+
+    it('should keep the text after a color code cut short by the end of a string', async () => {
+        reply = () => response(0x00, ...details, latin1('\x1B\xFF\x00\x00Red Team\x1BAB'), latin1('DM-Rankin'), latin1('xDeathMatch'), int32(0), int32(16));
+
+        expect((await new Unreal2({ host: '127.0.0.1', port, timeout: 1000 }).getDetails()).serverName).toBe('Red TeamAB');
+    });
+
+    it('should collect the mutators with the rules', async () => {
+        reply = () => response(0x01, latin1('ServerMode'), latin1('dedicated'), latin1('Mutator'), latin1('MutInstagib'), latin1('Mutator'), latin1('MutNoAdrenaline'), latin1('GamePassword'), latin1('False'));
+
+        expect(await new Unreal2({ host: '127.0.0.1', port, timeout: 1000 }).getRules()).toEqual({
+            ServerMode: 'dedicated',
+            GamePassword: 'False',
+            mutators: ['MutInstagib', 'MutNoAdrenaline'],
+        });
+    });
+
+    it('should parse the players', async () => {
+        reply = () => response(0x02, int32(1), latin1('Alice'), int32(42), int32(15), int32(0), int32(2), ucs2('Böb'), int32(88), int32(-2), int32(0));
+
+        expect(await new Unreal2({ host: '127.0.0.1', port, timeout: 1000 }).getPlayers()).toEqual([
+            { id: 1, name: 'Alice', ping: 42, score: 15, statsId: 0 },
+            { id: 2, name: 'Böb', ping: 88, score: -2, statsId: 0 },
+        ]);
+    });
+
+    it('should skip the byte after the length of the Killing Floor UCS-2 names', async () => {
+        const unreal2 = new Unreal2({ host: '127.0.0.1', port, timeout: 1000 });
+
+        reply = () => killingFloorDetails;
+        expect(await unreal2.getDetails()).toEqual({
+            serverId: 0,
+            serverIp: '',
+            gamePort: 7707,
+            queryPort: 0,
+            serverName: 'Убежище KF',
+            mapName: 'KF-BioticsLab',
+            gameType: 'KFGameType',
+            numPlayers: 3,
+            maxPlayers: 6,
+            currentWave: 2,
+            totalWaves: 7,
+            ping: 0,
+            serverFlags: 0,
+            skillLevel: '2',
+        });
+
+        reply = () => killingFloorPlayers;
+        expect(await unreal2.getPlayers()).toEqual([
+            { id: 5, name: 'Ёжик', ping: 61, score: 120, statsId: 0 },
+            { id: 9, name: 'Alice', ping: 38, score: 45, statsId: 0 },
+        ]);
+    });
+
+    it('should keep a UCS-2 name that starts with U+0001', async () => {
+        const unreal2 = new Unreal2({ host: '127.0.0.1', port, timeout: 1000, stripColors: false });
+
+        reply = () => response(0x00, ...details, ucs2('\x01Сервер'), latin1('DM-Rankin'), latin1('xDeathMatch'), int32(3), int32(16), int32(0), int32(0), latin1('3'));
+        expect((await unreal2.getDetails()).serverName).toBe('\x01Сервер');
+
+        reply = () => response(0x02, int32(1), ucs2('\x01Böb'), int32(88), int32(-2), int32(0));
+        expect(await unreal2.getPlayers()).toEqual([{ id: 1, name: '\x01Böb', ping: 88, score: -2, statsId: 0 }]);
+    });
+
+    it('should reject a response of another query type', async () => {
+        reply = () => response(0x01);
+
+        await expect(new Unreal2({ host: '127.0.0.1', port, timeout: 1000 }).getPlayers()).rejects.toBeInstanceOf(InvalidResponseError);
+    });
+});
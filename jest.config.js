@@ -1,6 +1,7 @@
 /** @type {import('ts-jest').JestConfigWithTsJest} **/
 module.exports = {
   testEnvironment: "node",
+  testPathIgnorePatterns: ["/node_modules/", "/__tests__/helpers/"],
   transform: {
     "^.+.tsx?$": ["ts-jest", {}],
   },
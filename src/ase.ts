@@ -0,0 +1,87 @@
+import ProtocolBase from './protocol-base';
+import { BufferReader } from './lib/buffer-reader';
+import { InvalidResponseError } from './errors';
+import type { ASEPlayer, ASEStatus } from './interfaces/ase.interface';
+import type { QueryOptions } from './interfaces/query.interface';
+
+const RESPONSE_HEADER = Buffer.from('EYE1');
+
+// The player fields, in the order of their bits in the flags byte
+const PLAYER_FIELDS: [keyof ASEPlayer, 'string' | 'number'][] = [
+    ['name', 'string'],
+    ['team', 'string'],
+    ['skin', 'string'],
+    ['score', 'number'],
+    ['ping', 'number'],
+    ['time', 'number'],
+];
+
+/**
+ * A class for querying servers using the All-Seeing Eye protocol, e.g. Multi Theft Auto: San Andreas.
+ * The query port is usually the game port plus 123.
+ *
+ * @example
+ * const ase = new ASE({ host: '127.0.0.1', port: 22126 });
+ * const status = await ase.getStatus();
+ * console.log(status.hostname, status.numplayers, status.players.map((player) => player.name));
+ */
+export default class ASE extends ProtocolBase {
+    public readonly fullName = 'All-Seeing Eye Protocol';
+
+    /**
+     * Retrieves the server information, the rules and the players.
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the server status.
+     */
+    public getStatus(options: QueryOptions = {}): Promise<ASEStatus> {
+        return this.udp('STATUS', Buffer.from('s'), (message) => {
+            if (!message.subarray(0, RESPONSE_HEADER.length).equals(RESPONSE_HEADER)) {
+                throw new InvalidResponseError(this.details('STATUS', message));
+            }
+
+            const reader = new BufferReader(message, RESPONSE_HEADER.length);
+
+            // Every string is prefixed with its length plus one
+            const status: ASEStatus = {
+                gamename: reader.readPascalString(true),
+                gameport: Number(reader.readPascalString(true)),
+                hostname: reader.readPascalString(true),
+                gametype: reader.readPascalString(true),
+                map: reader.readPascalString(true),
+                version: reader.readPascalString(true),
+                password: reader.readPascalString(true) === '1',
+                numplayers: Number(reader.readPascalString(true)),
+                maxplayers: Number(reader.readPascalString(true)),
+                rules: {},
+                players: [],
+            };
+
+            // Key and value pairs, ended by an empty key
+            while (reader.getOffset() < reader.byteLength()) {
+                const key = reader.readPascalString(true);
+
+                if (key === '') break;
+
+                status.rules[key] = reader.readPascalString(true);
+            }
+
+            // Each player starts with the flags of the fields that follow
+            while (reader.getOffset() < reader.byteLength()) {
+                const flags = reader.readUint8();
+                const player: ASEPlayer = {};
+
+                PLAYER_FIELDS.forEach(([field, type], bit) => {
+                    if ((flags & (1 << bit)) !== 0) {
+                        const value = reader.readPascalString(true);
+                        (player as Record<string, string | number>)[field] = type === 'number' ? Number(value) : value;
+                    }
+                });
+
+                status.players.push(player);
+            }
+
+            return status;
+        }, options);
+    }
+}
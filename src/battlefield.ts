@@ -0,0 +1,305 @@
+import * as crypto from 'crypto';
+import ProtocolBase from './protocol-base';
+import { BufferReader } from './lib/buffer-reader';
+import { BattlefieldError, InvalidResponseError } from './errors';
+import type { BattlefieldInfo, BattlefieldParams, BattlefieldPlayer, BattlefieldVersion } from './interfaces/battlefield.interface';
+import type { QueryOptions } from './interfaces/query.interface';
+
+// The header: the sequence with the origin and response flags, the size of the packet and the number of words
+const HEADER_SIZE = 12;
+const IS_RESPONSE = 0x40000000;
+
+// The player columns converted to numbers
+const PLAYER_NUMBERS = ['teamId', 'squadId', 'kills', 'deaths', 'score', 'rank', 'ping', 'type'];
+
+/**
+ * A class for querying Battlefield servers of the Frostbite engine (Battlefield 3, Battlefield 4 and Hardline)
+ * over their TCP RCON protocol. Each query runs over its own connection.
+ *
+ * @example
+ * const battlefield = new Battlefield({ host: '127.0.0.1', port: 47200 });
+ * const info = await battlefield.getInfo();
+ * const players = await battlefield.getPlayers();
+ * console.log(info.hostname, info.teams, players.map((player) => player.name));
+ */
+export default class Battlefield extends ProtocolBase {
+    public readonly fullName = 'Battlefield Protocol';
+
+    private password?: string;
+
+    /**
+     * Creates a new Battlefield server query instance.
+     *
+     * @param params - A JSON object containing the configuration for the Battlefield instance.
+     * @param params.host - The IP address or hostname of the server.
+     * @param params.port - The RCON port of the server.
+     * @param params.timeout - The timeout duration (in milliseconds) for server queries. Default is 5000.
+     * @param params.debug - Enables debug logging if true. Default is false.
+     * @param params.password - The RCON password, used to log in before the commands sent with `command()`.
+     */
+    constructor(params: BattlefieldParams) {
+        super(params);
+        this.password = params.password;
+    }
+
+    /**
+     * Retrieves the server status, which is the server information.
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the server information.
+     */
+    public getStatus(options: QueryOptions = {}): Promise<BattlefieldInfo> {
+        return this.getInfo(options);
+    }
+
+    /**
+     * Retrieves the server information (`serverInfo`).
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the server information.
+     */
+    public async getInfo(options: QueryOptions = {}): Promise<BattlefieldInfo> {
+        const words = await this.request(['serverInfo'], false, options);
+        const next = () => {
+            const word = words.shift();
+
+            if (word === undefined) {
+                throw new InvalidResponseError(this.details('serverInfo'), 'The server information is incomplete');
+            }
+
+            return word;
+        };
+
+        const info: BattlefieldInfo = {
+            hostname: next(),
+            numPlayers: Number(next()),
+            maxPlayers: Number(next()),
+            gameMode: next(),
+            map: next(),
+            roundsPlayed: Number(next()),
+            roundsTotal: Number(next()),
+            teams: [],
+            targetScore: 0,
+            onlineState: '',
+            ranked: false,
+            punkBuster: false,
+            password: false,
+            uptime: 0,
+            roundTime: 0,
+        };
+
+        const teams = Number(next());
+
+        for (let id = 1; id <= teams; id++) {
+            info.teams.push({ id, score: Number(next()) });
+        }
+
+        info.targetScore = Number(next());
+        info.onlineState = next();
+        info.ranked = next() === 'true';
+        info.punkBuster = next() === 'true';
+        info.password = next() === 'true';
+        info.uptime = Number(next());
+        info.roundTime = Number(next());
+
+        // Older servers stop here
+        if (words.length >= 6) {
+            info.gameIpAndPort = next();
+            info.punkBusterVersion = next();
+            info.joinQueueEnabled = next() === 'true';
+            info.region = next();
+            info.closestPingSite = next();
+            info.country = next();
+        }
+
+        // Battlefield 3 then sends whether matchmaking is enabled, Battlefield 4 and Hardline the Blaze state
+        if (words[0] === 'true' || words[0] === 'false') {
+            info.matchMakingEnabled = next() === 'true';
+        }
+
+        if (words.length >= 2) {
+            info.blazePlayerCount = Number(next());
+            info.blazeGameState = next();
+        }
+
+        return info;
+    }
+
+    /**
+     * Retrieves the game and the build number of the server (`version`).
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the version.
+     */
+    public async getVersion(options: QueryOptions = {}): Promise<BattlefieldVersion> {
+        const [game, version] = await this.request(['version'], false, options);
+        return { game, version };
+    }
+
+    /**
+     * Retrieves the players (`listPlayers all`), with the fields named by the column header of the response.
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the players.
+     */
+    public async getPlayers(options: QueryOptions = {}): Promise<BattlefieldPlayer[]> {
+        const words = await this.request(['listPlayers', 'all'], false, options);
+
+        // The number of columns and their names, then the number of rows and the values row by row
+        const columnCount = Number(words[0]);
+        const columns = words.slice(1, 1 + columnCount);
+        const rowCount = Number(words[1 + columnCount]);
+        const values = words.slice(2 + columnCount);
+
+        if (isNaN(columnCount) || isNaN(rowCount) || values.length < columnCount * rowCount) {
+            throw new InvalidResponseError(this.details('listPlayers'), 'The player list is incomplete');
+        }
+
+        const players: BattlefieldPlayer[] = [];
+
+        for (let row = 0; row < rowCount; row++) {
+            const player: BattlefieldPlayer = {};
+
+            columns.forEach((column, index) => {
+                const value = values[row * columnCount + index];
+                player[column] = PLAYER_NUMBERS.includes(column) ? Number(value) : value;
+            });
+
+            players.push(player);
+        }
+
+        return players;
+    }
+
+    /**
+     * Runs a command, e.g. `['admin.say', 'Hello', 'all']`, after logging in with `login.hashed`
+     * if a password is configured.
+     *
+     * @param words - The command and its arguments.
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the words of the response after the `OK` status.
+     * @throws {@link BattlefieldError} if the server answers the login or the command with another status.
+     */
+    public command(words: string[], options: QueryOptions = {}): Promise<string[]> {
+        return this.request(words, true, options);
+    }
+
+    /**
+     * Connects, logs in if asked and a password is configured, and runs a command.
+     *
+     * @param words - The command and its arguments.
+     * @param login - Whether to log in first.
+     * @param options - The query options.
+     * @returns A promise that resolves with the words of the response after the `OK` status.
+     */
+    private request(words: string[], login: boolean, options: QueryOptions): Promise<string[]> {
+        const requestType = words[0];
+
+        // Each step builds the next request from the response to the previous one
+        const steps: ((response: string[]) => string[])[] = [];
+
+        if (login && this.password !== undefined) {
+            const password = this.password;
+            steps.push(() => ['login.hashed']);
+            steps.push(([salt]) => ['login.hashed', Battlefield.hash(salt ?? '', password)]);
+        }
+
+        steps.push(() => words);
+
+        let sequence = 0;
+        let consumed = 0;
+
+        return this.tcp(requestType, Battlefield.encode(sequence, steps[0]([])), (data, send) => {
+            while (data.length - consumed >= HEADER_SIZE) {
+                const size = data.readUInt32LE(consumed + 4);
+
+                if (size < HEADER_SIZE) {
+                    throw new InvalidResponseError(this.details(requestType, data), `Invalid packet size ${size}`);
+                }
+
+                if (data.length - consumed < size) {
+                    break;
+                }
+
+                const packet = Battlefield.decode(data.subarray(consumed, consumed + size));
+                consumed += size;
+
+                // Skip the events and requests sent by the server
+                if (!packet.isResponse || packet.sequence !== sequence) {
+                    continue;
+                }
+
+                const [status, ...response] = packet.words;
+
+                if (status !== 'OK') {
+                    throw new BattlefieldError(this.details(requestType, data), status ?? '');
+                }
+
+                if (++sequence === steps.length) {
+                    return response;
+                }
+
+                send(Battlefield.encode(sequence, steps[sequence](response)));
+            }
+
+            return undefined;
+        }, options);
+    }
+
+    /**
+     * Encodes a request packet.
+     *
+     * @param sequence - The sequence number of the request.
+     * @param words - The words of the request.
+     * @returns The packet.
+     */
+    private static encode(sequence: number, words: string[]): Buffer {
+        // Each word: its size, the bytes and a null terminator
+        const encoded = words.map((word) => {
+            const bytes = Buffer.from(word, 'utf-8');
+            const size = Buffer.alloc(4);
+            size.writeUInt32LE(bytes.length);
+            return Buffer.concat([size, bytes, Buffer.from([0x00])]);
+        });
+
+        const header = Buffer.alloc(HEADER_SIZE);
+        header.writeUInt32LE(sequence & 0x3FFFFFFF, 0);
+        header.writeUInt32LE(HEADER_SIZE + encoded.reduce((total, word) => total + word.length, 0), 4);
+        header.writeUInt32LE(words.length, 8);
+
+        return Buffer.concat([header, ...encoded]);
+    }
+
+    /**
+     * Decodes a packet.
+     *
+     * @param packet - The complete packet.
+     * @returns The sequence number, whether it is a response and the words.
+     */
+    private static decode(packet: Buffer): { sequence: number, isResponse: boolean, words: string[] } {
+        const reader = new BufferReader(packet);
+        const header = reader.readUint32(true, 'sequence');
+        reader.readUint32(true, 'size'); // Checked when the packet was cut from the stream
+        const count = reader.readUint32(true, 'wordCount');
+        const words: string[] = [];
+
+        for (let i = 0; i < count; i++) {
+            const size = reader.readUint32(true, `words[${i}].size`);
+            words.push(reader.readBytes(size, `words[${i}]`).toString('utf-8'));
+            reader.skip(1, `words[${i}]`); // Null terminator
+        }
+
+        return { sequence: header & 0x3FFFFFFF, isResponse: (header & IS_RESPONSE) !== 0, words };
+    }
+
+    /**
+     * Hashes the password for `login.hashed`: the MD5 of the salt bytes followed by the password.
+     *
+     * @param salt - The salt sent by the server, in hexadecimal.
+     * @param password - The password.
+     * @returns The hash in uppercase hexadecimal.
+     */
+    private static hash(salt: string, password: string): string {
+        return crypto.createHash('md5').update(Buffer.concat([Buffer.from(salt, 'hex'), Buffer.from(password, 'utf-8')])).digest('hex').toUpperCase();
+    }
+}
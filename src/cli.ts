@@ -1,14 +1,439 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import * as fs from 'fs';
+import { Command, InvalidArgumentError, Option } from 'commander';
+import Source from './source';
+import { createProtocol, getProtocols } from './protocols';
+import {
+    BattlefieldError,
+    ChallengeError,
+    ChecksumMismatchError,
+    DecompressionError,
+    InvalidResponseError,
+    ParseError,
+    QueryTimeoutError,
+    TeamSpeak3Error,
+} from './errors';
 
-const program = new Command();
+/**
+ * Exit codes of the CLI, so shell scripts can tell why a query failed.
+ */
+export const ExitCode = {
+    /** The query succeeded. */
+    Success: 0,
+    /** The query failed for any other reason (e.g. DNS or socket errors, or an aborted query). */
+    Error: 1,
+    /** The server did not answer in time. */
+    Timeout: 2,
+    /** The server answered with a response that could not be parsed. */
+    BadResponse: 3,
+} as const;
 
-program
-    .name('opengsq')
-    .description('A CLI tool for OpenGSQ')
-    .version('1.0.0');
+type OutputFormat = 'table' | 'json' | 'ndjson';
 
-// TODO: create command line
+type BatchFormat = 'ndjson' | 'csv';
 
-program.parse(process.argv);
\ No newline at end of file
+interface QueryOptions {
+    host: string;
+    port: number;
+    timeout: number;
+    debug: boolean;
+    encoding: string;
+    format: OutputFormat;
+    json?: boolean;
+    ndjson?: boolean;
+}
+
+interface BatchOptions {
+    concurrency: number;
+    timeout: number;
+    debug: boolean;
+    format: BatchFormat;
+    csv?: boolean;
+}
+
+/**
+ * The result of querying one server of a batch.
+ */
+interface BatchResult {
+    protocol: string;
+    host: string;
+    port: number;
+    status: 'ok' | 'timeout' | 'error';
+    address?: string;
+    error?: string;
+    result?: unknown;
+}
+
+/**
+ * The CSV columns of the batch command: the status columns followed by common server info fields.
+ */
+const CSV_COLUMNS = ['protocol', 'host', 'port', 'status', 'error', 'name', 'map', 'players', 'maxPlayers'];
+
+/**
+ * Creates the `opengsq` command line program.
+ *
+ * @returns The commander program.
+ */
+export function createProgram(): Command {
+    const program = new Command();
+
+    program
+        .name('opengsq')
+        .description('A CLI tool for OpenGSQ')
+        .version('1.0.0');
+
+    const source = program
+        .command('source')
+        .description('Query a Source or GoldSource server using the A2S protocol');
+
+    addQueryCommand(source, 'info', 'Retrieve server information', (source) => source.getInfo());
+    addQueryCommand(source, 'players', 'Retrieve player information', (source) => source.getPlayers());
+    addQueryCommand(source, 'rules', 'Retrieve server rules', (source) => source.getRules());
+    addQueryCommand(source, 'all', 'Retrieve server information, players and rules', async (source) => {
+        const { errors, ...result } = await source.getAll();
+        const messages = Object.fromEntries(Object.entries(errors).map(([key, err]) => [key, err.message]));
+        return Object.keys(messages).length > 0 ? { ...result, errors: messages } : result;
+    });
+    addQueryCommand(source, 'ping', 'Measure the round-trip latency', (source) => source.getPing());
+
+    program
+        .command('batch')
+        .description('Query every server listed in a file of `protocol host:port` lines')
+        .argument('[file]', 'the server list file, or - to read from stdin', '-')
+        .option('--concurrency <n>', 'the number of servers queried at the same time', parsePositiveInteger, 10)
+        .option('--timeout <ms>', 'the timeout duration (in milliseconds) of each query', parseInteger, 5000)
+        .option('--debug', 'enable debug logging', false)
+        .addOption(new Option('--format <format>', 'the output format').choices(['ndjson', 'csv']).default('ndjson'))
+        .option('--csv', 'shorthand for --format csv')
+        .action((file: string, options: BatchOptions) => runBatch(file, options));
+
+    return program;
+}
+
+/**
+ * Queries every server of a server list and prints one result per line, followed by a summary on stderr.
+ * The exit code is 0 only if every server answered.
+ *
+ * @param file - The server list file, or `-` for stdin.
+ * @param options - The batch options.
+ */
+async function runBatch(file: string, options: BatchOptions): Promise<void> {
+    const format: BatchFormat = options.csv ? 'csv' : options.format;
+    const lines = (await readInput(file)).split(/\r?\n/).map((line) => line.trim()).filter((line) => line && !line.startsWith('#'));
+    const summary = { ok: 0, timeout: 0, error: 0 };
+
+    if (format === 'csv') {
+        console.log(CSV_COLUMNS.join(','));
+    }
+
+    await runPool(lines, options.concurrency, async (line) => {
+        const result = await queryLine(line, options);
+        summary[result.status]++;
+
+        if (format === 'csv') {
+            const row: Record<string, unknown> = { ...(result.result as Record<string, unknown>), ...result };
+            console.log(CSV_COLUMNS.map((column) => formatCsvValue(row[column])).join(','));
+        } else {
+            console.log(JSON.stringify(result, replacer));
+        }
+    });
+
+    console.error(`Summary: ${lines.length} servers, ${summary.ok} ok, ${summary.timeout} timeout, ${summary.error} error`);
+    process.exitCode = summary.ok === lines.length ? ExitCode.Success : ExitCode.Error;
+}
+
+/**
+ * Parses and queries one `protocol host:port` line of a server list.
+ *
+ * @param line - The server list line.
+ * @param options - The batch options.
+ * @returns The batch result, which never rejects.
+ */
+async function queryLine(line: string, options: BatchOptions): Promise<BatchResult> {
+    const [protocol, address = ''] = line.split(/\s+/);
+    // IPv6 addresses are written in brackets, e.g. [::1]:27015
+    const match = /^\[(.+)\]:(\d+)$/.exec(address) || /^([^:]+):(\d+)$/.exec(address);
+    const host = match ? match[1] : address;
+    const port = match ? Number(match[2]) : 0;
+
+    if (!match) {
+        return { protocol, host, port, status: 'error', error: `Invalid address: ${address}` };
+    }
+
+    if (!(getProtocols() as string[]).includes(protocol)) {
+        return { protocol, host, port, status: 'error', error: `Unknown protocol: ${protocol}` };
+    }
+
+    try {
+        const instance = createProtocol(protocol, { host, port, timeout: options.timeout, debug: options.debug });
+        let resolved: string | undefined;
+        const result = await instance.getStatus({ onAddress: (address) => resolved = address.address });
+        return { protocol, host, port, status: 'ok', address: resolved, result };
+    } catch (err) {
+        const status = getExitCode(err as Error) === ExitCode.Timeout ? 'timeout' : 'error';
+        return { protocol, host, port, status, error: (err as Error).message };
+    }
+}
+
+/**
+ * Reads the whole content of a file, or of stdin if the file is `-`.
+ *
+ * @param file - The file path or `-`.
+ * @returns A promise that resolves with the content.
+ */
+function readInput(file: string): Promise<string> {
+    if (file !== '-') {
+        return fs.promises.readFile(file, 'utf-8');
+    }
+
+    return new Promise((resolve, reject) => {
+        let data = '';
+        process.stdin.setEncoding('utf-8');
+        process.stdin.on('data', (chunk) => data += chunk);
+        process.stdin.on('end', () => resolve(data));
+        process.stdin.on('error', reject);
+    });
+}
+
+/**
+ * Runs the worker on every item with at most `concurrency` workers running at the same time.
+ *
+ * @param items - The items.
+ * @param concurrency - The maximum number of running workers.
+ * @param worker - The worker.
+ */
+async function runPool<T>(items: T[], concurrency: number, worker: (item: T) => Promise<void>): Promise<void> {
+    let next = 0;
+
+    const runners = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+        while (next < items.length) {
+            await worker(items[next++]);
+        }
+    });
+
+    await Promise.all(runners);
+}
+
+/**
+ * Adds a query subcommand with the common connection and output options.
+ *
+ * @param parent - The protocol command.
+ * @param name - The name of the subcommand.
+ * @param description - The description of the subcommand.
+ * @param query - Runs the query against the Source instance.
+ */
+function addQueryCommand(parent: Command, name: string, description: string, query: (source: Source) => Promise<unknown>): void {
+    parent
+        .command(name)
+        .description(description)
+        .requiredOption('--host <host>', 'the IP address or hostname of the server')
+        .requiredOption('--port <port>', 'the port number of the server', parsePort)
+        .option('--timeout <ms>', 'the timeout duration (in milliseconds)', parseInteger, 5000)
+        .option('--debug', 'enable debug logging', false)
+        .option('--encoding <encoding>', "the encoding of the strings, e.g. windows-1251, or 'auto'", 'utf-8')
+        .addOption(new Option('--format <format>', 'the output format').choices(['table', 'json', 'ndjson']).default('table'))
+        .option('--json', 'shorthand for --format json')
+        .option('--ndjson', 'shorthand for --format ndjson')
+        .action(async (options: QueryOptions) => {
+            const format: OutputFormat = options.json ? 'json' : options.ndjson ? 'ndjson' : options.format;
+            try {
+                const source = new Source({
+                    host: options.host,
+                    port: options.port,
+                    timeout: options.timeout,
+                    debug: options.debug,
+                    encoding: options.encoding,
+                });
+
+                const result = await query(source);
+                print(name === 'rules' ? toRuleList(result as Record<string, string>) : result, format);
+                process.exitCode = ExitCode.Success;
+            } catch (err) {
+                console.error(`Error: ${(err as Error).message}`);
+                process.exitCode = getExitCode(err as Error);
+            }
+        });
+}
+
+/**
+ * Maps a query error to an exit code.
+ *
+ * @param err - The error the query rejected with.
+ * @returns The exit code.
+ */
+export function getExitCode(err: Error): number {
+    if (err instanceof QueryTimeoutError) {
+        return ExitCode.Timeout;
+    }
+
+    // The server answered, but not with what the protocol expects
+    const responseErrors = [InvalidResponseError, ParseError, ChecksumMismatchError, DecompressionError, ChallengeError, TeamSpeak3Error, BattlefieldError];
+
+    if (responseErrors.some((type) => err instanceof type)) {
+        return ExitCode.BadResponse;
+    }
+
+    return ExitCode.Error;
+}
+
+/**
+ * Prints a query result in the requested format.
+ *
+ * @param result - The query result.
+ * @param format - The output format.
+ */
+function print(result: unknown, format: OutputFormat): void {
+    if (format === 'json') {
+        console.log(JSON.stringify(result, replacer, 2));
+    } else if (format === 'ndjson') {
+        const records = Array.isArray(result) ? result : [result];
+        for (const record of records) {
+            console.log(JSON.stringify(record, replacer));
+        }
+    } else if (Array.isArray(result)) {
+        console.log(formatTable(result as Record<string, unknown>[]));
+    } else {
+        console.log(formatObject(result as Record<string, unknown>));
+    }
+}
+
+/**
+ * Converts a rules map to a list of rule records, so rules print as rows.
+ *
+ * @param rules - The rules map.
+ * @returns The rule records.
+ */
+function toRuleList(rules: Record<string, string>): { name: string; value: string }[] {
+    return Object.keys(rules).map((name) => ({ name, value: rules[name] }));
+}
+
+/**
+ * Formats a list of records as a table with one column per key.
+ *
+ * @param rows - The records.
+ * @returns The table text.
+ */
+function formatTable(rows: Record<string, unknown>[]): string {
+    if (rows.length === 0) {
+        return '(empty)';
+    }
+
+    const columns = rows.reduce<string[]>((keys, row) => keys.concat(Object.keys(row).filter((key) => !keys.includes(key))), []);
+    const cells = [columns, ...rows.map((row) => columns.map((column) => formatValue(row[column])))];
+    const widths = columns.map((_, i) => Math.max(...cells.map((row) => row[i].length)));
+
+    return cells.map((row) => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd()).join('\n');
+}
+
+/**
+ * Formats an object as aligned `key  value` lines, flattening nested objects and tables.
+ *
+ * @param object - The object.
+ * @returns The formatted text.
+ */
+function formatObject(object: Record<string, unknown>): string {
+    const lines: [string, string][] = [];
+    const sections: string[] = [];
+
+    const collect = (value: Record<string, unknown>, path: string) => {
+        for (const key of Object.keys(value)) {
+            const child = value[key];
+
+            if (Array.isArray(child)) {
+                sections.push(`${path}${key}:\n${formatTable(child)}`);
+            } else if (child !== null && typeof child === 'object') {
+                collect(child as Record<string, unknown>, `${path}${key}.`);
+            } else {
+                lines.push([`${path}${key}`, formatValue(child)]);
+            }
+        }
+    };
+
+    collect(object, '');
+
+    const width = Math.max(0, ...lines.map(([key]) => key.length));
+    return [lines.map(([key, value]) => `${key.padEnd(width)}  ${value}`).join('\n'), ...sections].join('\n\n');
+}
+
+/**
+ * Formats a single value for table output.
+ *
+ * @param value - The value.
+ * @returns The formatted value.
+ */
+function formatValue(value: unknown): string {
+    if (value === undefined || value === null) {
+        return '';
+    }
+
+    return typeof value === 'object' ? JSON.stringify(value, replacer) : String(value);
+}
+
+/**
+ * Formats a single value as a CSV field, quoting it when needed.
+ *
+ * @param value - The value.
+ * @returns The CSV field.
+ */
+function formatCsvValue(value: unknown): string {
+    const text = formatValue(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * JSON replacer that serializes bigint values (e.g. Steam IDs) as strings.
+ */
+function replacer(_key: string, value: unknown): unknown {
+    return typeof value === 'bigint' ? value.toString() : value;
+}
+
+function parseInteger(value: string): number {
+    const parsed = Number(value);
+
+    if (!Number.isInteger(parsed) || parsed < 0) {
+        throw new InvalidArgumentError('Not a non-negative integer.');
+    }
+
+    return parsed;
+}
+
+function parsePositiveInteger(value: string): number {
+    const parsed = parseInteger(value);
+
+    if (parsed < 1) {
+        throw new InvalidArgumentError('Not a positive integer.');
+    }
+
+    return parsed;
+}
+
+function parsePort(value: string): number {
+    const port = parseInteger(value);
+
+    if (port < 1 || port > 65535) {
+        throw new InvalidArgumentError('Not a valid port number.');
+    }
+
+    return port;
+}
+
+/**
+ * Runs the CLI, printing the errors no command handles itself (e.g. an unreadable batch file) as one line.
+ *
+ * @param argv - The command line arguments, starting with the node executable and the script.
+ * @returns A promise that resolves once the command has finished.
+ */
+export async function main(argv: string[]): Promise<void> {
+    try {
+        await createProgram().parseAsync(argv);
+    } catch (err) {
+        console.error(`Error: ${(err as Error).message}`);
+        process.exitCode = ExitCode.Error;
+    }
+}
+
+/* istanbul ignore next */
+if (require.main === module) {
+    main(process.argv);
+}
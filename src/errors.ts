@@ -0,0 +1,231 @@
+/**
+ * Thrown when an RCON server rejects the password.
+ */
+export class RconAuthenticationError extends Error {
+    constructor(message: string = 'Bad rcon_password') {
+        super(message);
+        this.name = 'RconAuthenticationError';
+    }
+}
+
+/**
+ * Thrown when an RCON server refuses the request because the client address is banned.
+ */
+export class RconBannedError extends Error {
+    constructor(message: string = 'Banned from the server') {
+        super(message);
+        this.name = 'RconBannedError';
+    }
+}
+
+/**
+ * Details attached to every query error.
+ */
+export interface QueryErrorDetails {
+    /**
+     * The host of the queried server.
+     */
+    host: string;
+
+    /**
+     * The port of the queried server.
+     */
+    port: number;
+
+    /**
+     * The request that failed, e.g. `A2S_INFO`.
+     */
+    requestType?: string;
+
+    /**
+     * The raw bytes received from the server before the failure, if any.
+     */
+    data?: Buffer;
+}
+
+/**
+ * Base class of the errors a query rejects with.
+ */
+export class QueryError extends Error {
+    /**
+     * The host of the queried server.
+     */
+    public host: string;
+
+    /**
+     * The port of the queried server.
+     */
+    public port: number;
+
+    /**
+     * The request that failed, e.g. `A2S_INFO`.
+     */
+    public requestType?: string;
+
+    /**
+     * The raw bytes received from the server before the failure, if any.
+     */
+    public data?: Buffer;
+
+    constructor(message: string, details: QueryErrorDetails) {
+        super(message);
+        this.name = 'QueryError';
+        this.host = details.host;
+        this.port = details.port;
+        this.requestType = details.requestType;
+        this.data = details.data;
+    }
+}
+
+/**
+ * Thrown when the server does not answer before the timeout.
+ */
+export class QueryTimeoutError extends QueryError {
+    constructor(details: QueryErrorDetails, message: string = 'Request timed out') {
+        super(message, details);
+        this.name = 'QueryTimeoutError';
+    }
+}
+
+/**
+ * Thrown when the challenge handshake does not complete, e.g. the server keeps sending new challenges.
+ */
+export class ChallengeError extends QueryError {
+    constructor(details: QueryErrorDetails, message: string = 'Max retries reached while handling challenge') {
+        super(message, details);
+        this.name = 'ChallengeError';
+    }
+}
+
+/**
+ * Thrown when the server answers with a packet or response type that does not belong to the protocol.
+ */
+export class InvalidResponseError extends QueryError {
+    constructor(details: QueryErrorDetails, message: string = 'Invalid response header') {
+        super(message, details);
+        this.name = 'InvalidResponseError';
+    }
+}
+
+/**
+ * Thrown when the CRC32 checksum of a decompressed multi-packet response does not match.
+ */
+export class ChecksumMismatchError extends QueryError {
+    /**
+     * The checksum sent by the server.
+     */
+    public expected: number;
+
+    /**
+     * The checksum of the decompressed data.
+     */
+    public actual: number;
+
+    constructor(details: QueryErrorDetails, expected: number, actual: number) {
+        super(`Checksum mismatch: expected ${expected}, got ${actual}`, details);
+        this.name = 'ChecksumMismatchError';
+        this.expected = expected;
+        this.actual = actual;
+    }
+}
+
+/**
+ * Thrown when a compressed multi-packet response cannot be decompressed.
+ */
+export class DecompressionError extends QueryError {
+    constructor(details: QueryErrorDetails, message: string = 'Failed to decompress response') {
+        super(message, details);
+        this.name = 'DecompressionError';
+    }
+}
+
+/**
+ * Where the parsing of a response failed.
+ */
+export interface ParseErrorLocation {
+    /**
+     * The offset in the response the failed read started at.
+     */
+    offset: number;
+
+    /**
+     * The name of the field being read, e.g. `name`, or its type, e.g. `uint32`.
+     */
+    field: string;
+
+    /**
+     * A hex dump of the response around the offset.
+     */
+    hexDump: string;
+}
+
+/**
+ * Thrown when a response is truncated or malformed and cannot be parsed.
+ */
+export class ParseError extends QueryError {
+    /**
+     * The offset in the response the failed read started at, if known.
+     */
+    public offset?: number;
+
+    /**
+     * The name of the field being read, if known.
+     */
+    public field?: string;
+
+    /**
+     * A hex dump of the response around the offset, if known.
+     */
+    public hexDump?: string;
+
+    constructor(details: QueryErrorDetails, message: string = 'Failed to parse response', location?: ParseErrorLocation) {
+        super(message, details);
+        this.name = 'ParseError';
+        this.offset = location?.offset;
+        this.field = location?.field;
+        this.hexDump = location?.hexDump;
+    }
+}
+
+/**
+ * Thrown when a query is cancelled through its `AbortSignal`.
+ */
+export class QueryAbortError extends QueryError {
+    constructor(details: QueryErrorDetails, message: string = 'Request aborted') {
+        super(message, details);
+        this.name = 'QueryAbortError';
+    }
+}
+
+/**
+ * Thrown when a TeamSpeak 3 ServerQuery command fails, e.g. because of invalid credentials or missing permissions.
+ */
+export class TeamSpeak3Error extends QueryError {
+    /**
+     * The error id sent by the server, e.g. 520 for invalid credentials.
+     */
+    public id: number;
+
+    constructor(details: QueryErrorDetails, id: number, message: string) {
+        super(message, details);
+        this.name = 'TeamSpeak3Error';
+        this.id = id;
+    }
+}
+
+/**
+ * Thrown when a Battlefield (Frostbite) server answers a command with a status other than `OK`,
+ * e.g. `InvalidPasswordHash` or `LogInRequired`.
+ */
+export class BattlefieldError extends QueryError {
+    /**
+     * The status sent by the server, e.g. `InvalidPasswordHash`.
+     */
+    public status: string;
+
+    constructor(details: QueryErrorDetails, status: string) {
+        super(status, details);
+        this.name = 'BattlefieldError';
+        this.status = status;
+    }
+}
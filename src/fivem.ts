@@ -0,0 +1,107 @@
+import ProtocolBase from './protocol-base';
+import { InvalidResponseError, ParseError } from './errors';
+import type { FiveMDynamic, FiveMInfo, FiveMPlayer, FiveMStatus } from './interfaces/fivem.interface';
+import type { QueryOptions } from './interfaces/query.interface';
+
+/**
+ * A class for querying FiveM (GTA V) and RedM (RDR2) servers of the Cfx.re platform,
+ * using the JSON endpoints they serve over HTTP on the game port.
+ *
+ * @example
+ * const fivem = new FiveM({ host: '127.0.0.1', port: 30120 });
+ * const status = await fivem.getStatus();
+ * console.log(status.hostname, status.clients, status.players.map((player) => player.name));
+ */
+export default class FiveM extends ProtocolBase {
+    public readonly fullName = 'FiveM Protocol';
+
+    /**
+     * Retrieves the server information, the players and the live server data together.
+     * The timeout applies to each of the three requests, which are sent at the same time.
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the server status.
+     */
+    public async getStatus(options: QueryOptions = {}): Promise<FiveMStatus> {
+        const [info, players, dynamic] = await Promise.all([this.getInfo(options), this.getPlayers(options), this.getDynamic(options)]);
+
+        return {
+            hostname: dynamic.hostname,
+            clients: dynamic.clients,
+            maxClients: Number(dynamic.sv_maxclients ?? info.vars.sv_maxClients),
+            gametype: dynamic.gametype,
+            mapname: dynamic.mapname,
+            info,
+            players,
+        };
+    }
+
+    /**
+     * Retrieves the server information (`/info.json`): the server variables and the resources.
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the server information.
+     */
+    public async getInfo(options: QueryOptions = {}): Promise<FiveMInfo> {
+        const info = await this.getJson<FiveMInfo>('/info.json', options);
+
+        if (typeof info !== 'object' || info === null) {
+            throw new InvalidResponseError(this.details('/info.json'), 'Expected an object');
+        }
+
+        return { ...info, resources: info.resources ?? [], vars: info.vars ?? {} };
+    }
+
+    /**
+     * Retrieves the connected players (`/players.json`) with their identifiers and ping.
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the players.
+     */
+    public async getPlayers(options: QueryOptions = {}): Promise<FiveMPlayer[]> {
+        const players = await this.getJson<FiveMPlayer[]>('/players.json', options);
+
+        if (!Array.isArray(players)) {
+            throw new InvalidResponseError(this.details('/players.json'), 'Expected a list of players');
+        }
+
+        return players.map((player) => ({ ...player, identifiers: player.identifiers ?? [] }));
+    }
+
+    /**
+     * Retrieves the live server data (`/dynamic.json`): the hostname, the client counts, the game type and the map.
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the live server data.
+     */
+    public async getDynamic(options: QueryOptions = {}): Promise<FiveMDynamic> {
+        const dynamic = await this.getJson<FiveMDynamic>('/dynamic.json', options);
+
+        if (typeof dynamic !== 'object' || dynamic === null || Array.isArray(dynamic)) {
+            throw new InvalidResponseError(this.details('/dynamic.json'), 'Expected an object');
+        }
+
+        if (typeof dynamic.hostname !== 'string' || typeof dynamic.clients !== 'number') {
+            throw new InvalidResponseError(this.details('/dynamic.json'), 'Expected the hostname and the number of clients');
+        }
+
+        return dynamic;
+    }
+
+    /**
+     * Requests a JSON endpoint.
+     *
+     * @param path - The path of the endpoint.
+     * @param options - The query options.
+     * @returns A promise that resolves with the parsed JSON.
+     */
+    private async getJson<T>(path: string, options: QueryOptions): Promise<T> {
+        const body = await this.http(path, path, options);
+
+        try {
+            return JSON.parse(body.toString('utf-8'));
+        } catch (err) {
+            throw new ParseError(this.details(path, body), `Invalid JSON: ${(err as Error).message}`);
+        }
+    }
+}
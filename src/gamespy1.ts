@@ -0,0 +1,100 @@
+import ProtocolBase from './protocol-base';
+import { InvalidResponseError } from './errors';
+import type { GameSpyStatus } from './interfaces/gamespy.interface';
+import type { QueryOptions } from './interfaces/query.interface';
+
+/**
+ * A class for querying servers using the GameSpy 1 protocol (e.g. older Unreal Tournament and Quake III based titles).
+ * The response to `\status\` may be split over several packets, each ending with `\queryid\<id>.<number>`,
+ * the last one also containing `\final\`.
+ *
+ * @example
+ * const gamespy1 = new GameSpy1({ host: '127.0.0.1', port: 7778 });
+ * const status = await gamespy1.getStatus();
+ * console.log(status.info.hostname, status.players);
+ */
+export default class GameSpy1 extends ProtocolBase {
+    public readonly fullName = 'GameSpy Protocol version 1';
+
+    /**
+     * Retrieves the server keys, the players and the teams.
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the server status.
+     */
+    public getStatus(options: QueryOptions = {}): Promise<GameSpyStatus> {
+        const packets: Record<number, string> = {};
+        let totalPackets = -1;
+
+        return this.udp('status', Buffer.from('\\status\\'), (message) => {
+            let text = message.toString('latin1');
+            const match = /\\queryid\\[^\\.]*\.(\d+)/.exec(text);
+
+            if (!text.startsWith('\\') || !match) {
+                throw new InvalidResponseError(this.details('status', message));
+            }
+
+            text = text.substring(0, match.index) + text.substring(match.index + match[0].length);
+
+            if (text.includes('\\final\\')) {
+                text = text.replace('\\final\\', '');
+                totalPackets = Number(match[1]);
+            }
+
+            packets[Number(match[1])] = text;
+
+            if (this.debug) console.log("[DEBUG] Packet:", match[1], "of", totalPackets);
+
+            // Check if all packets have been received
+            if (totalPackets === -1 || Object.keys(packets).length < totalPackets) {
+                return undefined;
+            }
+
+            const body = Object.keys(packets)
+                .map(Number)
+                .sort((a, b) => a - b)
+                .map((number) => packets[number])
+                .join('');
+
+            return GameSpy1.parseStatus(body);
+        }, options);
+    }
+
+    /**
+     * Parses the key/value pairs of a status response, sorting the keys with a `_<n>` suffix into players
+     * and the keys with a `_t<n>` suffix into teams.
+     *
+     * @param body - The reassembled response, e.g. `\hostname\My Server\player_0\Alice`.
+     * @returns The server status.
+     */
+    private static parseStatus(body: string): GameSpyStatus {
+        const items = body.split('\\');
+        const status: GameSpyStatus = { info: {}, players: [], teams: [] };
+
+        // The response starts with a backslash, so the first item is empty
+        for (let i = 1; i + 1 < items.length; i += 2) {
+            const key = items[i];
+            const value = items[i + 1];
+            const team = /^(.+)_t(\d+)$/.exec(key);
+            const player = /^(.+)_(\d+)$/.exec(key);
+
+            if (team) {
+                const index = Number(team[2]);
+                status.teams[index] = status.teams[index] || {};
+                status.teams[index][team[1]] = value;
+            } else if (player) {
+                const index = Number(player[2]);
+                status.players[index] = status.players[index] || {};
+                status.players[index][player[1]] = value;
+            } else if (key !== '') {
+                status.info[key] = value;
+            }
+        }
+
+        // Indexes may be sparse, e.g. if a player left between two packets
+        status.players = status.players.filter(Boolean);
+        status.teams = status.teams.filter(Boolean);
+
+        return status;
+    }
+}
@@ -0,0 +1,95 @@
+import ProtocolBase from './protocol-base';
+import { BufferReader } from './lib/buffer-reader';
+import { InvalidResponseError } from './errors';
+import type { GameSpyStatus } from './interfaces/gamespy.interface';
+import type { QueryOptions } from './interfaces/query.interface';
+
+const REQUEST_ID = Buffer.from([0x04, 0x05, 0x06, 0x07]);
+
+/**
+ * A class for querying servers using the GameSpy 2 protocol (e.g. Battlefield Vietnam, Halo, Unreal Tournament 2003).
+ * The server keys, players and teams are requested at once and answered in a single packet.
+ *
+ * @example
+ * const gamespy2 = new GameSpy2({ host: '127.0.0.1', port: 23000 });
+ * const status = await gamespy2.getStatus();
+ * console.log(status.info.hostname, status.players);
+ */
+export default class GameSpy2 extends ProtocolBase {
+    public readonly fullName = 'GameSpy Protocol version 2';
+
+    /**
+     * Retrieves the server keys, the players and the teams.
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the server status.
+     */
+    public getStatus(options: QueryOptions = {}): Promise<GameSpyStatus> {
+        // Header, request id, then one flag each for the server keys, the players and the teams
+        const request = Buffer.concat([Buffer.from([0xFE, 0xFD, 0x00]), REQUEST_ID, Buffer.from([0xFF, 0xFF, 0xFF])]);
+
+        return this.udp('status', request, (message) => {
+            if (message[0] !== 0x00 || !message.subarray(1, 5).equals(REQUEST_ID)) {
+                throw new InvalidResponseError(this.details('status', message));
+            }
+
+            const reader = new BufferReader(message, 5);
+            const status: GameSpyStatus = { info: {}, players: [], teams: [] };
+
+            // Server keys, until an empty key
+            while (reader.getOffset() < reader.byteLength()) {
+                const key = reader.readString();
+
+                if (key === '') break;
+
+                status.info[key] = reader.readString();
+            }
+
+            // The player section starts with an empty byte
+            if (reader.getOffset() < reader.byteLength()) {
+                reader.readUint8();
+            }
+
+            status.players = GameSpy2.parseTable(reader, '_');
+            status.teams = GameSpy2.parseTable(reader, '_t');
+
+            return status;
+        }, options);
+    }
+
+    /**
+     * Parses the player or team section: the number of rows, the column names until an empty name,
+     * then the values row by row.
+     *
+     * @param reader - The reader, at the start of the section.
+     * @param suffix - The suffix of the column names, e.g. `_` in `player_`, removed from the keys.
+     * @returns The rows.
+     */
+    private static parseTable(reader: BufferReader, suffix: string): Record<string, string>[] {
+        const rows: Record<string, string>[] = [];
+
+        // The section is missing if the server has nothing to report, e.g. no teams
+        if (reader.getOffset() >= reader.byteLength()) {
+            return rows;
+        }
+
+        const count = reader.readUint8();
+        const keys: string[] = [];
+
+        for (let key = reader.readString(); key !== ''; key = reader.readString()) {
+            keys.push(key.endsWith(suffix) ? key.substring(0, key.length - suffix.length) : key);
+        }
+
+        for (let i = 0; i < count; i++) {
+            const row: Record<string, string> = {};
+
+            for (const key of keys) {
+                row[key] = reader.readString();
+            }
+
+            rows.push(row);
+        }
+
+        return rows;
+    }
+}
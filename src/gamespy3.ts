@@ -0,0 +1,140 @@
+import ProtocolBase from './protocol-base';
+import { BufferReader } from './lib/buffer-reader';
+import { InvalidResponseError } from './errors';
+import type { GameSpyStatus } from './interfaces/gamespy.interface';
+import type { QueryOptions } from './interfaces/query.interface';
+
+const SESSION_ID = Buffer.from([0x04, 0x05, 0x06, 0x07]);
+const SPLITNUM = Buffer.from('splitnum\0');
+
+/**
+ * A class for querying servers using the GameSpy 3 protocol (e.g. Battlefield 2, Crysis).
+ * The response may be split over several packets numbered after a `splitnum` marker. A player or team column
+ * continuing in the next packet repeats its name, followed by the index of its first value in that packet.
+ *
+ * @example
+ * const gamespy3 = new GameSpy3({ host: '127.0.0.1', port: 29900 });
+ * const status = await gamespy3.getStatus();
+ * console.log(status.info.hostname, status.players);
+ */
+export default class GameSpy3 extends ProtocolBase {
+    public readonly fullName: string = 'GameSpy Protocol version 3';
+
+    /**
+     * Whether the server requires a challenge token before answering (GameSpy 4).
+     */
+    protected readonly challenge: boolean = false;
+
+    /**
+     * Retrieves the server keys, the players and the teams.
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the server status.
+     */
+    public getStatus(options: QueryOptions = {}): Promise<GameSpyStatus> {
+        const packets: Record<number, Buffer> = {};
+        let totalPackets = -1;
+
+        // Header, session id, then a flag each for the server keys, the players and the teams,
+        // and the flag announcing that we understand split responses
+        const request = (challenge: Buffer) => Buffer.concat([Buffer.from([0xFE, 0xFD, 0x00]), SESSION_ID, challenge, Buffer.from([0xFF, 0xFF, 0xFF, 0x01])]);
+
+        // Without challenge, the status is requested at once
+        const first = this.challenge ? Buffer.concat([Buffer.from([0xFE, 0xFD, 0x09]), SESSION_ID]) : request(Buffer.alloc(0));
+
+        return this.udp('status', first, (message, send) => {
+            if (!message.subarray(1, 5).equals(SESSION_ID)) {
+                throw new InvalidResponseError(this.details('status', message));
+            }
+
+            if (message[0] === 0x09 && this.challenge) {
+                // The challenge token is sent as a number string
+                const reader = new BufferReader(message, 5);
+                const token = Buffer.alloc(4);
+                token.writeInt32BE(Number(reader.readString()) | 0);
+                send(request(token));
+                return undefined;
+            }
+
+            if (message[0] !== 0x00 || !message.subarray(5, 5 + SPLITNUM.length).equals(SPLITNUM)) {
+                throw new InvalidResponseError(this.details('status', message));
+            }
+
+            // The highest bit marks the last packet
+            const numbers = message[5 + SPLITNUM.length];
+            const packetNumber = numbers & 0x7F;
+
+            if (numbers & 0x80) {
+                totalPackets = packetNumber + 1;
+            }
+
+            packets[packetNumber] = message.subarray(5 + SPLITNUM.length + 1);
+
+            if (this.debug) console.log("[DEBUG] Packet:", packetNumber, "of", totalPackets);
+
+            // Check if all packets have been received
+            if (totalPackets === -1 || Object.keys(packets).length < totalPackets) {
+                return undefined;
+            }
+
+            return GameSpy3.parseStatus(Object.keys(packets).map(Number).sort((a, b) => a - b).map((number) => packets[number]));
+        }, options);
+    }
+
+    /**
+     * Parses the packets of a status response. Each packet starts with the id of the section it continues:
+     * 0 for the server keys, 1 for the players and 2 for the teams.
+     *
+     * @param packets - The payloads of the packets, in order.
+     * @returns The server status.
+     */
+    private static parseStatus(packets: Buffer[]): GameSpyStatus {
+        const status: GameSpyStatus = { info: {}, players: [], teams: [] };
+
+        for (const packet of packets) {
+            const reader = new BufferReader(packet);
+            const hasMore = () => reader.getOffset() < reader.byteLength();
+            let section = reader.readUint8();
+
+            while (hasMore()) {
+                if (section === 0) {
+                    // Server keys, until an empty key
+                    const key = reader.readString();
+
+                    if (key === '') {
+                        if (hasMore()) section = reader.readUint8();
+                        continue;
+                    }
+
+                    status.info[key] = reader.readString();
+                } else {
+                    const rows: Record<string, string | undefined>[] = section === 1 ? status.players : status.teams;
+                    const suffix = section === 1 ? '_' : '_t';
+
+                    // Columns, until an empty name
+                    const key = reader.readString();
+
+                    if (key === '') {
+                        if (hasMore()) section = reader.readUint8();
+                        continue;
+                    }
+
+                    const name = key.endsWith(suffix) ? key.substring(0, key.length - suffix.length) : key;
+                    let index = hasMore() ? reader.readUint8() : 0;
+
+                    // Values, until an empty value or the end of the packet
+                    while (hasMore()) {
+                        const value = reader.readString();
+
+                        if (value === '') break;
+
+                        rows[index] = rows[index] || {};
+                        rows[index++][name] = value;
+                    }
+                }
+            }
+        }
+
+        return status;
+    }
+}
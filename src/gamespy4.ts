@@ -0,0 +1,15 @@
+import GameSpy3 from './gamespy3';
+
+/**
+ * A class for querying servers using the GameSpy 4 protocol (e.g. Crysis Wars, Minecraft Query).
+ * It is the GameSpy 3 protocol with a challenge token requested before the status.
+ *
+ * @example
+ * const gamespy4 = new GameSpy4({ host: '127.0.0.1', port: 64100 });
+ * const status = await gamespy4.getStatus();
+ * console.log(status.info.hostname, status.players);
+ */
+export default class GameSpy4 extends GameSpy3 {
+    public readonly fullName: string = 'GameSpy Protocol version 4';
+    protected readonly challenge: boolean = true;
+}
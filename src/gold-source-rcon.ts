@@ -0,0 +1,193 @@
+import { BufferReader } from './lib/buffer-reader';
+import { UdpEndpoint } from './lib/udp-endpoint';
+import { ChallengeError, InvalidResponseError, QueryTimeoutError, RconAuthenticationError, RconBannedError } from './errors';
+import type { GoldSourceRconParams } from './interfaces/gold-source-rcon.interface';
+
+/**
+ * A class for executing commands on GoldSource game servers (e.g., Half-Life, Counter-Strike 1.6)
+ * using the UDP "challenge rcon" protocol.
+ *
+ * @example
+ * const rcon = new GoldSourceRcon({ host: '127.0.0.1', port: 27015, password: 'password' });
+ * const status = await rcon.exec('status');
+ * console.log(status);
+ */
+export default class GoldSourceRcon {
+    private host: string;
+    private port: number;
+    private timeout: number;
+    private debug: boolean;
+    private password: string;
+    private idleTimeout: number;
+    private challenge?: string;
+
+    /**
+     * Creates a new GoldSource RCON client instance.
+     *
+     * @param params - A JSON object containing the configuration for the GoldSourceRcon instance.
+     * @param params.host - The IP address or hostname of the server.
+     * @param params.port - The port number of the server.
+     * @param params.password - The RCON password of the server.
+     * @param params.timeout - The timeout duration (in milliseconds) for each command. Default is 5000.
+     * @param params.debug - Enables debug logging if true. Default is false.
+     * @param params.idleTimeout - How long (in milliseconds) to wait for further output packets. Default is 100.
+     * @throws {@link RangeError} if the password contains a double quote, which the command line cannot escape.
+     */
+    constructor(params: GoldSourceRconParams) {
+        if (params.password.includes('"')) {
+            throw new RangeError('The RCON password cannot contain a double quote');
+        }
+
+        this.host = params.host;
+        this.port = params.port;
+        this.timeout = params.timeout ?? 5000;
+        this.debug = params.debug ?? false;
+        this.password = params.password;
+        this.idleTimeout = params.idleTimeout ?? 100;
+    }
+
+    /**
+     * Executes a command on the server and returns the full output.
+     *
+     * The server does not mark the end of the output, so the command completes once no output
+     * packet has arrived for `idleTimeout` milliseconds. A command that prints nothing never
+     * completes and rejects with a {@link QueryTimeoutError} once `timeout` elapses.
+     *
+     * @param command - The command to execute.
+     * @returns A promise that resolves with the command output.
+     * @throws {@link RconAuthenticationError} if the server answers "Bad rcon_password".
+     * @throws {@link RconBannedError} if the server has banned the client address.
+     * @throws {@link QueryTimeoutError} if the server does not answer, or the command prints nothing.
+     */
+    public exec(command: string): Promise<string> {
+        return new Promise((resolve, reject) => this.get(command, resolve, reject));
+    }
+
+    /**
+     * Performs the challenge handshake (unless a challenge is cached), sends the command and collects the output.
+     *
+     * @param command - The command to execute.
+     * @param resolve - The resolve function of the promise.
+     * @param reject - The reject function of the promise.
+     */
+    private get(command: string, resolve: (data: string) => void, reject: (err: Error) => void) {
+        const maxRetries = 2;
+        let retryCount = 0;
+        let packets: Record<number, Record<number, Buffer>> = {};
+        let output = '';
+        let idleTimeoutId: NodeJS.Timeout | undefined;
+        let closed = false;
+
+        const details = (data?: Buffer) => ({ host: this.host, port: this.port, requestType: 'rcon', data });
+
+        const finish = () => {
+            closed = true;
+            clearTimeout(timeoutId);
+            clearTimeout(idleTimeoutId);
+            packets = {};
+            endpoint.close();
+        }
+
+        const fail = (err: Error) => {
+            if (closed) return;
+            reject(err);
+            finish();
+        }
+
+        const timeoutId = setTimeout(() => fail(new QueryTimeoutError(details())), this.timeout);
+
+        const send = (text: string) => {
+            const request = Buffer.concat([Buffer.from([0xFF, 0xFF, 0xFF, 0xFF]), Buffer.from(text, 'utf-8')]);
+            if (this.debug) console.log("[DEBUG] Send:", request);
+            endpoint.send(request);
+        }
+
+        const sendCommand = () => {
+            if (this.challenge === undefined) {
+                send('challenge rcon\n');
+            } else {
+                send(`rcon ${this.challenge} "${this.password}" ${command}\n`);
+            }
+        }
+
+        const onPayload = (payload: Buffer) => {
+            if (closed) return;
+
+            const text = payload.toString('utf-8').replace(/\0+$/, '');
+
+            if (text.startsWith('challenge rcon ')) {
+                this.challenge = text.substring('challenge rcon '.length).trim();
+                sendCommand();
+                return;
+            }
+
+            // Console output is prefixed with A2C_PRINT ('l')
+            const message = text.startsWith('l') ? text.substring(1) : text;
+
+            if (message.startsWith('Bad rcon_password')) {
+                fail(new RconAuthenticationError(message.trim()));
+            } else if (message.startsWith('You have been banned')) {
+                fail(new RconBannedError(message.trim()));
+            } else if (message.startsWith('Bad challenge')) {
+                if (retryCount < maxRetries) {
+                    retryCount++;
+                    this.challenge = undefined;
+                    sendCommand();
+                } else {
+                    fail(new ChallengeError(details(payload)));
+                }
+            } else {
+                output += message;
+
+                // The output may continue in further packets, so wait until the server goes quiet.
+                clearTimeout(idleTimeoutId);
+                idleTimeoutId = setTimeout(() => {
+                    resolve(output);
+                    finish();
+                }, this.idleTimeout);
+            }
+        }
+
+        const onMessage = (message: Buffer) => {
+            if (this.debug) console.log("[DEBUG] Recv:", message);
+
+            if (message.length < 4 || (message.readInt32LE(0) === -2 && message.length < 9)) {
+                fail(new InvalidResponseError(details(message)));
+                return;
+            }
+
+            const reader = new BufferReader(message);
+            const header = reader.readInt32();
+
+            if (header === -1) { // Single-packet response
+                onPayload(message.subarray(4));
+            } else if (header === -2) { // Multi-packet response (GoldSource format)
+                const id = reader.readInt32();
+                const packetByte = reader.readUint8();
+                const packetNumber = (packetByte >> 4) & 0x0F;
+                const totalPackets = packetByte & 0x0F;
+
+                packets[id] = packets[id] || {};
+                packets[id][packetNumber] = message.subarray(9);
+
+                if (Object.keys(packets[id]).length === totalPackets) {
+                    const payload = Buffer.concat(
+                        Object.keys(packets[id])
+                            .sort((a, b) => Number(a) - Number(b))
+                            .map((key) => packets[id][Number(key)])
+                    );
+                    delete packets[id];
+
+                    // The reassembled payload starts with its own single-packet header
+                    onPayload(payload.subarray(4));
+                }
+            } else {
+                fail(new InvalidResponseError(details(message)));
+            }
+        }
+
+        const endpoint = new UdpEndpoint({ host: this.host, port: this.port }, { onMessage, onError: fail });
+
+        sendCommand();
+    }
+}
@@ -1,2 +1,70 @@
+export { default as ProtocolBase } from "./protocol-base";
+export { protocols, getProtocols, createProtocol, query, ProtocolName } from "./protocols";
+export { default as ASE } from "./ase";
+export { default as Battlefield } from "./battlefield";
+export { default as FiveM } from "./fivem";
+export { default as GameSpy1 } from "./gamespy1";
+export { default as GameSpy2 } from "./gamespy2";
+export { default as GameSpy3 } from "./gamespy3";
+export { default as GameSpy4 } from "./gamespy4";
+export { default as Minecraft } from "./minecraft";
+export { default as QuakeBase } from "./quake-base";
+export { default as Quake1 } from "./quake1";
+export { default as Quake2 } from "./quake2";
+export { default as Quake3 } from "./quake3";
+export { default as RakNet } from "./raknet";
 export { default as Source } from "./source";
-export { SourceParams, SourceServerInfo, SourcePlayerInfo } from "./interfaces/source.interface";
\ No newline at end of file
+export { default as SourceRcon } from "./source-rcon";
+export { default as TeamSpeak3 } from "./teamspeak3";
+export { default as Unreal2 } from "./unreal2";
+export { default as GoldSourceRcon } from "./gold-source-rcon";
+export { default as MasterServer } from "./master-server";
+export { default as SourceResponder } from "./source-responder";
+export { default as SourceScanner } from "./source-scanner";
+export { default as PacketRecorder } from "./packet-recorder";
+export { default as PacketReplay } from "./packet-replay";
+export { ProtocolParams, ResolvedAddress } from "./interfaces/protocol.interface";
+export { ASEStatus, ASEPlayer } from "./interfaces/ase.interface";
+export { BattlefieldParams, BattlefieldInfo, BattlefieldTeam, BattlefieldVersion, BattlefieldPlayer } from "./interfaces/battlefield.interface";
+export { FiveMStatus, FiveMInfo, FiveMServerVars, FiveMPlayer, FiveMDynamic } from "./interfaces/fivem.interface";
+export { GameSpyStatus, GameSpyPlayer, GameSpyTeam } from "./interfaces/gamespy.interface";
+export { MinecraftParams, MinecraftStatus, MinecraftChatComponent, MinecraftFullStat } from "./interfaces/minecraft.interface";
+export { QuakeParams, QuakeStatus, Quake1Player, Quake2Player } from "./interfaces/quake.interface";
+export { RakNetStatus } from "./interfaces/raknet.interface";
+export {
+    SourceParams,
+    SourceStringDecoder,
+    SourceServerInfo,
+    SourcePlayerInfo,
+    SourceAllResult,
+    SourceRequestTiming,
+    SourceTiming,
+    SourceQueryOptions,
+    SourceTimedResponse,
+    SourcePingOptions,
+    SourcePingResult,
+} from "./interfaces/source.interface";
+export { TeamSpeak3Params, TeamSpeak3ServerInfo, TeamSpeak3Client, TeamSpeak3Channel } from "./interfaces/teamspeak3.interface";
+export { Unreal2Params, Unreal2Details, Unreal2Rules, Unreal2Player } from "./interfaces/unreal2.interface";
+export { GoldSourceRconParams } from "./interfaces/gold-source-rcon.interface";
+export { QueryOptions } from "./interfaces/query.interface";
+export { SourceResponderParams } from "./interfaces/source-responder.interface";
+export { UdpTransport, UdpTransportFactory, UdpTransportHandlers, PacketCapture, CapturedPacket, PacketRecorderParams } from "./interfaces/transport.interface";
+export { SourceScannerParams, SourceScanTarget, SourceScanOptions, SourceScanResult } from "./interfaces/source-scanner.interface";
+export { MasterServerRegion, MasterServerFilter, MasterServerQueryOptions, MasterServerAddress } from "./interfaces/master-server.interface";
+export {
+    QueryError,
+    QueryErrorDetails,
+    QueryTimeoutError,
+    QueryAbortError,
+    ChallengeError,
+    InvalidResponseError,
+    ChecksumMismatchError,
+    DecompressionError,
+    ParseError,
+    ParseErrorLocation,
+    TeamSpeak3Error,
+    BattlefieldError,
+    RconAuthenticationError,
+    RconBannedError,
+} from "./errors";
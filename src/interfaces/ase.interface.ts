@@ -0,0 +1,94 @@
+/**
+ * Represents a player in an ASE response. Only the fields flagged by the server are present.
+ */
+export interface ASEPlayer {
+    /**
+     * The name of the player.
+     */
+    name?: string;
+
+    /**
+     * The team of the player.
+     */
+    team?: string;
+
+    /**
+     * The skin of the player.
+     */
+    skin?: string;
+
+    /**
+     * The score of the player.
+     */
+    score?: number;
+
+    /**
+     * The ping of the player in milliseconds.
+     */
+    ping?: number;
+
+    /**
+     * The time the player has been connected.
+     */
+    time?: number;
+}
+
+/**
+ * Represents the status returned by an All-Seeing Eye server.
+ */
+export interface ASEStatus {
+    /**
+     * The name of the game, e.g. `mta`.
+     */
+    gamename: string;
+
+    /**
+     * The game port of the server.
+     */
+    gameport: number;
+
+    /**
+     * The name of the server.
+     */
+    hostname: string;
+
+    /**
+     * The game type, e.g. `Freeroam`.
+     */
+    gametype: string;
+
+    /**
+     * The map name.
+     */
+    map: string;
+
+    /**
+     * The version of the server, e.g. `1.6`.
+     */
+    version: string;
+
+    /**
+     * Whether a password is required to join.
+     */
+    password: boolean;
+
+    /**
+     * The number of players.
+     */
+    numplayers: number;
+
+    /**
+     * The maximum number of players.
+     */
+    maxplayers: number;
+
+    /**
+     * The rules of the server, by name.
+     */
+    rules: Record<string, string>;
+
+    /**
+     * The players.
+     */
+    players: ASEPlayer[];
+}
@@ -0,0 +1,226 @@
+import type { ProtocolParams } from './protocol.interface';
+
+/**
+ * The configuration of a {@link Battlefield} instance.
+ */
+export interface BattlefieldParams extends ProtocolParams {
+    /**
+     * The RCON password, used to log in with `login.hashed` before the commands sent with `command()`.
+     * The status queries do not need it.
+     */
+    password?: string;
+}
+
+/**
+ * Represents the score of a team.
+ */
+export interface BattlefieldTeam {
+    /**
+     * The id of the team, starting at 1.
+     */
+    id: number;
+
+    /**
+     * The score of the team, e.g. the remaining tickets.
+     */
+    score: number;
+}
+
+/**
+ * Represents the server information returned by the `serverInfo` command.
+ * The fields after `roundTime` are missing on older servers.
+ */
+export interface BattlefieldInfo {
+    /**
+     * The name of the server.
+     */
+    hostname: string;
+
+    /**
+     * The number of players.
+     */
+    numPlayers: number;
+
+    /**
+     * The maximum number of players.
+     */
+    maxPlayers: number;
+
+    /**
+     * The game mode, e.g. `ConquestLarge0`.
+     */
+    gameMode: string;
+
+    /**
+     * The map, e.g. `MP_Prison`.
+     */
+    map: string;
+
+    /**
+     * The number of rounds played on the current map.
+     */
+    roundsPlayed: number;
+
+    /**
+     * The total number of rounds on the current map.
+     */
+    roundsTotal: number;
+
+    /**
+     * The teams with their scores.
+     */
+    teams: BattlefieldTeam[];
+
+    /**
+     * The score a team has to reach to win, or 0.
+     */
+    targetScore: number;
+
+    /**
+     * The online state of the server, usually empty.
+     */
+    onlineState: string;
+
+    /**
+     * Whether the server is ranked.
+     */
+    ranked: boolean;
+
+    /**
+     * Whether PunkBuster is enabled.
+     */
+    punkBuster: boolean;
+
+    /**
+     * Whether a password is required to join.
+     */
+    password: boolean;
+
+    /**
+     * The uptime of the server in seconds.
+     */
+    uptime: number;
+
+    /**
+     * The time the current round has been running in seconds.
+     */
+    roundTime: number;
+
+    /**
+     * The game address of the server, as `ip:port`.
+     */
+    gameIpAndPort?: string;
+
+    /**
+     * The version of PunkBuster.
+     */
+    punkBusterVersion?: string;
+
+    /**
+     * Whether the join queue is enabled.
+     */
+    joinQueueEnabled?: boolean;
+
+    /**
+     * The region of the server, e.g. `EU`.
+     */
+    region?: string;
+
+    /**
+     * The closest ping site of the server, e.g. `ams`.
+     */
+    closestPingSite?: string;
+
+    /**
+     * The country of the server, e.g. `NL`.
+     */
+    country?: string;
+
+    /**
+     * Whether matchmaking is enabled. Sent by Battlefield 3.
+     */
+    matchMakingEnabled?: boolean;
+
+    /**
+     * The number of players in the Blaze backend. Sent by Battlefield 4 and Hardline.
+     */
+    blazePlayerCount?: number;
+
+    /**
+     * The state of the game in the Blaze backend. Sent by Battlefield 4 and Hardline.
+     */
+    blazeGameState?: string;
+}
+
+/**
+ * Represents the game and version returned by the `version` command.
+ */
+export interface BattlefieldVersion {
+    /**
+     * The game, e.g. `BF3`, `BF4` or `BFHL`.
+     */
+    game: string;
+
+    /**
+     * The build number of the server.
+     */
+    version: string;
+}
+
+/**
+ * Represents a player returned by the `listPlayers` command.
+ * The fields follow the column header the server sends, so every column is included; the common ones are listed here.
+ */
+export interface BattlefieldPlayer {
+    [key: string]: string | number | undefined;
+
+    /**
+     * The name of the player.
+     */
+    name?: string;
+
+    /**
+     * The EA GUID of the player, empty unless logged in.
+     */
+    guid?: string;
+
+    /**
+     * The team id of the player, 0 for spectators.
+     */
+    teamId?: number;
+
+    /**
+     * The squad id of the player, 0 when not in a squad.
+     */
+    squadId?: number;
+
+    /**
+     * The kills of the player.
+     */
+    kills?: number;
+
+    /**
+     * The deaths of the player.
+     */
+    deaths?: number;
+
+    /**
+     * The score of the player.
+     */
+    score?: number;
+
+    /**
+     * The rank of the player.
+     */
+    rank?: number;
+
+    /**
+     * The ping of the player in milliseconds.
+     */
+    ping?: number;
+
+    /**
+     * The type of the player (0 player, 1 spectator, 2 and 3 commanders). Sent by Battlefield 4 and Hardline.
+     */
+    type?: number;
+}
@@ -0,0 +1,195 @@
+/**
+ * Represents the server variables in `/info.json`. Servers add their own, so every variable is included;
+ * the most common ones are listed here.
+ */
+export interface FiveMServerVars {
+    [key: string]: string | undefined;
+
+    /**
+     * The project name shown in the server list, possibly with `^0`-`^9` color codes.
+     */
+    sv_projectName?: string;
+
+    /**
+     * The project description shown in the server list.
+     */
+    sv_projectDesc?: string;
+
+    /**
+     * The maximum number of clients, as a string.
+     */
+    sv_maxClients?: string;
+
+    /**
+     * The game build the server enforces, e.g. `2802`.
+     */
+    sv_enforceGameBuild?: string;
+
+    /**
+     * The game, `gta5` for FiveM or `rdr3` for RedM.
+     */
+    gamename?: string;
+
+    /**
+     * The comma separated tags of the server.
+     */
+    tags?: string;
+
+    /**
+     * The locale of the server, e.g. `en-US`.
+     */
+    locale?: string;
+
+    /**
+     * Whether OneSync is enabled, `true` or `false`.
+     */
+    onesync_enabled?: string;
+}
+
+/**
+ * Represents the server information returned by `/info.json`.
+ */
+export interface FiveMInfo {
+    [key: string]: unknown;
+
+    /**
+     * The server build, e.g. `FXServer-master SERVER v1.0.0.7290 win32`.
+     */
+    server: string;
+
+    /**
+     * The started resources.
+     */
+    resources: string[];
+
+    /**
+     * The server variables.
+     */
+    vars: FiveMServerVars;
+
+    /**
+     * The version of the server data, which changes when the resources change.
+     */
+    version: number;
+
+    /**
+     * The server icon as a base64 encoded PNG, if the server has one.
+     */
+    icon?: string;
+
+    /**
+     * Whether the server supports enhanced host features.
+     */
+    enhancedHostSupport?: boolean;
+
+    /**
+     * Whether the server requests a Steam ticket from the clients.
+     */
+    requestSteamTicket?: string;
+}
+
+/**
+ * Represents a player returned by `/players.json`.
+ */
+export interface FiveMPlayer {
+    /**
+     * The server id of the player.
+     */
+    id: number;
+
+    /**
+     * The name of the player.
+     */
+    name: string;
+
+    /**
+     * The identifiers of the player, e.g. `license:...`, `steam:...` or `discord:...`.
+     * Servers may hide them, in which case the list is empty.
+     */
+    identifiers: string[];
+
+    /**
+     * The ping of the player in milliseconds.
+     */
+    ping: number;
+
+    /**
+     * The address of the player, usually hidden as `127.0.0.1`.
+     */
+    endpoint: string;
+}
+
+/**
+ * Represents the live server data returned by `/dynamic.json`.
+ */
+export interface FiveMDynamic {
+    /**
+     * The name of the server, possibly with `^0`-`^9` color codes.
+     */
+    hostname: string;
+
+    /**
+     * The number of connected clients.
+     */
+    clients: number;
+
+    /**
+     * The maximum number of clients, as a string.
+     */
+    sv_maxclients: string;
+
+    /**
+     * The game type, e.g. `Roleplay`.
+     */
+    gametype: string;
+
+    /**
+     * The map name.
+     */
+    mapname: string;
+
+    /**
+     * The initialization vector of the server.
+     */
+    iv?: string;
+}
+
+/**
+ * Represents the status of a FiveM or RedM server, combined from the three endpoints.
+ */
+export interface FiveMStatus {
+    /**
+     * The name of the server, possibly with `^0`-`^9` color codes.
+     */
+    hostname: string;
+
+    /**
+     * The number of connected clients.
+     */
+    clients: number;
+
+    /**
+     * The maximum number of clients.
+     */
+    maxClients: number;
+
+    /**
+     * The game type, e.g. `Roleplay`.
+     */
+    gametype: string;
+
+    /**
+     * The map name.
+     */
+    mapname: string;
+
+    /**
+     * The server information.
+     */
+    info: FiveMInfo;
+
+    /**
+     * The connected players.
+     */
+    players: FiveMPlayer[];
+}
@@ -0,0 +1,72 @@
+/**
+ * Represents a player returned by the GameSpy protocols.
+ * The keys depend on the game. The index suffix of the raw keys is removed, e.g. `player_0` (GameSpy 1)
+ * and `player_` (GameSpy 2 and 3) both become `player`.
+ */
+export interface GameSpyPlayer {
+    [key: string]: string | undefined;
+
+    /**
+     * The name of the player (most games).
+     */
+    player?: string;
+
+    /**
+     * The score of the player.
+     */
+    score?: string;
+
+    /**
+     * The frags of the player (GameSpy 1 games).
+     */
+    frags?: string;
+
+    /**
+     * The ping of the player.
+     */
+    ping?: string;
+
+    /**
+     * The team of the player.
+     */
+    team?: string;
+}
+
+/**
+ * Represents a team returned by the GameSpy protocols.
+ * The keys depend on the game. The team suffix of the raw keys is removed, e.g. `team_t0` (GameSpy 1)
+ * and `team_t` (GameSpy 2 and 3) both become `team`.
+ */
+export interface GameSpyTeam {
+    [key: string]: string | undefined;
+
+    /**
+     * The name of the team.
+     */
+    team?: string;
+
+    /**
+     * The score of the team.
+     */
+    score?: string;
+}
+
+/**
+ * Represents the status of a GameSpy server: the server keys, the players and the teams.
+ */
+export interface GameSpyStatus {
+    /**
+     * The server keys, e.g. `hostname`, `mapname`, `numplayers` and `maxplayers`.
+     */
+    info: Record<string, string>;
+
+    /**
+     * The players on the server.
+     */
+    players: GameSpyPlayer[];
+
+    /**
+     * The teams, if the game has any.
+     */
+    teams: GameSpyTeam[];
+}
@@ -0,0 +1,18 @@
+import type { SourceParams } from './source.interface';
+
+export interface GoldSourceRconParams extends SourceParams {
+    /**
+     * The RCON password of the server (`rcon_password`).
+     * It cannot contain a double quote, since the command line sent to the server quotes it without escaping.
+     * This is a required property.
+     */
+    password: string;
+
+    /**
+     * How long (in milliseconds) to wait for further output packets after the last one was received.
+     * Long outputs such as `status` or `cvarlist` may be sent as several separate packets,
+     * so raise it for slow links where the packets arrive further apart.
+     * If not provided, the default value is 100.
+     */
+    idleTimeout?: number;
+}
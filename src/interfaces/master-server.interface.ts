@@ -0,0 +1,67 @@
+/**
+ * Region codes understood by the Valve master server.
+ */
+export enum MasterServerRegion {
+    USEastCoast = 0x00,
+    USWestCoast = 0x01,
+    SouthAmerica = 0x02,
+    Europe = 0x03,
+    Asia = 0x04,
+    Australia = 0x05,
+    MiddleEast = 0x06,
+    Africa = 0x07,
+    All = 0xFF,
+}
+
+/**
+ * A server list filter, serialized to the Valve filter-string syntax.
+ *
+ * @example
+ * // Serializes to \appid\730\dedicated\1\nor\1\map\de_dust2
+ * const filter: MasterServerFilter = { appid: 730, dedicated: true, nor: { map: 'de_dust2' } };
+ */
+export interface MasterServerFilter {
+    [key: string]: string | number | boolean | MasterServerFilter | undefined;
+
+    /**
+     * Servers matching any of the nested conditions are not returned.
+     */
+    nor?: MasterServerFilter;
+
+    /**
+     * Servers matching all of the nested conditions are not returned.
+     */
+    nand?: MasterServerFilter;
+}
+
+/**
+ * Options for retrieving the server list.
+ */
+export interface MasterServerQueryOptions {
+    /**
+     * The filter, either as a raw filter string (e.g. `\appid\730\dedicated\1`) or as an object.
+     * If not provided, every server is returned.
+     */
+    filter?: string | MasterServerFilter;
+
+    /**
+     * The region to list servers from.
+     * If not provided, the default value is `MasterServerRegion.All`.
+     */
+    region?: MasterServerRegion;
+}
+
+/**
+ * Represents a server address returned by the master server.
+ */
+export interface MasterServerAddress {
+    /**
+     * The IP address of the server.
+     */
+    host: string;
+
+    /**
+     * The query port of the server.
+     */
+    port: number;
+}
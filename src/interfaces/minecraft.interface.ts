@@ -0,0 +1,124 @@
+import type { ProtocolParams } from './protocol.interface';
+
+/**
+ * The configuration of a {@link Minecraft} instance.
+ */
+export interface MinecraftParams extends ProtocolParams {
+    /**
+     * The UDP port of the Query protocol (`query.port` in `server.properties`), used by `getFullStat()`.
+     * If not provided, the default value is the server port.
+     */
+    queryPort?: number;
+}
+
+/**
+ * Represents a chat component, the JSON text format Minecraft uses for the MOTD.
+ */
+export interface MinecraftChatComponent {
+    [key: string]: unknown;
+
+    /**
+     * The text of the component.
+     */
+    text?: string;
+
+    /**
+     * The translation key, if the text is translated by the client.
+     */
+    translate?: string;
+
+    /**
+     * The child components, appended to the text.
+     */
+    extra?: (MinecraftChatComponent | string)[];
+
+    /**
+     * The color of the text, e.g. `gold`.
+     */
+    color?: string;
+}
+
+/**
+ * Represents the server status returned by the Server List Ping.
+ */
+export interface MinecraftStatus {
+    /**
+     * Other fields sent by the server, e.g. `forgeData` on modded servers.
+     */
+    [key: string]: unknown;
+
+    /**
+     * The version of the server.
+     */
+    version: {
+        /**
+         * The version name, e.g. `1.20.4` or `Paper 1.20.4`.
+         */
+        name: string;
+
+        /**
+         * The protocol number of the version.
+         */
+        protocol: number;
+    };
+
+    /**
+     * The player counts and a sample of the players.
+     */
+    players: {
+        /**
+         * The maximum number of players.
+         */
+        max: number;
+
+        /**
+         * The number of online players.
+         */
+        online: number;
+
+        /**
+         * Some of the online players, if the server shares them.
+         */
+        sample?: { name: string; id: string }[];
+    };
+
+    /**
+     * The MOTD, as a chat component or as a string with `§` formatting codes.
+     */
+    description: MinecraftChatComponent | string;
+
+    /**
+     * The MOTD flattened to plain text, without formatting codes.
+     */
+    motd: string;
+
+    /**
+     * The server icon as a `data:image/png;base64,` URI, if the server has one.
+     */
+    favicon?: string;
+}
+
+/**
+ * Represents the server status returned by the Query protocol (full stat).
+ */
+export interface MinecraftFullStat {
+    /**
+     * The server keys, e.g. `hostname`, `version`, `map`, `numplayers` and `maxplayers`.
+     */
+    info: Record<string, string>;
+
+    /**
+     * The server software, e.g. `CraftBukkit on Bukkit 1.20.4`, if the server reports plugins.
+     */
+    software?: string;
+
+    /**
+     * The plugins with their versions, e.g. `WorldEdit 7.2.15`.
+     */
+    plugins: string[];
+
+    /**
+     * The names of every online player.
+     */
+    players: string[];
+}
@@ -0,0 +1,61 @@
+/**
+ * The configuration shared by every protocol.
+ */
+export interface ProtocolParams {
+    /**
+     * The IP address or hostname of the server.
+     * This is a required property.
+     */
+    host: string;
+
+    /**
+     * The port number of the server.
+     * This is a required property.
+     */
+    port: number;
+
+    /**
+     * The timeout duration (in milliseconds) for server queries.
+     * If not provided, the default value is 5000.
+     */
+    timeout?: number;
+
+    /**
+     * Enables debug logging if set to `true`.
+     * If not provided, the default value is `false`.
+     */
+    debug?: boolean;
+
+    /**
+     * Looks up the DNS SRV record of the host first, so a bare domain maps to the real host and port.
+     * Set to `true` to use the service of the protocol (e.g. `_minecraft._tcp` for Minecraft),
+     * or to the name of a service (e.g. `_ts3._udp`). If there is no record, the host and port are used as they are.
+     * If not provided, the default value is `false`.
+     */
+    srv?: boolean | string;
+}
+
+/**
+ * The address of a server after the DNS SRV and address lookups.
+ */
+export interface ResolvedAddress {
+    /**
+     * The host queried: the configured one, or the target of its DNS SRV record.
+     */
+    host: string;
+
+    /**
+     * The port queried: the configured one, or the port of the DNS SRV record.
+     */
+    port: number;
+
+    /**
+     * The IP address that answered.
+     */
+    address: string;
+
+    /**
+     * The family of the IP address, 4 or 6.
+     */
+    family: number;
+}
@@ -0,0 +1,98 @@
+import type { ProtocolParams } from './protocol.interface';
+
+/**
+ * The configuration of a {@link Quake1}, {@link Quake2} or {@link Quake3} instance.
+ */
+export interface QuakeParams extends ProtocolParams {
+    /**
+     * Strips the color codes (e.g. `^1Name`) from the info values and the player names.
+     * Set to `false` to keep the raw text.
+     * If not provided, the default value is `true`.
+     */
+    stripColors?: boolean;
+}
+
+/**
+ * Represents a player returned by the Quake 1 (QuakeWorld) `status` command.
+ */
+export interface Quake1Player {
+    /**
+     * The user id of the player.
+     */
+    id: number;
+
+    /**
+     * The score (frags) of the player.
+     */
+    score: number;
+
+    /**
+     * The time (in minutes) the player has been connected.
+     */
+    time: number;
+
+    /**
+     * The ping of the player.
+     */
+    ping: number;
+
+    /**
+     * The name of the player.
+     */
+    name: string;
+
+    /**
+     * The skin of the player.
+     */
+    skin: string;
+
+    /**
+     * The top color of the player.
+     */
+    color1: number;
+
+    /**
+     * The bottom color of the player.
+     */
+    color2: number;
+}
+
+/**
+ * Represents a player returned by the Quake 2 `status` and the Quake 3 `getstatus` commands.
+ */
+export interface Quake2Player {
+    /**
+     * The score (frags) of the player.
+     */
+    score: number;
+
+    /**
+     * The ping of the player. Bots usually have a ping of 0.
+     */
+    ping: number;
+
+    /**
+     * The name of the player.
+     */
+    name: string;
+
+    /**
+     * The address of the player, if the server includes it.
+     */
+    address?: string;
+}
+
+/**
+ * Represents the status of a Quake server: the server info keys and the players.
+ */
+export interface QuakeStatus<TPlayer> {
+    /**
+     * The server info keys, e.g. `hostname`, `mapname` and `sv_maxclients`.
+     */
+    info: Record<string, string>;
+
+    /**
+     * The players on the server.
+     */
+    players: TPlayer[];
+}
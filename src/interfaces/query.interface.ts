@@ -0,0 +1,16 @@
+import type { ResolvedAddress } from './protocol.interface';
+
+/**
+ * Options accepted by every query method.
+ */
+export interface QueryOptions {
+    /**
+     * Aborts the query when signalled: the socket is closed at once and the query rejects with a `QueryAbortError`.
+     */
+    signal?: AbortSignal;
+
+    /**
+     * Receives the address of the server that answered the query, after the DNS SRV and address lookups.
+     */
+    onAddress?: (address: ResolvedAddress) => void;
+}
@@ -0,0 +1,76 @@
+/**
+ * Represents the status returned by a RakNet server in its Unconnected Pong.
+ * The fields after `serverGuid` are parsed from the semicolon-delimited MOTD of Minecraft: Bedrock Edition,
+ * and may be missing for other RakNet games.
+ */
+export interface RakNetStatus {
+    /**
+     * The edition of the game, e.g. `MCPE` (Bedrock Edition) or `MCEE` (Education Edition).
+     */
+    edition: string;
+
+    /**
+     * The first line of the MOTD.
+     */
+    motd: string;
+
+    /**
+     * The protocol number of the server version.
+     */
+    protocol: number;
+
+    /**
+     * The version name, e.g. `1.20.50`.
+     */
+    version: string;
+
+    /**
+     * The number of online players.
+     */
+    players: number;
+
+    /**
+     * The maximum number of players.
+     */
+    maxPlayers: number;
+
+    /**
+     * The unique id of the server, as reported in the MOTD.
+     */
+    serverGuid: string;
+
+    /**
+     * The name of the world, shown as the second line of the MOTD.
+     */
+    levelName?: string;
+
+    /**
+     * The game mode, e.g. `Survival`.
+     */
+    gamemode?: string;
+
+    /**
+     * The numeric game mode, e.g. `1` for Survival.
+     */
+    gamemodeId?: number;
+
+    /**
+     * The IPv4 port of the server.
+     */
+    portIPv4?: number;
+
+    /**
+     * The IPv6 port of the server.
+     */
+    portIPv6?: number;
+
+    /**
+     * The raw server id string of the Unconnected Pong, e.g. `MCPE;Dedicated Server;...`.
+     */
+    raw: string;
+
+    /**
+     * The round-trip time (in milliseconds) between the Unconnected Ping and the Unconnected Pong.
+     */
+    latency: number;
+}
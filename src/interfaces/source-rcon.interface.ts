@@ -0,0 +1,22 @@
+/**
+ * Represents a single packet of the Source RCON protocol.
+ */
+export interface SourceRconPacket {
+    /**
+     * Client-chosen identifier used to match responses with requests.
+     */
+    id: number;
+
+    /**
+     * Type of the packet:
+     * - 0 for SERVERDATA_RESPONSE_VALUE
+     * - 2 for SERVERDATA_EXECCOMMAND or SERVERDATA_AUTH_RESPONSE
+     * - 3 for SERVERDATA_AUTH
+     */
+    type: number;
+
+    /**
+     * The null-terminated body of the packet.
+     */
+    body: string;
+}
@@ -0,0 +1,79 @@
+import type { SourcePlayerInfo, SourceServerInfo } from './source.interface';
+
+export interface SourceResponderParams {
+    /**
+     * The local address to listen on.
+     * If not provided, the default value is `0.0.0.0`.
+     */
+    host?: string;
+
+    /**
+     * The local port to listen on. Use 0 to let the operating system pick a free port.
+     * This is a required property.
+     */
+    port: number;
+
+    /**
+     * The server information returned for A2S_INFO queries.
+     * This is a required property.
+     */
+    info: SourceServerInfo;
+
+    /**
+     * The players returned for A2S_PLAYER queries.
+     * If not provided, the default value is an empty list.
+     */
+    players?: SourcePlayerInfo[];
+
+    /**
+     * The rules returned for A2S_RULES queries.
+     * If not provided, the default value is an empty map.
+     */
+    rules?: Record<string, string>;
+
+    /**
+     * Whether clients must echo a challenge number before queries are answered.
+     * If not provided, the default value is `true`.
+     */
+    challenge?: boolean;
+
+    /**
+     * Answers A2S_INFO with the Obsolete GoldSource response (0x6D) instead of the Source response (0x49).
+     * If not provided, the default value is `false`.
+     */
+    obsoleteInfo?: boolean;
+
+    /**
+     * Splits oversized responses with the GoldSource multi-packet format instead of the Source one.
+     * If not provided, the default value is `false`.
+     */
+    goldSource?: boolean;
+
+    /**
+     * Includes the maximum packet size field in Source multi-packet headers, as Orange Box engines and above do.
+     * If not provided, the default value is `true`.
+     */
+    orangeBox?: boolean;
+
+    /**
+     * Compresses Source multi-packet responses with the given bzip2 compressor and includes their CRC32 checksum.
+     * No compressor is bundled, so pass the one of a bzip2 library.
+     * If not provided, the responses are not compressed.
+     */
+    compress?: (data: Buffer) => Buffer;
+
+    /**
+     * The maximum size (in bytes) of a datagram before a response is split into multiple packets.
+     * A Source response is split into at most 255 packets, and a GoldSource one into at most 15,
+     * so larger responses get larger packets.
+     * It must be greater than 20, the size of the largest multi-packet header.
+     * If not provided, the default value is 1400.
+     */
+    maxPacketSize?: number;
+
+    /**
+     * Enables debug logging if set to `true`.
+     * If not provided, the default value is `false`.
+     */
+    debug?: boolean;
+}
@@ -0,0 +1,79 @@
+import type { QueryOptions } from './query.interface';
+import type { SourceAllResult } from './source.interface';
+
+/**
+ * Configuration of a {@link SourceScanner}.
+ */
+export interface SourceScannerParams {
+    /**
+     * The timeout duration (in milliseconds) of each request to a server.
+     * If not provided, the default value is 5000.
+     */
+    timeout?: number;
+
+    /**
+     * Enables debug logging if true.
+     * If not provided, the default value is false.
+     */
+    debug?: boolean;
+
+    /**
+     * The number of UDP sockets the requests are spread over.
+     * If not provided, the default value is 1.
+     */
+    sockets?: number;
+
+    /**
+     * The number of servers queried at the same time.
+     * If not provided, the default value is 100.
+     */
+    concurrency?: number;
+
+    /**
+     * The maximum number of packets sent per second, or 0 for no limit.
+     * If not provided, the default value is 0.
+     */
+    packetsPerSecond?: number;
+}
+
+/**
+ * The address of a server to scan.
+ */
+export interface SourceScanTarget {
+    /**
+     * The IP address or hostname of the server.
+     */
+    host: string;
+
+    /**
+     * The port number of the server.
+     */
+    port: number;
+}
+
+/**
+ * Options for scanning a list of servers. The address of each server is returned in its result as `address`.
+ */
+export interface SourceScanOptions extends Omit<QueryOptions, 'onAddress'> {
+    /**
+     * The requests sent to each server.
+     * If not provided, the default value is `['info']`.
+     */
+    requests?: ('info' | 'players' | 'rules')[];
+}
+
+/**
+ * The result of scanning one server: the responses to the requests that succeeded
+ * and the errors of the requests that failed.
+ */
+export interface SourceScanResult extends SourceAllResult {
+    /**
+     * The host of the server, as given in the server list.
+     */
+    host: string;
+
+    /**
+     * The port number of the server.
+     */
+    port: number;
+}
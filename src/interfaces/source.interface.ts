@@ -1,29 +1,51 @@
-export interface SourceParams {
+import type { ProtocolParams, ResolvedAddress } from './protocol.interface';
+import type { QueryOptions } from './query.interface';
+import type { UdpTransportFactory } from './transport.interface';
+
+/**
+ * The configuration of a {@link Source} instance.
+ */
+export interface SourceParams extends ProtocolParams {
     /**
-     * The IP address or hostname of the server.
-     * This is a required property.
+     * Keeps one socket open for every query of the instance, so the challenge number is reused across queries.
+     * Call `close()` once the instance is no longer needed.
+     * If not provided, the default value is `false`.
      */
-    host: string;
+    keepAlive?: boolean;
 
     /**
-     * The port number of the server.
-     * This is a required property.
+     * The encoding of the strings in the responses: server name, map, player names, rules and so on.
+     * - `'utf-8'` decodes every string as UTF-8.
+     * - `'auto'` decodes a string as UTF-8 if it is valid UTF-8, and with `fallbackEncoding` otherwise.
+     * - Any other label of the WHATWG Encoding Standard, e.g. `'windows-1251'` or `'gbk'`, decodes every string with it.
+     * - A function receives the raw bytes of each string, to decode them yourself or keep them as they are.
+     *
+     * If not provided, the default value is `'utf-8'`.
      */
-    port: number;
+    encoding?: string | SourceStringDecoder;
 
     /**
-     * The timeout duration (in milliseconds) for server queries.
-     * If not provided, the default value is 5000.
+     * The encoding used by `encoding: 'auto'` for the strings that are not valid UTF-8, e.g. `'windows-1251'` or `'gbk'`.
+     * If not provided, the default value is `'windows-1252'`.
      */
-    timeout?: number;
+    fallbackEncoding?: string;
 
     /**
-     * Enables debug logging if set to `true`.
-     * If not provided, the default value is `false`.
+     * Creates the UDP transport of the queries, e.g. the one of a `PacketRecorder` or a `PacketReplay`.
+     * If not provided, the queries use a UDP socket.
      */
-    debug?: boolean;
+    transport?: UdpTransportFactory;
 }
 
+/**
+ * Decodes the raw bytes of a string field of a response, without the null terminator.
+ *
+ * @param bytes - The raw bytes of the string.
+ * @param field - The name of the field, e.g. `name`, `players[0].name`, `rules[3].key` or `rules[sv_gravity]` for the value of a rule.
+ * @returns The decoded string.
+ */
+export type SourceStringDecoder = (bytes: Buffer, field: string) => string;
+
 /**
  * Represents the server information returned by the A2S_INFO query.
  * This interface supports both Source Engine and Obsolete GoldSource responses.
@@ -221,4 +243,184 @@ export interface SourcePlayerInfo {
      * Amount of money (The Ship only).
      */
     money?: number;
-}
\ No newline at end of file
+}
+
+/**
+ * Represents the combined result of the A2S_INFO, A2S_PLAYER and A2S_RULES queries.
+ * A field is missing if its request failed, in which case the error is reported in `errors`.
+ */
+export interface SourceAllResult {
+    /**
+     * The server information.
+     */
+    info?: SourceServerInfo;
+
+    /**
+     * The player information.
+     */
+    players?: SourcePlayerInfo[];
+
+    /**
+     * The server rules.
+     */
+    rules?: Record<string, string>;
+
+    /**
+     * The address of the server that answered, after the DNS SRV and address lookups.
+     */
+    address?: ResolvedAddress;
+
+    /**
+     * The latency of each request that succeeded, if the `timing` query option is enabled.
+     */
+    timing?: SourceTiming;
+
+    /**
+     * The errors of the requests that failed, e.g. a timeout of A2S_RULES on servers with rules disabled.
+     */
+    errors: {
+        info?: Error;
+        players?: Error;
+        rules?: Error;
+    };
+}
+
+/**
+ * The latency and traffic of one A2S request.
+ */
+export interface SourceRequestTiming {
+    /**
+     * The round trip (in milliseconds) of the challenge handshake, from the first send of the request to the challenge response.
+     * Undefined if the server did not ask for a challenge, e.g. because a cached one was used.
+     */
+    challengeRtt?: number;
+
+    /**
+     * The round trip (in milliseconds) of the data, from the last send of the request to its complete response.
+     */
+    dataRtt: number;
+
+    /**
+     * The time (in milliseconds) from the first send of the request to its complete response.
+     */
+    total: number;
+
+    /**
+     * The number of datagrams received for the request, including the challenge responses.
+     */
+    packets: number;
+
+    /**
+     * The number of times the request was sent again because the server rejected its challenge.
+     */
+    retries: number;
+
+    /**
+     * The number of bytes received for the request, including the challenge responses.
+     */
+    bytes: number;
+}
+
+/**
+ * The latency of the requests of `getAll()`, by request.
+ */
+export interface SourceTiming {
+    info?: SourceRequestTiming;
+    players?: SourceRequestTiming;
+    rules?: SourceRequestTiming;
+}
+
+/**
+ * Options of the Source query methods.
+ */
+export interface SourceQueryOptions extends QueryOptions {
+    /**
+     * Measures the latency of the query. `getInfo()`, `getPlayers()` and `getRules()` then resolve with
+     * `{ value, timing, address }`, and `getAll()` with its result including `timing`.
+     * If not provided, the default value is `false`.
+     */
+    timing?: boolean;
+}
+
+/**
+ * The result of a Source query with the `timing` option enabled.
+ */
+export interface SourceTimedResponse<T> {
+    /**
+     * The result of the query.
+     */
+    value: T;
+
+    /**
+     * The latency of the query.
+     */
+    timing: SourceRequestTiming;
+
+    /**
+     * The address of the server that answered, or undefined if none did.
+     */
+    address?: ResolvedAddress;
+}
+
+/**
+ * Options of `getPing()`.
+ */
+export interface SourcePingOptions extends QueryOptions {
+    /**
+     * The number of probes to send.
+     * If not provided, the default value is 4.
+     */
+    count?: number;
+
+    /**
+     * The time (in milliseconds) to wait between the answer or loss of a probe and the next probe.
+     * If not provided, the default value is 0.
+     */
+    interval?: number;
+}
+
+/**
+ * The round-trip statistics of `getPing()`. The round trips do not include the challenge handshake.
+ * The statistics are undefined if every probe was lost.
+ */
+export interface SourcePingResult {
+    /**
+     * The number of probes sent.
+     */
+    sent: number;
+
+    /**
+     * The number of probes answered before the timeout.
+     */
+    received: number;
+
+    /**
+     * The share of probes lost, from 0 to 1.
+     */
+    loss: number;
+
+    /**
+     * The shortest round trip (in milliseconds).
+     */
+    min?: number;
+
+    /**
+     * The average round trip (in milliseconds).
+     */
+    avg?: number;
+
+    /**
+     * The longest round trip (in milliseconds).
+     */
+    max?: number;
+
+    /**
+     * The mean difference (in milliseconds) between the round trips of consecutive answered probes.
+     */
+    jitter?: number;
+
+    /**
+     * The round trip (in milliseconds) of each answered probe, in order.
+     */
+    rtts: number[];
+}
@@ -0,0 +1,154 @@
+import type { ProtocolParams } from './protocol.interface';
+
+/**
+ * The configuration of a {@link TeamSpeak3} instance.
+ */
+export interface TeamSpeak3Params extends ProtocolParams {
+    /**
+     * The voice port of the virtual server to select.
+     * If not provided, the port of the `_ts3._udp` DNS SRV record is used when the `srv` option is enabled, otherwise 9987.
+     */
+    voicePort?: number;
+
+    /**
+     * The ServerQuery login name. If not provided, the queries run as guest.
+     */
+    username?: string;
+
+    /**
+     * The ServerQuery password.
+     */
+    password?: string;
+}
+
+/**
+ * Represents the virtual server information returned by the `serverinfo` command.
+ * Every property of the response is included; the most common ones are listed here.
+ */
+export interface TeamSpeak3ServerInfo {
+    [key: string]: string | number | undefined;
+
+    /**
+     * The id of the virtual server.
+     */
+    virtualserver_id: number;
+
+    /**
+     * The name of the virtual server.
+     */
+    virtualserver_name: string;
+
+    /**
+     * The voice port of the virtual server.
+     */
+    virtualserver_port: number;
+
+    /**
+     * The platform the server runs on, e.g. `Linux`.
+     */
+    virtualserver_platform: string;
+
+    /**
+     * The server version, e.g. `3.13.7 [Build: 1655727713]`.
+     */
+    virtualserver_version: string;
+
+    /**
+     * The number of connected clients, including ServerQuery clients.
+     */
+    virtualserver_clientsonline: number;
+
+    /**
+     * The number of connected ServerQuery clients.
+     */
+    virtualserver_queryclientsonline: number;
+
+    /**
+     * The maximum number of clients.
+     */
+    virtualserver_maxclients: number;
+
+    /**
+     * The number of channels.
+     */
+    virtualserver_channelsonline: number;
+
+    /**
+     * The uptime (in seconds) of the virtual server.
+     */
+    virtualserver_uptime: number;
+
+    /**
+     * The welcome message of the virtual server.
+     */
+    virtualserver_welcomemessage?: string;
+}
+
+/**
+ * Represents a client returned by the `clientlist` command.
+ */
+export interface TeamSpeak3Client {
+    [key: string]: string | number | undefined;
+
+    /**
+     * The id of the client connection.
+     */
+    clid: number;
+
+    /**
+     * The id of the channel the client is in.
+     */
+    cid: number;
+
+    /**
+     * The database id of the client.
+     */
+    client_database_id: number;
+
+    /**
+     * The nickname of the client.
+     */
+    client_nickname: string;
+
+    /**
+     * The type of the client: 0 for a voice client, 1 for a ServerQuery client.
+     */
+    client_type: number;
+}
+
+/**
+ * Represents a channel returned by the `channellist` command.
+ */
+export interface TeamSpeak3Channel {
+    [key: string]: string | number | undefined;
+
+    /**
+     * The id of the channel.
+     */
+    cid: number;
+
+    /**
+     * The id of the parent channel, or 0 for a top-level channel.
+     */
+    pid: number;
+
+    /**
+     * The id of the channel this channel is sorted after.
+     */
+    channel_order: number;
+
+    /**
+     * The name of the channel.
+     */
+    channel_name: string;
+
+    /**
+     * The number of clients in the channel.
+     */
+    total_clients: number;
+
+    /**
+     * The subscribe power needed to see the clients of the channel.
+     */
+    channel_needed_subscribe_power: number;
+}
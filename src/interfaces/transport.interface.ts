@@ -0,0 +1,106 @@
+/**
+ * Receives what arrives on a {@link UdpTransport}.
+ */
+export interface UdpTransportHandlers {
+    /**
+     * Receives each datagram from the server.
+     */
+    onMessage: (message: Buffer) => void;
+
+    /**
+     * Receives the error that made the transport unusable, e.g. a failed lookup.
+     */
+    onError: (err: Error) => void;
+}
+
+/**
+ * Sends datagrams to one server and passes its answers to the handlers it was created with.
+ */
+export interface UdpTransport {
+    /**
+     * The host and port the datagrams are sent to, once known.
+     */
+    readonly target?: { host: string; port: number };
+
+    /**
+     * The IP address that answered, once known.
+     */
+    readonly address?: { address: string; family: number };
+
+    /**
+     * Sends a datagram to the server.
+     *
+     * @param packet - The datagram.
+     */
+    send(packet: Buffer): void;
+
+    /**
+     * Closes the transport. Datagrams are no longer sent nor received.
+     */
+    close(): void;
+
+    /**
+     * Lets the process exit while the transport is open.
+     */
+    unref?(): void;
+}
+
+/**
+ * Creates the transport of a query, e.g. to capture or replay its packets.
+ *
+ * @param target - The host and port of the server, resolved from the DNS SRV record if the `srv` option is enabled.
+ * @param handlers - The handlers of the datagrams and errors.
+ * @returns The transport.
+ */
+export type UdpTransportFactory = (target: Promise<{ host: string; port: number }>, handlers: UdpTransportHandlers) => UdpTransport;
+
+/**
+ * A datagram of a {@link PacketCapture}.
+ */
+export interface CapturedPacket {
+    /**
+     * Whether the datagram was sent to the server or received from it.
+     */
+    direction: 'send' | 'receive';
+
+    /**
+     * The bytes of the datagram, as a hex string.
+     */
+    data: string;
+
+    /**
+     * The time (in milliseconds) since the capture started.
+     */
+    time: number;
+}
+
+/**
+ * The packets exchanged with a server, as saved by {@link PacketRecorder} and fed back by {@link PacketReplay}.
+ */
+export interface PacketCapture {
+    /**
+     * The version of the format, currently 1.
+     */
+    version: 1;
+
+    /**
+     * The host and port of the server, if a query was made.
+     */
+    target?: { host: string; port: number };
+
+    /**
+     * The datagrams in the order they were sent and received.
+     */
+    packets: CapturedPacket[];
+}
+
+/**
+ * The configuration of a {@link PacketRecorder}.
+ */
+export interface PacketRecorderParams {
+    /**
+     * The transport whose packets are captured.
+     * If not provided, the default value is the UDP transport the protocols use.
+     */
+    transport?: UdpTransportFactory;
+}
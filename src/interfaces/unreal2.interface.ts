@@ -0,0 +1,130 @@
+import type { ProtocolParams } from './protocol.interface';
+
+/**
+ * The configuration of an {@link Unreal2} instance.
+ */
+export interface Unreal2Params extends ProtocolParams {
+    /**
+     * Strips the color codes (`\x1B` followed by the red, green and blue bytes) from the strings.
+     * Set to `false` to keep the raw text.
+     * If not provided, the default value is `true`.
+     */
+    stripColors?: boolean;
+}
+
+/**
+ * Represents the server details returned by an Unreal Engine 2 server.
+ */
+export interface Unreal2Details {
+    /**
+     * The id of the server, usually 0.
+     */
+    serverId: number;
+
+    /**
+     * The IP address of the server, usually empty.
+     */
+    serverIp: string;
+
+    /**
+     * The game port of the server.
+     */
+    gamePort: number;
+
+    /**
+     * The query port of the server, usually 0.
+     */
+    queryPort: number;
+
+    /**
+     * The name of the server.
+     */
+    serverName: string;
+
+    /**
+     * The map name.
+     */
+    mapName: string;
+
+    /**
+     * The game type, e.g. `xDeathMatch` or `KFGameType`.
+     */
+    gameType: string;
+
+    /**
+     * The number of players.
+     */
+    numPlayers: number;
+
+    /**
+     * The maximum number of players.
+     */
+    maxPlayers: number;
+
+    /**
+     * The current wave. Only sent by Killing Floor.
+     */
+    currentWave?: number;
+
+    /**
+     * The total number of waves. Only sent by Killing Floor.
+     */
+    totalWaves?: number;
+
+    /**
+     * The ping reported by the server, usually 0.
+     */
+    ping?: number;
+
+    /**
+     * The server flags, e.g. whether a password is required. Not sent by the oldest games.
+     */
+    serverFlags?: number;
+
+    /**
+     * The skill level of the bots. Not sent by the oldest games.
+     */
+    skillLevel?: string;
+}
+
+/**
+ * Represents the rules returned by an Unreal Engine 2 server.
+ */
+export interface Unreal2Rules {
+    [key: string]: string | string[];
+
+    /**
+     * The active mutators, which the server sends as repeated `Mutator` rules.
+     */
+    mutators: string[];
+}
+
+/**
+ * Represents a player returned by an Unreal Engine 2 server.
+ */
+export interface Unreal2Player {
+    /**
+     * The id of the player.
+     */
+    id: number;
+
+    /**
+     * The name of the player.
+     */
+    name: string;
+
+    /**
+     * The ping of the player in milliseconds.
+     */
+    ping: number;
+
+    /**
+     * The score of the player.
+     */
+    score: number;
+
+    /**
+     * The stats id of the player.
+     */
+    statsId: number;
+}
@@ -1,7 +1,68 @@
+/**
+ * Thrown by {@link BufferReader} when a read goes past the end of the buffer, e.g. because a response is truncated.
+ * The transports turn it into a {@link ParseError} that keeps the offset, the field and the hex dump.
+ *
+ * @internal
+ */
+export class BufferReadError extends RangeError {
+    /**
+     * The offset the read started at.
+     */
+    public offset: number;
+
+    /**
+     * The name of the field being read, e.g. `name`, or its type if the caller did not name it.
+     */
+    public field: string;
+
+    /**
+     * A hex dump of the buffer around the offset.
+     */
+    public hexDump: string;
+
+    constructor(buffer: Buffer, offset: number, field: string, reason: string) {
+        super(`Cannot read ${field} at offset ${offset}: ${reason}`);
+        this.name = 'BufferReadError';
+        this.offset = offset;
+        this.field = field;
+        this.hexDump = hexDump(buffer, offset);
+    }
+}
+
+/**
+ * Formats the bytes of a buffer around an offset as hex dump lines of 16 bytes, e.g.
+ * `00000010  44 02 00 41 6c 69 63 65  00 0a 00 00 00 00 00 20  |D..Alice....... |`.
+ *
+ * @param buffer - The buffer.
+ * @param offset - The offset of interest. Up to 128 bytes before and after it are included.
+ * @returns The hex dump, or an empty string if the buffer is empty.
+ * @internal
+ */
+export function hexDump(buffer: Buffer, offset: number = 0): string {
+    const start = Math.max(0, Math.min(offset, buffer.length) - 128) & ~0x0F;
+    const end = Math.min(buffer.length, start + 256 + 16);
+    const lines: string[] = [];
+
+    for (let line = start; line < end; line += 16) {
+        const bytes = buffer.subarray(line, Math.min(line + 16, end));
+        const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0'));
+        const left = hex.slice(0, 8).join(' ');
+        const right = hex.slice(8).join(' ');
+        const text = Array.from(bytes, (byte) => byte >= 0x20 && byte < 0x7F ? String.fromCharCode(byte) : '.').join('');
+
+        lines.push(`${line.toString(16).padStart(8, '0')}  ${left.padEnd(23)}  ${right.padEnd(23)}  |${text}|`);
+    }
+
+    return lines.join('\n');
+}
+
 /**
  * The `BufferReader` class provides methods to read from a `Buffer`
  * with a specified offset. This is useful for parsing binary data.
  *
+ * Every read checks that the buffer is long enough and throws a {@link BufferReadError} otherwise.
+ * Each read method takes an optional field name, which is reported in the error.
+ *
  * @class
  * @internal
  */
@@ -32,9 +93,11 @@ export class BufferReader {
     /**
      * Reads an 8-bit unsigned integer from the current offset and advances the offset by 1.
      *
+     * @param field - The name of the field, reported if the buffer is too short.
      * @returns The 8-bit unsigned integer value.
      */
-    readUint8(): number {
+    readUint8(field: string = 'uint8'): number {
+        this.ensure(1, field);
         const value = this.buffer.readUInt8(this.offset);
         this.offset += 1;
         return value;
@@ -43,9 +106,11 @@ export class BufferReader {
     /**
      * Reads an 8-bit signed integer from the current offset and advances the offset by 1.
      *
+     * @param field - The name of the field, reported if the buffer is too short.
      * @returns The 8-bit signed integer value.
      */
-    readInt8(): number {
+    readInt8(field: string = 'int8'): number {
+        this.ensure(1, field);
         const value = this.buffer.readInt8(this.offset);
         this.offset += 1;
         return value;
@@ -55,9 +120,11 @@ export class BufferReader {
      * Reads a 16-bit unsigned integer from the current offset and advances the offset by 2.
      *
      * @param littleEndian - Whether to read the value in little-endian format (default is true).
+     * @param field - The name of the field, reported if the buffer is too short.
      * @returns The 16-bit unsigned integer value.
      */
-    readUint16(littleEndian: boolean = true): number {
+    readUint16(littleEndian: boolean = true, field: string = 'uint16'): number {
+        this.ensure(2, field);
         const value = littleEndian ? this.buffer.readUInt16LE(this.offset) : this.buffer.readUInt16BE(this.offset);
         this.offset += 2;
         return value;
@@ -67,9 +134,11 @@ export class BufferReader {
      * Reads a 16-bit signed integer from the current offset and advances the offset by 2.
      *
      * @param littleEndian - Whether to read the value in little-endian format (default is true).
+     * @param field - The name of the field, reported if the buffer is too short.
      * @returns The 16-bit signed integer value.
      */
-    readInt16(littleEndian: boolean = true): number {
+    readInt16(littleEndian: boolean = true, field: string = 'int16'): number {
+        this.ensure(2, field);
         const value = littleEndian ? this.buffer.readInt16LE(this.offset) : this.buffer.readInt16BE(this.offset);
         this.offset += 2;
         return value;
@@ -79,9 +148,11 @@ export class BufferReader {
      * Reads a 32-bit unsigned integer from the current offset and advances the offset by 4.
      *
      * @param littleEndian - Whether to read the value in little-endian format (default is true).
+     * @param field - The name of the field, reported if the buffer is too short.
      * @returns The 32-bit unsigned integer value.
      */
-    readUint32(littleEndian: boolean = true): number {
+    readUint32(littleEndian: boolean = true, field: string = 'uint32'): number {
+        this.ensure(4, field);
         const value = littleEndian ? this.buffer.readUInt32LE(this.offset) : this.buffer.readUInt32BE(this.offset);
         this.offset += 4;
         return value;
@@ -91,9 +162,11 @@ export class BufferReader {
      * Reads a 32-bit signed integer from the current offset and advances the offset by 4.
      *
      * @param littleEndian - Whether to read the value in little-endian format (default is true).
+     * @param field - The name of the field, reported if the buffer is too short.
      * @returns The 32-bit signed integer value.
      */
-    readInt32(littleEndian: boolean = true): number {
+    readInt32(littleEndian: boolean = true, field: string = 'int32'): number {
+        this.ensure(4, field);
         const value = littleEndian ? this.buffer.readInt32LE(this.offset) : this.buffer.readInt32BE(this.offset);
         this.offset += 4;
         return value;
@@ -103,9 +176,11 @@ export class BufferReader {
      * Reads a 64-bit unsigned integer from the current offset and advances the offset by 8.
      *
      * @param littleEndian - Whether to read the value in little-endian format (default is true).
+     * @param field - The name of the field, reported if the buffer is too short.
      * @returns The 64-bit unsigned integer value as a BigInt.
      */
-    readBigUint64(littleEndian: boolean = true): bigint {
+    readBigUint64(littleEndian: boolean = true, field: string = 'uint64'): bigint {
+        this.ensure(8, field);
         const value = littleEndian ? this.buffer.readBigUInt64LE(this.offset) : this.buffer.readBigUInt64BE(this.offset);
         this.offset += 8;
         return value;
@@ -115,9 +190,11 @@ export class BufferReader {
      * Reads a 64-bit signed integer from the current offset and advances the offset by 8.
      *
      * @param littleEndian - Whether to read the value in little-endian format (default is true).
+     * @param field - The name of the field, reported if the buffer is too short.
      * @returns The 64-bit signed integer value as a BigInt.
      */
-    readBigInt64(littleEndian: boolean = true): bigint {
+    readBigInt64(littleEndian: boolean = true, field: string = 'int64'): bigint {
+        this.ensure(8, field);
         const value = littleEndian ? this.buffer.readBigInt64LE(this.offset) : this.buffer.readBigInt64BE(this.offset);
         this.offset += 8;
         return value;
@@ -127,9 +204,11 @@ export class BufferReader {
      * Reads a 32-bit floating-point number from the current offset and advances the offset by 4.
      *
      * @param littleEndian - Whether to read the value in little-endian format (default is true).
+     * @param field - The name of the field, reported if the buffer is too short.
      * @returns The 32-bit floating-point number.
      */
-    readFloat32(littleEndian: boolean = true): number {
+    readFloat32(littleEndian: boolean = true, field: string = 'float32'): number {
+        this.ensure(4, field);
         const value = littleEndian ? this.buffer.readFloatLE(this.offset) : this.buffer.readFloatBE(this.offset);
         this.offset += 4;
         return value;
@@ -139,27 +218,190 @@ export class BufferReader {
      * Reads a 64-bit floating-point number from the current offset and advances the offset by 8.
      *
      * @param littleEndian - Whether to read the value in little-endian format (default is true).
+     * @param field - The name of the field, reported if the buffer is too short.
      * @returns The 64-bit floating-point number.
      */
-    readFloat64(littleEndian: boolean = true): number {
+    readFloat64(littleEndian: boolean = true, field: string = 'float64'): number {
+        this.ensure(8, field);
         const value = littleEndian ? this.buffer.readDoubleLE(this.offset) : this.buffer.readDoubleBE(this.offset);
         this.offset += 8;
         return value;
     }
 
+    /**
+     * Reads a variable-length 32-bit signed integer (VarInt, as used by Minecraft), 7 bits per byte,
+     * and advances the offset past it.
+     *
+     * @param field - The name of the field, reported if the buffer is too short.
+     * @returns The integer value.
+     * @throws Will throw an error if the value is longer than 5 bytes.
+     */
+    readVarInt(field: string = 'varint'): number {
+        const start = this.offset;
+        let value = 0;
+
+        for (let position = 0; position < 35; position += 7) {
+            const byte = this.readUint8(field);
+            value |= (byte & 0x7F) << position;
+
+            if ((byte & 0x80) === 0) {
+                return value;
+            }
+        }
+
+        throw new BufferReadError(this.buffer, start, field, 'VarInt is too big');
+    }
+
+    /**
+     * Reads a variable-length 64-bit signed integer (VarLong, as used by Minecraft), 7 bits per byte,
+     * and advances the offset past it.
+     *
+     * @param field - The name of the field, reported if the buffer is too short.
+     * @returns The integer value as a BigInt.
+     * @throws Will throw an error if the value is longer than 10 bytes.
+     */
+    readVarLong(field: string = 'varlong'): bigint {
+        const start = this.offset;
+        let value = BigInt(0);
+
+        for (let position = 0; position < 70; position += 7) {
+            const byte = this.readUint8(field);
+            value |= BigInt(byte & 0x7F) << BigInt(position);
+
+            if ((byte & 0x80) === 0) {
+                return BigInt.asIntN(64, value);
+            }
+        }
+
+        throw new BufferReadError(this.buffer, start, field, 'VarLong is too big');
+    }
+
     /**
      * Reads a null-terminated string from the current offset and advances the offset past the null terminator.
      *
+     * @param field - The name of the field, reported if the string is not terminated.
+     * @returns The decoded string.
+     */
+    readString(field: string = 'string'): string {
+        return this.readStringBytes(field).toString('utf-8');
+    }
+
+    /**
+     * Reads the bytes of a null-terminated string without decoding them, and advances the offset past the null terminator.
+     *
+     * @param field - The name of the field, reported if the string is not terminated.
+     * @returns The bytes of the string, without the null terminator, sharing the memory of the buffer.
+     */
+    readStringBytes(field: string = 'string'): Buffer {
+        const end = this.buffer.indexOf(0x00, this.offset);
+
+        if (this.offset >= this.buffer.length || end === -1) {
+            throw new BufferReadError(this.buffer, this.offset, field, 'no null terminator before the end of the buffer');
+        }
+
+        const value = this.buffer.subarray(this.offset, end);
+        this.offset = end + 1; // Skip the null terminator
+        return value;
+    }
+
+    /**
+     * Reads a string prefixed with its length in one byte and advances the offset past it.
+     *
+     * @param includesPrefix - Whether the length counts the length byte itself, as in the ASE protocol (default is false).
+     * @param field - The name of the field, reported if the buffer is too short.
      * @returns The decoded string.
      */
-    readString(): string {
+    readPascalString(includesPrefix: boolean = false, field: string = 'string'): string {
         const start = this.offset;
-        while (this.buffer[this.offset] !== 0x00 && this.offset < this.buffer.length) {
-            this.offset++;
+        const length = this.readUint8(field) - (includesPrefix ? 1 : 0);
+
+        if (length < 0) {
+            throw new BufferReadError(this.buffer, start, field, `invalid string length ${length}`);
         }
-        const end = this.offset;
-        this.offset++; // Skip the null terminator
-        return this.buffer.toString('utf-8', start, end);
+
+        return this.readBytes(length, field).toString('utf-8');
+    }
+
+    /**
+     * Reads a number of bytes and advances the offset past them.
+     *
+     * @param length - The number of bytes.
+     * @param field - The name of the field, reported if the buffer is too short.
+     * @returns The bytes, sharing the memory of the buffer.
+     */
+    readBytes(length: number, field: string = 'bytes'): Buffer {
+        this.ensure(length, field);
+        const value = this.buffer.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return value;
+    }
+
+    /**
+     * Reads an 8-bit unsigned integer from the current offset without advancing the offset.
+     *
+     * @param field - The name of the field, reported if the buffer is too short.
+     * @returns The 8-bit unsigned integer value.
+     */
+    peekUint8(field: string = 'uint8'): number {
+        this.ensure(1, field);
+        return this.buffer.readUInt8(this.offset);
+    }
+
+    /**
+     * Reads a 16-bit unsigned integer from the current offset without advancing the offset.
+     *
+     * @param littleEndian - Whether to read the value in little-endian format (default is true).
+     * @param field - The name of the field, reported if the buffer is too short.
+     * @returns The 16-bit unsigned integer value.
+     */
+    peekUint16(littleEndian: boolean = true, field: string = 'uint16'): number {
+        this.ensure(2, field);
+        return littleEndian ? this.buffer.readUInt16LE(this.offset) : this.buffer.readUInt16BE(this.offset);
+    }
+
+    /**
+     * Reads a 32-bit unsigned integer from the current offset without advancing the offset.
+     *
+     * @param littleEndian - Whether to read the value in little-endian format (default is true).
+     * @param field - The name of the field, reported if the buffer is too short.
+     * @returns The 32-bit unsigned integer value.
+     */
+    peekUint32(littleEndian: boolean = true, field: string = 'uint32'): number {
+        this.ensure(4, field);
+        return littleEndian ? this.buffer.readUInt32LE(this.offset) : this.buffer.readUInt32BE(this.offset);
+    }
+
+    /**
+     * Reads a 32-bit signed integer from the current offset without advancing the offset.
+     *
+     * @param littleEndian - Whether to read the value in little-endian format (default is true).
+     * @param field - The name of the field, reported if the buffer is too short.
+     * @returns The 32-bit signed integer value.
+     */
+    peekInt32(littleEndian: boolean = true, field: string = 'int32'): number {
+        this.ensure(4, field);
+        return littleEndian ? this.buffer.readInt32LE(this.offset) : this.buffer.readInt32BE(this.offset);
+    }
+
+    /**
+     * Reads a number of bytes from the current offset without advancing the offset.
+     *
+     * @param length - The number of bytes.
+     * @param field - The name of the field, reported if the buffer is too short.
+     * @returns The bytes, sharing the memory of the buffer.
+     */
+    peekBytes(length: number, field: string = 'bytes'): Buffer {
+        this.ensure(length, field);
+        return this.buffer.subarray(this.offset, this.offset + length);
+    }
+
+    /**
+     * Gets the number of bytes left after the current offset.
+     *
+     * @returns The number of remaining bytes, or 0 if the offset is past the end.
+     */
+    remaining(): number {
+        return Math.max(0, this.buffer.length - this.offset);
     }
 
     /**
@@ -184,8 +426,10 @@ export class BufferReader {
      * Skips a specified number of bytes.
      *
      * @param bytes - The number of bytes to skip.
+     * @param field - The name of the skipped field, reported if the buffer is too short.
      */
-    skip(bytes: number): void {
+    skip(bytes: number, field: string = 'bytes'): void {
+        this.ensure(bytes, field);
         this.offset += bytes;
     }
 
@@ -200,4 +444,17 @@ export class BufferReader {
     subarray(start?: number, end?: number): Buffer {
         return this.buffer.subarray(start, end);
     }
-}
\ No newline at end of file
+
+    /**
+     * Checks that a number of bytes can be read from the current offset.
+     *
+     * @param length - The number of bytes.
+     * @param field - The name of the field, reported if the buffer is too short.
+     * @throws {@link BufferReadError} if the buffer is too short.
+     */
+    private ensure(length: number, field: string): void {
+        if (length < 0 || this.offset + length > this.buffer.length) {
+            throw new BufferReadError(this.buffer, this.offset, field, `${length} bytes needed, ${this.remaining()} left`);
+        }
+    }
+}
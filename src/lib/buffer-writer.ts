@@ -0,0 +1,200 @@
+/**
+ * The `BufferWriter` class builds a `Buffer` from typed writes, the counterpart of `BufferReader`.
+ * Each write method returns the writer, so the writes of a packet can be chained.
+ *
+ * @example
+ * ```ts
+ * const packet = new BufferWriter().writeInt32(-1).writeUint8(0x54).writeString('Source Engine Query').toBuffer();
+ * ```
+ *
+ * @class
+ * @internal
+ */
+export class BufferWriter {
+    private chunks: Buffer[] = [];
+    private length = 0;
+
+    /**
+     * Gets the number of bytes written so far.
+     *
+     * @returns The byte length of the written data.
+     */
+    byteLength(): number {
+        return this.length;
+    }
+
+    /**
+     * Writes an 8-bit unsigned integer.
+     *
+     * @param value - The value.
+     * @returns The writer.
+     */
+    writeUint8(value: number): this {
+        return this.write(1, (buffer) => buffer.writeUInt8(value));
+    }
+
+    /**
+     * Writes an 8-bit signed integer.
+     *
+     * @param value - The value.
+     * @returns The writer.
+     */
+    writeInt8(value: number): this {
+        return this.write(1, (buffer) => buffer.writeInt8(value));
+    }
+
+    /**
+     * Writes a 16-bit unsigned integer.
+     *
+     * @param value - The value.
+     * @param littleEndian - Whether to write the value in little-endian format (default is true).
+     * @returns The writer.
+     */
+    writeUint16(value: number, littleEndian: boolean = true): this {
+        return this.write(2, (buffer) => littleEndian ? buffer.writeUInt16LE(value) : buffer.writeUInt16BE(value));
+    }
+
+    /**
+     * Writes a 16-bit signed integer.
+     *
+     * @param value - The value.
+     * @param littleEndian - Whether to write the value in little-endian format (default is true).
+     * @returns The writer.
+     */
+    writeInt16(value: number, littleEndian: boolean = true): this {
+        return this.write(2, (buffer) => littleEndian ? buffer.writeInt16LE(value) : buffer.writeInt16BE(value));
+    }
+
+    /**
+     * Writes a 32-bit unsigned integer.
+     *
+     * @param value - The value.
+     * @param littleEndian - Whether to write the value in little-endian format (default is true).
+     * @returns The writer.
+     */
+    writeUint32(value: number, littleEndian: boolean = true): this {
+        return this.write(4, (buffer) => littleEndian ? buffer.writeUInt32LE(value) : buffer.writeUInt32BE(value));
+    }
+
+    /**
+     * Writes a 32-bit signed integer.
+     *
+     * @param value - The value.
+     * @param littleEndian - Whether to write the value in little-endian format (default is true).
+     * @returns The writer.
+     */
+    writeInt32(value: number, littleEndian: boolean = true): this {
+        return this.write(4, (buffer) => littleEndian ? buffer.writeInt32LE(value) : buffer.writeInt32BE(value));
+    }
+
+    /**
+     * Writes a 64-bit unsigned integer.
+     *
+     * @param value - The value as a BigInt.
+     * @param littleEndian - Whether to write the value in little-endian format (default is true).
+     * @returns The writer.
+     */
+    writeBigUint64(value: bigint, littleEndian: boolean = true): this {
+        return this.write(8, (buffer) => littleEndian ? buffer.writeBigUInt64LE(value) : buffer.writeBigUInt64BE(value));
+    }
+
+    /**
+     * Writes a 64-bit signed integer.
+     *
+     * @param value - The value as a BigInt.
+     * @param littleEndian - Whether to write the value in little-endian format (default is true).
+     * @returns The writer.
+     */
+    writeBigInt64(value: bigint, littleEndian: boolean = true): this {
+        return this.write(8, (buffer) => littleEndian ? buffer.writeBigInt64LE(value) : buffer.writeBigInt64BE(value));
+    }
+
+    /**
+     * Writes a 32-bit floating-point number.
+     *
+     * @param value - The value.
+     * @param littleEndian - Whether to write the value in little-endian format (default is true).
+     * @returns The writer.
+     */
+    writeFloat32(value: number, littleEndian: boolean = true): this {
+        return this.write(4, (buffer) => littleEndian ? buffer.writeFloatLE(value) : buffer.writeFloatBE(value));
+    }
+
+    /**
+     * Writes a 64-bit floating-point number.
+     *
+     * @param value - The value.
+     * @param littleEndian - Whether to write the value in little-endian format (default is true).
+     * @returns The writer.
+     */
+    writeFloat64(value: number, littleEndian: boolean = true): this {
+        return this.write(8, (buffer) => littleEndian ? buffer.writeDoubleLE(value) : buffer.writeDoubleBE(value));
+    }
+
+    /**
+     * Writes a variable-length 32-bit signed integer (VarInt, as used by Minecraft), 7 bits per byte
+     * with the highest bit marking that more bytes follow.
+     *
+     * @param value - The value.
+     * @returns The writer.
+     */
+    writeVarInt(value: number): this {
+        const bytes: number[] = [];
+        let rest = value >>> 0;
+
+        do {
+            const byte = rest & 0x7F;
+            rest >>>= 7;
+            bytes.push(rest !== 0 ? byte | 0x80 : byte);
+        } while (rest !== 0);
+
+        return this.writeBytes(Buffer.from(bytes));
+    }
+
+    /**
+     * Writes a UTF-8 string followed by a null terminator.
+     *
+     * @param value - The string.
+     * @returns The writer.
+     */
+    writeString(value: string): this {
+        return this.writeBytes(Buffer.from(`${value}\0`, 'utf-8'));
+    }
+
+    /**
+     * Writes raw bytes.
+     *
+     * @param bytes - The bytes.
+     * @returns The writer.
+     */
+    writeBytes(bytes: Buffer | Uint8Array): this {
+        const chunk = Buffer.from(bytes);
+        this.chunks.push(chunk);
+        this.length += chunk.length;
+        return this;
+    }
+
+    /**
+     * Gets the written data.
+     *
+     * @returns A new Buffer with every write so far.
+     */
+    toBuffer(): Buffer {
+        return Buffer.concat(this.chunks, this.length);
+    }
+
+    /**
+     * Allocates a chunk and fills it.
+     *
+     * @param size - The size of the chunk.
+     * @param fill - Writes the value at the start of the chunk.
+     * @returns The writer.
+     */
+    private write(size: number, fill: (buffer: Buffer) => void): this {
+        const chunk = Buffer.alloc(size);
+        fill(chunk);
+        this.chunks.push(chunk);
+        this.length += size;
+        return this;
+    }
+}
@@ -0,0 +1,103 @@
+import * as http from 'http';
+import * as net from 'net';
+import { InvalidResponseError, QueryAbortError, QueryTimeoutError } from '../errors';
+import type { QueryErrorDetails } from '../errors';
+import type { LookupAddress } from './resolver';
+
+/**
+ * Sends HTTP GET requests to one server and collects the response bodies.
+ * When the host has both IPv6 and IPv4 addresses, they are tried as happy eyeballs does.
+ *
+ * @internal
+ */
+export class HttpClient {
+    /**
+     * The address that answered the last request.
+     */
+    public address?: LookupAddress;
+
+    private host: string;
+    private port: number;
+    private timeout: number;
+    private debug: boolean;
+
+    /**
+     * Creates a new HTTP client.
+     *
+     * @param host - The IP address or hostname of the server.
+     * @param port - The port number of the server.
+     * @param timeout - The timeout duration (in milliseconds) of each request, including the connection.
+     * @param debug - Enables debug logging if true.
+     */
+    constructor(host: string, port: number, timeout: number, debug: boolean) {
+        this.host = host;
+        this.port = port;
+        this.timeout = timeout;
+        this.debug = debug;
+    }
+
+    /**
+     * Sends a GET request and collects the response body.
+     *
+     * @param requestType - The name of the request, reported in errors.
+     * @param path - The path of the request, e.g. `/info.json`.
+     * @param signal - Aborts the request when signalled.
+     * @returns A promise that resolves with the response body.
+     * @throws {@link InvalidResponseError} if the server answers with a status other than 2xx.
+     */
+    public get(requestType: string, path: string, signal?: AbortSignal): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            let received = Buffer.alloc(0);
+            const details = (): QueryErrorDetails => ({ host: this.host, port: this.port, requestType, data: received });
+
+            if (signal && signal.aborted) {
+                reject(new QueryAbortError(details()));
+                return;
+            }
+
+            let closed = false;
+
+            const settle = (err?: Error, data?: Buffer) => {
+                if (closed) return;
+                closed = true;
+                clearTimeout(timeoutId);
+                if (signal) signal.removeEventListener('abort', onAbort);
+                request.destroy();
+                if (err) reject(err); else resolve(data as Buffer);
+            }
+
+            const timeoutId = setTimeout(() => settle(new QueryTimeoutError(details())), this.timeout);
+            const onAbort = () => settle(new QueryAbortError(details()));
+
+            if (signal) signal.addEventListener('abort', onAbort);
+
+            if (this.debug) console.log("[DEBUG] Send: GET", path);
+
+            // Connect like the TCP client, trying both address families
+            const createConnection = () => net.createConnection({ host: this.host, port: this.port, autoSelectFamily: true });
+
+            const request = http.get({ host: this.host, port: this.port, path, createConnection, headers: { Accept: 'application/json' } }, (response) => {
+                this.address = { address: response.socket.remoteAddress!, family: response.socket.remoteFamily === 'IPv6' ? 6 : 4 };
+
+                response.on('data', (data: Buffer) => {
+                    if (this.debug) console.log("[DEBUG] Recv:", data);
+                    received = Buffer.concat([received, data]);
+                });
+
+                response.on('end', () => {
+                    const status = response.statusCode ?? 0;
+
+                    if (status < 200 || status >= 300) {
+                        settle(new InvalidResponseError(details(), `Unexpected HTTP status ${status}`));
+                    } else {
+                        settle(undefined, received);
+                    }
+                });
+
+                response.on('error', (err) => settle(err));
+            });
+
+            request.on('error', (err) => settle(err));
+        });
+    }
+}
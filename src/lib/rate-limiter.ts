@@ -0,0 +1,67 @@
+/**
+ * Runs tasks no faster than a given rate, queueing the tasks that would exceed it.
+ *
+ * @internal
+ */
+export class RateLimiter {
+    private interval: number;
+    private queue: (() => void)[] = [];
+    private next = 0;
+    private timer?: NodeJS.Timeout;
+
+    /**
+     * Creates a new rate limiter.
+     *
+     * @param perSecond - The maximum number of tasks run per second, or 0 for no limit.
+     */
+    constructor(perSecond: number) {
+        this.interval = perSecond > 0 ? 1000 / perSecond : 0;
+    }
+
+    /**
+     * Runs a task now if the rate allows it, otherwise as soon as it does.
+     *
+     * @param task - The task to run.
+     */
+    public schedule(task: () => void): void {
+        if (this.interval === 0) {
+            task();
+            return;
+        }
+
+        this.queue.push(task);
+        this.drain();
+    }
+
+    /**
+     * Drops every queued task.
+     */
+    public clear(): void {
+        clearTimeout(this.timer);
+        this.timer = undefined;
+        this.queue = [];
+    }
+
+    /**
+     * Runs the queued tasks the rate allows, and waits for the next slot if some are left.
+     */
+    private drain(): void {
+        if (this.timer) return;
+
+        while (this.queue.length > 0) {
+            const now = Date.now();
+
+            if (this.next > now) {
+                this.timer = setTimeout(() => {
+                    this.timer = undefined;
+                    this.drain();
+                }, this.next - now);
+                return;
+            }
+
+            // Timers fire at most once per millisecond, so a task may lag that far behind for rates above 1000 per second
+            this.next = Math.max(this.next, now - 1) + this.interval;
+            this.queue.shift()!();
+        }
+    }
+}
@@ -0,0 +1,77 @@
+import * as dns from 'dns';
+import * as net from 'net';
+
+/**
+ * The host and port a query is sent to.
+ *
+ * @internal
+ */
+export interface QueryTarget {
+    host: string;
+    port: number;
+}
+
+/**
+ * An IP address and its family.
+ *
+ * @internal
+ */
+export interface LookupAddress {
+    address: string;
+    family: number;
+}
+
+/**
+ * Resolves a host to its IP addresses. The families are interleaved, starting with the one the system prefers,
+ * so that trying the addresses in order alternates between IPv6 and IPv4 as happy eyeballs does.
+ *
+ * @param host - The IP address or hostname.
+ * @returns A promise that resolves with the addresses, of which there is at least one.
+ * @internal
+ */
+export async function lookupHost(host: string): Promise<LookupAddress[]> {
+    const family = net.isIP(host);
+
+    if (family !== 0) {
+        return [{ address: host, family }];
+    }
+
+    const addresses = await dns.promises.lookup(host, { all: true });
+    const preferred = addresses.filter((entry) => entry.family === addresses[0].family);
+    const others = addresses.filter((entry) => entry.family !== addresses[0].family);
+    const interleaved: LookupAddress[] = [];
+
+    for (let i = 0; i < Math.max(preferred.length, others.length); i++) {
+        if (i < preferred.length) interleaved.push(preferred[i]);
+        if (i < others.length) interleaved.push(others[i]);
+    }
+
+    return interleaved;
+}
+
+/**
+ * Looks up the DNS SRV record of a service, e.g. `_minecraft._tcp.example.com`.
+ * The record with the lowest priority and the highest weight is used.
+ *
+ * @param name - The full name of the record.
+ * @returns A promise that resolves with the target of the record, or undefined if there is no record.
+ * @internal
+ */
+export async function lookupSrv(name: string): Promise<QueryTarget | undefined> {
+    let records: dns.SrvRecord[];
+
+    try {
+        records = await dns.promises.resolveSrv(name);
+    } catch (err) {
+        const code = (err as NodeJS.ErrnoException).code;
+
+        if (code === dns.NOTFOUND || code === dns.NODATA) {
+            return undefined;
+        }
+
+        throw err;
+    }
+
+    const [record] = records.sort((a, b) => a.priority - b.priority || b.weight - a.weight);
+    return record ? { host: record.name, port: record.port } : undefined;
+}
@@ -0,0 +1,244 @@
+import * as crc32 from 'crc-32';
+import { BufferReader } from './buffer-reader';
+import { ChecksumMismatchError, DecompressionError, InvalidResponseError } from '../errors';
+import type { QueryErrorDetails } from '../errors';
+
+const A2S_MULTI_PACKET_HEADER = -2;
+const A2S_SINGLE_PACKET_HEADER = -1;
+const FIRST_PACKET_PAYLOAD_HEADER = Buffer.from([0xFF, 0xFF, 0xFF, 0xFF]);
+
+/**
+ * A reassembled response with the datagrams it came in.
+ *
+ * @internal
+ */
+export interface AssembledPayload {
+    /**
+     * The payload, starting with the single-packet header.
+     */
+    payload: Buffer;
+
+    /**
+     * The number of datagrams of the response.
+     */
+    packets: number;
+
+    /**
+     * The total size (in bytes) of the datagrams of the response.
+     */
+    bytes: number;
+}
+
+/**
+ * Reassembles A2S responses from the datagrams of one server.
+ * Handles single-packet responses as well as Source (with or without the Orange Box size field,
+ * optionally bzip2 compressed) and GoldSource multi-packet responses, several of which may be in flight at once.
+ *
+ * @internal
+ */
+export class SourcePacketAssembler {
+    private debug: boolean;
+    private details: (data: Buffer) => QueryErrorDetails;
+
+    // Packets of each incomplete multi-packet response, by response id and packet number
+    private packets: Record<number, Record<number, Buffer>> = {};
+
+    // CRC32 checksums of the uncompressed compressed responses, by response id
+    private crc32CheckSums: Record<number, number> = {};
+
+    // Multi-packet Response Format Goldsource Server
+    // Obsolete GoldSource Response
+    private goldSource = false;
+
+    // Maximum size of packet before packet switching occurs.
+    // AppIDs which are known not to contain this field:
+    // 215, 17550, 17700, and 240 when protocol = 7.
+    private orangeBox = true;
+
+    /**
+     * Creates a new assembler.
+     *
+     * @param debug - Enables debug logging if true.
+     * @param details - Builds the error details for the given raw bytes.
+     */
+    constructor(debug: boolean, details: (data: Buffer) => QueryErrorDetails) {
+        this.debug = debug;
+        this.details = details;
+    }
+
+    /**
+     * Feeds one datagram.
+     *
+     * @param message - The received datagram.
+     * @returns The payloads completed by this datagram.
+     * @throws {@link InvalidResponseError}, {@link DecompressionError} or {@link ChecksumMismatchError}
+     * if the datagram or the reassembled response is invalid.
+     */
+    public push(message: Buffer): AssembledPayload[] {
+        const completed: AssembledPayload[] = [];
+        this.handle(message, completed);
+        return completed;
+    }
+
+    /**
+     * Handles one datagram.
+     *
+     * @param message - The datagram.
+     * @param completed - Receives the completed payloads.
+     */
+    private handle(message: Buffer, completed: AssembledPayload[]): void {
+        const reader = new BufferReader(message);
+        const header = reader.readInt32();
+
+        if (header === A2S_SINGLE_PACKET_HEADER) { // Single-packet response
+            completed.push({ payload: message, packets: 1, bytes: message.length });
+            return;
+        }
+
+        if (header !== A2S_MULTI_PACKET_HEADER) {
+            throw new InvalidResponseError(this.details(message));
+        }
+
+        const id = reader.readInt32(); // Unique ID for this response
+        const isCompressed = (id & 0x80000000) !== 0; // Check if the response is compressed
+
+        if (!this.goldSource) {
+            const start = 9;
+
+            if (message.subarray(start, start + 4).equals(FIRST_PACKET_PAYLOAD_HEADER)) {
+                if (this.debug) console.log("[DEBUG] Packet: Obsolete GoldSource Response Detected");
+                this.goldSource = true;
+                this.reload(completed, message);
+                return;
+            }
+        }
+
+        let totalPackets, packetNumber;
+
+        if (this.goldSource) { // Goldsource Server
+            const packetByte = reader.readUint8();
+            packetNumber = (packetByte >> 4) & 0x0F;
+            totalPackets = packetByte & 0x0F;
+        } else { // Source Server
+            totalPackets = reader.readUint8(); // Total number of packets
+            packetNumber = reader.readUint8(); // Current packet number
+
+            if (this.orangeBox && packetNumber === 0) {
+                const start = isCompressed ? 18 : 10;
+
+                if (message.subarray(start, start + 4).equals(FIRST_PACKET_PAYLOAD_HEADER)) {
+                    // Source Server Multi-packet Response Format without size
+                    if (this.debug) console.log("[DEBUG] Packet: Below Orange Box Engine Detected");
+                    this.orangeBox = false;
+                    this.reload(completed, message);
+                    return;
+                }
+            }
+
+            if (this.orangeBox) { // Orange Box Engine and above only.
+                reader.readUint16(); // Maximum size of packet before packet switching occurs.
+            }
+
+            // For the first packet
+            if (packetNumber === 0 && isCompressed) {
+                if (this.debug) console.log("[DEBUG] Packet: Compression Detected");
+                reader.readUint32(); // Size of the packet (if compressed)
+                this.crc32CheckSums[id] = reader.readInt32(); // CRC32 checksum of uncompressed response
+            }
+        }
+
+        if (this.debug && packetNumber === 0) {
+            console.log("[DEBUG] Total Packets:", totalPackets);
+        }
+
+        // Store the payload in the packets object
+        const packets = this.packets[id] = this.packets[id] || {};
+        packets[packetNumber] = message;
+
+        // Check if all packets have been received
+        if (Object.keys(packets).length !== totalPackets) {
+            return;
+        }
+
+        // Reassemble the payload by sorting packets and concatenating them
+        const sortedPackets = Object.keys(packets)
+            .map(Number)
+            .sort((a, b) => a - b)
+            .map((number) => {
+                // Return the payload (remaining bytes)
+                if (this.goldSource) {
+                    return packets[number].subarray(9);
+                }
+
+                const start = 10 + (this.orangeBox ? 2 : 0) + ((number === 0 && isCompressed) ? 8 : 0);
+                return packets[number].subarray(start);
+            });
+
+        let assembledPayload = Buffer.concat(sortedPackets);
+        if (this.debug) console.log("[DEBUG] Payload:", assembledPayload);
+
+        if (isCompressed) {
+            // Decompress the buffer using bzip2
+            const Bunzip = require('seek-bzip');
+
+            try {
+                assembledPayload = Bunzip.decode(assembledPayload);
+            } catch (error) {
+                if (!this.orangeBox) {
+                    delete this.packets[id];
+                    throw new DecompressionError(this.details(assembledPayload), `Failed to decompress response: ${(error as Error).message}`);
+                }
+
+                if (this.debug) console.log("[DEBUG] Packet: Below Orange Box Engine Detected");
+                this.orangeBox = false;
+                this.reload(completed);
+                return;
+            }
+
+            if (this.debug) console.log("[DEBUG] Payload (Decompressed):", assembledPayload);
+
+            // Calculate the CRC32 checksum of the decompressed data
+            const expectedChecksum = this.crc32CheckSums[id];
+            const actualChecksum = crc32.buf(assembledPayload);
+
+            // Verify the checksum
+            if (actualChecksum !== expectedChecksum) {
+                delete this.packets[id];
+                throw new ChecksumMismatchError(this.details(assembledPayload), expectedChecksum, actualChecksum);
+            }
+        }
+
+        const bytes = Object.keys(packets).reduce((total, number) => total + packets[Number(number)].length, 0);
+
+        delete this.packets[id];
+        delete this.crc32CheckSums[id];
+        completed.push({ payload: assembledPayload, packets: totalPackets, bytes });
+    }
+
+    /**
+     * Handles every stored packet again, after the response format has been detected.
+     *
+     * @param completed - Receives the completed payloads.
+     * @param message - The datagram that revealed the format, if it is not stored yet.
+     */
+    private reload(completed: AssembledPayload[], message?: Buffer): void {
+        if (this.debug) console.log("[DEBUG] Packet: Reload");
+
+        const entries: Buffer[] = [];
+
+        for (const id of Object.keys(this.packets)) {
+            const packets = this.packets[Number(id)];
+            entries.push(...Object.keys(packets).map((number) => packets[Number(number)]));
+        }
+
+        this.packets = {};
+
+        if (message) {
+            entries.push(message);
+        }
+
+        for (const entry of entries) {
+            this.handle(entry, completed);
+        }
+    }
+}
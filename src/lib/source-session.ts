@@ -0,0 +1,654 @@
+import { performance } from 'perf_hooks';
+import { BufferReadError, BufferReader } from './buffer-reader';
+import { BufferWriter } from './buffer-writer';
+import { createStringDecoder } from './string-decoding';
+import { SourcePacketAssembler } from './source-packet-assembler';
+import {
+    ChallengeError,
+    ChecksumMismatchError,
+    InvalidResponseError,
+    ParseError,
+    QueryAbortError,
+    QueryError,
+    QueryTimeoutError,
+} from '../errors';
+import type { QueryErrorDetails } from '../errors';
+import type { AssembledPayload } from './source-packet-assembler';
+import type { SourceServerInfo, SourcePlayerInfo, SourceRequestTiming, SourceStringDecoder, SourceTimedResponse } from '../interfaces/source.interface';
+
+export const A2S_INFO = 0x54;
+export const A2S_PLAYER = 0x55;
+export const A2S_RULES = 0x56;
+
+const A2S_CHALLENGE_RESPONSE_HEADER = 0x41;
+
+/**
+ * The parsed response of each request, by its A2S header.
+ */
+export interface SourceResponses {
+    [A2S_INFO]: SourceServerInfo;
+    [A2S_PLAYER]: SourcePlayerInfo[];
+    [A2S_RULES]: Record<string, string>;
+}
+
+/**
+ * The A2S header of a request.
+ */
+export type SourceRequestHeader = keyof SourceResponses;
+
+/**
+ * The parsed response of any request.
+ */
+export type SourceResponse = SourceResponses[SourceRequestHeader];
+
+const REQUEST_TYPES: Record<number, string> = {
+    [A2S_INFO]: 'A2S_INFO',
+    [A2S_PLAYER]: 'A2S_PLAYER',
+    [A2S_RULES]: 'A2S_RULES',
+};
+
+// The request each response type answers
+const RESPONSE_REQUESTS: Record<number, SourceRequestHeader> = {
+    0x49: A2S_INFO,
+    0x6D: A2S_INFO, // Obsolete GoldSource response
+    0x44: A2S_PLAYER,
+    0x45: A2S_RULES,
+};
+
+/**
+ * A request waiting for its response.
+ */
+interface PendingRequest {
+    header: SourceRequestHeader;
+    retryCount: number;
+    // The challenge of each send that has not been answered yet (undefined if sent without one)
+    outstanding: (Buffer | undefined)[];
+    received: Buffer[];
+    // When the request was first and last sent, and whether the first send went without a challenge
+    firstSentAt: number;
+    lastSentAt: number;
+    handshake: boolean;
+    sends: number;
+    challengeRtt?: number;
+    packets: number;
+    bytes: number;
+    resolve: (response: SourceTimedResponse<SourceResponse>) => void;
+    reject: (err: Error) => void;
+}
+
+/**
+ * The outcome of one request of {@link SourceSession.requestAll}: either its response and timing or its error.
+ */
+export interface SettledResponse<T = SourceResponse> {
+    value?: T;
+    timing?: SourceRequestTiming;
+    error?: Error;
+}
+
+/**
+ * Options of a {@link SourceSession}.
+ */
+export interface SourceSessionOptions {
+    host: string;
+    port: number;
+    debug: boolean;
+
+    /**
+     * Decodes the strings of the responses. If not provided, they are decoded as UTF-8.
+     */
+    decodeString?: SourceStringDecoder;
+
+    /**
+     * Sends a datagram to the server.
+     */
+    send: (packet: Buffer) => void;
+}
+
+/**
+ * Runs A2S requests against one server over a socket owned by the caller.
+ * Several requests may be in flight at once: responses are routed to requests by their type,
+ * and the challenge number is cached and reused by every following request.
+ *
+ * @internal
+ */
+export class SourceSession {
+    /**
+     * The last challenge number received from the server.
+     */
+    public challenge?: Buffer;
+
+    private host: string;
+    private port: number;
+    private debug: boolean;
+    private decodeString: SourceStringDecoder;
+    private sendPacket: (packet: Buffer) => void;
+    private assembler: SourcePacketAssembler;
+    private pending: PendingRequest[] = [];
+    private challengeWaiters: (() => void)[] = [];
+
+    /**
+     * Creates a new session.
+     *
+     * @param options - The server address, debug flag, string decoder and send function.
+     */
+    constructor(options: SourceSessionOptions) {
+        this.host = options.host;
+        this.port = options.port;
+        this.debug = options.debug;
+        this.decodeString = options.decodeString ?? createStringDecoder();
+        this.sendPacket = options.send;
+        this.assembler = new SourcePacketAssembler(this.debug, (data) => ({ host: this.host, port: this.port, data }));
+    }
+
+    /**
+     * The number of requests waiting for their response.
+     */
+    public get size(): number {
+        return this.pending.length;
+    }
+
+    /**
+     * Sends a request and waits for its response.
+     *
+     * @param header - The A2S header for the request.
+     * @param timeout - The timeout duration (in milliseconds).
+     * @param signal - Aborts the request when signalled.
+     * @returns A promise that resolves with the parsed response and its timing, or rejects with a {@link QueryError}.
+     */
+    public request<H extends SourceRequestHeader>(header: H, timeout: number, signal?: AbortSignal): Promise<SourceTimedResponse<SourceResponses[H]>> {
+        // The response is routed to the request by its type, so it is the one of the header
+        return new Promise<SourceTimedResponse<SourceResponse>>((resolve, reject) => {
+            const request: PendingRequest = {
+                header,
+                retryCount: 0,
+                outstanding: [],
+                received: [],
+                firstSentAt: 0,
+                lastSentAt: 0,
+                handshake: false,
+                sends: 0,
+                packets: 0,
+                bytes: 0,
+                resolve,
+                reject,
+            };
+
+            if (signal && signal.aborted) {
+                reject(new QueryAbortError(this.details(request)));
+                return;
+            }
+
+            const settle = (finish: () => void) => {
+                clearTimeout(timeoutId);
+                if (signal) signal.removeEventListener('abort', onAbort);
+                this.pending = this.pending.filter((entry) => entry !== request);
+                this.notifyChallengeWaiters();
+                finish();
+            }
+
+            const timeoutId = setTimeout(() => settle(() => reject(new QueryTimeoutError(this.details(request)))), timeout);
+            const onAbort = () => settle(() => reject(new QueryAbortError(this.details(request))));
+
+            if (signal) signal.addEventListener('abort', onAbort);
+
+            request.resolve = (response) => settle(() => resolve(response));
+            request.reject = (err) => settle(() => reject(err));
+            this.pending.push(request);
+            this.send(request, this.challenge);
+        }) as Promise<SourceTimedResponse<SourceResponses[H]>>;
+    }
+
+    /**
+     * Sends several requests and waits for all of them to settle.
+     * Without a cached challenge number, the first request is sent alone until it has obtained one,
+     * so the other requests can use it at once.
+     *
+     * @param headers - The A2S headers of the requests.
+     * @param timeout - The timeout duration (in milliseconds) of each request.
+     * @param signal - Aborts the requests when signalled.
+     * @returns A promise that resolves with the outcome of each request, in the order of the headers.
+     */
+    public async requestAll<H extends SourceRequestHeader[]>(headers: [...H], timeout: number, signal?: AbortSignal): Promise<{ [K in keyof H]: SettledResponse<SourceResponses[H[K]]> }> {
+        const settle = (header: SourceRequestHeader): Promise<SettledResponse> => this.request(header, timeout, signal).then(
+            ({ value, timing }) => ({ value, timing }),
+            (error: Error) => ({ error }),
+        );
+
+        const [first, ...rest] = headers;
+        const firstResult = settle(first);
+
+        await Promise.race([firstResult, this.waitForChallenge()]);
+
+        // Each outcome is the one of the header at the same index
+        return Promise.all([firstResult, ...rest.map(settle)]) as Promise<{ [K in keyof H]: SettledResponse<SourceResponses[H[K]]> }>;
+    }
+
+    /**
+     * Waits until the server sends a challenge number, or until every request has settled.
+     *
+     * @returns A promise that resolves once a challenge number is known or nothing is pending anymore.
+     */
+    public waitForChallenge(): Promise<void> {
+        if (this.challenge || this.pending.length === 0) {
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve) => this.challengeWaiters.push(resolve));
+    }
+
+    /**
+     * Feeds a datagram received from the server.
+     *
+     * @param message - The received datagram.
+     */
+    public receive(message: Buffer): void {
+        if (this.debug) console.log("[DEBUG] Recv:", message)
+
+        for (const request of this.pending) {
+            request.received.push(message);
+        }
+
+        let payloads: AssembledPayload[];
+
+        try {
+            payloads = this.assembler.push(message);
+        } catch (err) {
+            this.failAttributed(err as Error);
+            return;
+        }
+
+        for (const payload of payloads) {
+            this.dispatch(payload);
+        }
+
+        this.notifyChallengeWaiters();
+    }
+
+    /**
+     * Rejects every pending request, e.g. because the socket failed or was closed.
+     *
+     * @param err - The error to reject with, or a function building one for each request.
+     */
+    public fail(err: Error | ((details: QueryErrorDetails) => Error)): void {
+        for (const request of [...this.pending]) {
+            request.reject(typeof err === 'function' ? err(this.details(request)) : err);
+        }
+
+        this.notifyChallengeWaiters();
+    }
+
+    /**
+     * Rejects the request a broken response belongs to. The request is known if it is the only pending one,
+     * or if the response could be decompressed to find its type; otherwise the response is dropped,
+     * so the other requests running in parallel are not failed by one bad datagram.
+     *
+     * @param err - The error the response raised.
+     */
+    private failAttributed(err: Error): void {
+        const decompressed = err instanceof ChecksumMismatchError ? err.data : undefined;
+        let request: PendingRequest | undefined;
+
+        if (this.pending.length === 1) {
+            request = this.pending[0];
+        } else if (decompressed && decompressed.length > 4) {
+            request = this.pending.find((entry) => entry.header === RESPONSE_REQUESTS[decompressed[4]]);
+        }
+
+        if (request) {
+            request.reject(this.toQueryError(err, request));
+        } else if (this.debug) {
+            console.log("[DEBUG] Dropped:", err.message);
+        }
+    }
+
+    /**
+     * Routes a complete payload to the request it answers.
+     *
+     * @param assembled - The payload, starting with the single-packet header, and the datagrams it came in.
+     */
+    private dispatch(assembled: AssembledPayload): void {
+        const payload = assembled.payload;
+        const type = payload.length > 4 ? payload[4] : -1;
+
+        if (type === A2S_CHALLENGE_RESPONSE_HEADER) {
+            this.onChallenge(assembled);
+            return;
+        }
+
+        const header = RESPONSE_REQUESTS[type];
+
+        if (header === undefined) {
+            this.failAttributed(new InvalidResponseError({ host: this.host, port: this.port, data: payload }, 'Unknown response type'));
+            return;
+        }
+
+        // Responses to requests that have already settled (e.g. duplicates after a retry) are ignored
+        const request = this.pending.find((entry) => entry.header === header);
+
+        if (!request) return;
+
+        try {
+            const value = this.parseResponse(payload);
+            const now = performance.now();
+
+            request.packets += assembled.packets;
+            request.bytes += assembled.bytes;
+            request.resolve({
+                value,
+                timing: {
+                    challengeRtt: request.challengeRtt,
+                    dataRtt: now - request.lastSentAt,
+                    total: now - request.firstSentAt,
+                    packets: request.packets,
+                    // The resend after the challenge handshake is not a retry
+                    retries: Math.max(0, request.sends - (request.handshake ? 2 : 1)),
+                    bytes: request.bytes,
+                },
+            });
+        } catch (err) {
+            // Reads past the end of a truncated or malformed payload end up here
+            request.reject(this.toQueryError(err as Error, request));
+        }
+    }
+
+    /**
+     * Handles a challenge response: caches the challenge and resends every request that has not been sent with it yet.
+     *
+     * @param assembled - The challenge response and the datagrams it came in.
+     */
+    private onChallenge(assembled: AssembledPayload): void {
+        const payload = assembled.payload;
+        const maxRetries = 2;
+        const challenge = payload.subarray(5, 9);
+        this.challenge = challenge;
+
+        // The challenge answers a send made without it if there is one; otherwise the server rejected the
+        // challenge we already used, and that request has to be retried.
+        const answered = this.pending.find((entry) => entry.outstanding.some((sent) => !sent || !sent.equals(challenge)))
+            || this.pending.find((entry) => entry.outstanding.length > 0);
+
+        if (answered) {
+            const index = answered.outstanding.findIndex((sent) => !sent || !sent.equals(challenge));
+            answered.outstanding.splice(index === -1 ? 0 : index, 1);
+            answered.challengeRtt = answered.challengeRtt ?? performance.now() - answered.firstSentAt;
+            answered.packets += assembled.packets;
+            answered.bytes += assembled.bytes;
+        }
+
+        for (const request of [...this.pending]) {
+            if (request.outstanding.some((sent) => sent && sent.equals(challenge))) continue;
+
+            if (request.retryCount < maxRetries) {
+                request.retryCount++;
+                this.send(request, challenge);
+            } else {
+                request.reject(new ChallengeError({ ...this.details(request), data: payload }));
+            }
+        }
+    }
+
+    /**
+     * Sends a request packet.
+     *
+     * @param request - The request.
+     * @param challenge - The challenge number to include, if known.
+     */
+    private send(request: PendingRequest, challenge?: Buffer): void {
+        const writer = new BufferWriter().writeInt32(-1).writeUint8(request.header);
+
+        if (request.header === A2S_INFO) {
+            writer.writeString('Source Engine Query');
+        }
+
+        if (challenge) {
+            writer.writeBytes(challenge);
+        } else if (request.header !== A2S_INFO) {
+            writer.writeInt32(-1);
+        }
+
+        const packet = writer.toBuffer();
+
+        if (this.debug) console.log("[DEBUG] Send:", packet)
+
+        const now = performance.now();
+
+        if (request.sends === 0) {
+            request.firstSentAt = now;
+            request.handshake = !challenge;
+        }
+
+        request.sends++;
+        request.lastSentAt = now;
+        request.outstanding.push(challenge);
+        this.sendPacket(packet);
+    }
+
+    /**
+     * Resolves the callers waiting for a challenge number, once there is one or nothing is pending anymore.
+     */
+    private notifyChallengeWaiters(): void {
+        if (this.challenge || this.pending.length === 0) {
+            const waiters = this.challengeWaiters;
+            this.challengeWaiters = [];
+            waiters.forEach((resolve) => resolve());
+        }
+    }
+
+    /**
+     * Builds the error details of a request.
+     *
+     * @param request - The request.
+     * @returns The error details, including every datagram received while the request was pending.
+     */
+    private details(request?: PendingRequest): QueryErrorDetails {
+        return {
+            host: this.host,
+            port: this.port,
+            requestType: request && REQUEST_TYPES[request.header],
+            data: request && Buffer.concat(request.received),
+        };
+    }
+
+    /**
+     * Wraps an error that is not a {@link QueryError} yet into a {@link ParseError}.
+     *
+     * @param err - The error.
+     * @param request - The request the error belongs to.
+     * @returns The query error.
+     */
+    private toQueryError(err: Error, request?: PendingRequest): QueryError {
+        if (err instanceof QueryError) {
+            if (err.requestType === undefined && request) {
+                err.requestType = REQUEST_TYPES[request.header];
+            }
+
+            return err;
+        }
+
+        return new ParseError(this.details(request), err.message, err instanceof BufferReadError ? err : undefined);
+    }
+
+    /**
+     * Parses a complete response.
+     *
+     * @param payload - The payload, starting with the single-packet header.
+     * @returns The parsed response.
+     */
+    private parseResponse(payload: Buffer): SourceResponse {
+        const reader = new BufferReader(payload, 4);
+        const header = reader.readInt8();
+
+        if (header === 0x49) { // A2S_INFO
+            return this.parseInfoResponse(reader);
+        } else if (header === 0x6D) { // A2S_INFO - Obsolete GoldSource response
+            return this.parseInfoObsoleteResponse(reader);
+        } else if (header === 0x44) { // A2S_PLAYER
+            return this.parsePlayerResponse(reader);
+        }
+
+        return this.parseRulesResponse(reader);
+    }
+
+
+    /**
+     * Reads a null-terminated string and decodes it with the configured encoding.
+     *
+     * @param reader - The reader.
+     * @param field - The name of the field.
+     * @returns The decoded string.
+     */
+    private readString(reader: BufferReader, field: string): string {
+        return this.decodeString(reader.readStringBytes(field), field);
+    }
+
+    /**
+     * Parses the server information from the response.
+     *
+     * @param reader - The BufferReader instance containing the response data.
+     * @returns The parsed server information.
+     */
+    private parseInfoResponse(reader: BufferReader): SourceServerInfo {
+        const info: SourceServerInfo = {
+            protocol: reader.readUint8('protocol'),
+            name: this.readString(reader, 'name'),
+            map: this.readString(reader, 'map'),
+            folder: this.readString(reader, 'folder'),
+            game: this.readString(reader, 'game'),
+            id: reader.readUint16(true, 'id'),
+            players: reader.readUint8('players'),
+            maxPlayers: reader.readUint8('maxPlayers'),
+            bots: reader.readUint8('bots'),
+            serverType: String.fromCharCode(reader.readUint8('serverType')),
+            environment: String.fromCharCode(reader.readUint8('environment')),
+            visibility: reader.readUint8('visibility'),
+            vac: reader.readUint8('vac'),
+            version: this.readString(reader, 'version'),
+        };
+
+        if (reader.remaining() > 0) {
+            const extraDataFlag = reader.readUint8('extraDataFlag');
+            info.extraData = {};
+
+            if (extraDataFlag & 0x80) {
+                info.extraData.port = reader.readUint16(true, 'extraData.port');
+            }
+
+            if (extraDataFlag & 0x10) {
+                info.extraData.steamID = reader.readBigUint64(true, 'extraData.steamID');
+            }
+
+            if (extraDataFlag & 0x40) {
+                info.extraData.tvPort = reader.readUint16(true, 'extraData.tvPort');
+                info.extraData.tvName = this.readString(reader, 'extraData.tvName');
+            }
+
+            if (extraDataFlag & 0x20) {
+                info.extraData.keywords = this.readString(reader, 'extraData.keywords');
+            }
+
+            if (extraDataFlag & 0x01) {
+                info.extraData.gameID = reader.readBigUint64(true, 'extraData.gameID');
+            }
+        }
+
+        return info;
+    }
+
+    /**
+     * Parses the server information from an Obsolete GoldSource response.
+     *
+     * @param reader - The BufferReader instance containing the response data.
+     * @returns The parsed server information.
+     */
+    private parseInfoObsoleteResponse(reader: BufferReader): SourceServerInfo {
+        const info: SourceServerInfo = {
+            address: this.readString(reader, 'address'), // IP address and port of the server.
+            name: this.readString(reader, 'name'), // Server name
+            map: this.readString(reader, 'map'), // Current map
+            folder: this.readString(reader, 'folder'), // Game folder
+            game: this.readString(reader, 'game'), // Game name
+            players: reader.readUint8('players'), // Number of players
+            maxPlayers: reader.readUint8('maxPlayers'), // Maximum players
+            protocol: reader.readUint8('protocol'), // Protocol version
+            bots: 0, // Bots (default to 0)
+            serverType: String.fromCharCode(reader.readUint8('serverType')), // Server type: 'D', 'L', or 'P'
+            environment: String.fromCharCode(reader.readUint8('environment')), // Environment: 'L' or 'W'
+            visibility: reader.readUint8('visibility'), // Visibility: 0 (public) or 1 (private)
+            vac: 0, // VAC (default to 0)
+        };
+
+        // Check if the server is running a mod
+        if (reader.readUint8('mod') === 1) {
+            const link = this.readString(reader, 'mod.link'); // Mod website URL
+            const downloadLink = this.readString(reader, 'mod.downloadLink'); // Mod download URL
+            reader.skip(1, 'mod'); // NULL byte (0x00)
+
+            info.mod = {
+                link,
+                downloadLink,
+                version: reader.readUint32(true, 'mod.version'), // Mod version
+                size: reader.readUint32(true, 'mod.size'), // Mod size in bytes
+                type: reader.readUint8('mod.type'), // Mod type: 0 (single/multiplayer), 1 (multiplayer only)
+                dll: reader.readUint8('mod.dll'), // Mod DLL: 0 (Half-Life DLL), 1 (custom DLL)
+            };
+        }
+
+        info.vac = reader.readUint8('vac');
+        info.bots = reader.readUint8('bots');
+
+        return info;
+    }
+
+    /**
+     * Parses the player information from the response.
+     *
+     * @param reader - The BufferReader instance containing the response data.
+     * @returns An array of player information.
+     */
+    private parsePlayerResponse(reader: BufferReader): SourcePlayerInfo[] {
+        const playerCount = reader.readUint8('playerCount');
+        if (this.debug) console.log("[DEBUG] Player Count:", playerCount);
+
+        const players: SourcePlayerInfo[] = [];
+
+        for (let i = 0; i < playerCount; i++) {
+            const index = reader.readUint8(`players[${i}].index`);
+            const name = this.readString(reader, `players[${i}].name`);
+            const score = reader.readUint32(true, `players[${i}].score`);
+            const duration = reader.readFloat32(true, `players[${i}].duration`);
+
+            players.push({ index, name, score, duration });
+        }
+
+        // The Ship additional player info (comes after the basic information in the packet):
+        if (reader.remaining() > 0) {
+            for (let i = 0; i < playerCount; i++) {
+                players[i].deaths = reader.readUint32(true, `players[${i}].deaths`);
+                players[i].money = reader.readUint32(true, `players[${i}].money`);
+            }
+        }
+
+        return players;
+    }
+
+    /**
+     * Parses the server rules from the response.
+     *
+     * @param reader - The BufferReader instance containing the response data.
+     * @returns A map of server rules.
+     */
+    private parseRulesResponse(reader: BufferReader): Record<string, string> {
+        const ruleCount = reader.readUint16(true, 'ruleCount');
+        if (this.debug) console.log("[DEBUG] Rule Count:", ruleCount);
+
+        const rules: Record<string, string> = {};
+
+        for (let i = 0; i < ruleCount; i++) {
+            const key = this.readString(reader, `rules[${i}].key`);
+            const value = this.readString(reader, `rules[${key}]`);
+            rules[key] = value;
+        }
+
+        return rules;
+    }
+}
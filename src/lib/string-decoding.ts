@@ -0,0 +1,40 @@
+import { TextDecoder } from 'util';
+import type { SourceStringDecoder } from '../interfaces/source.interface';
+
+/**
+ * Creates the function decoding the strings of responses for an `encoding` option.
+ * The decoders are created up front, so an unknown encoding is reported before any query.
+ *
+ * @param encoding - `'utf-8'`, `'auto'`, a label of the WHATWG Encoding Standard, or a custom decoder.
+ * @param fallbackEncoding - The encoding `'auto'` falls back to for strings that are not valid UTF-8.
+ * @returns The decoder.
+ * @throws {@link RangeError} if an encoding is not supported.
+ * @internal
+ */
+export function createStringDecoder(encoding: string | SourceStringDecoder = 'utf-8', fallbackEncoding: string = 'windows-1252'): SourceStringDecoder {
+    if (typeof encoding === 'function') {
+        return encoding;
+    }
+
+    if (encoding.toLowerCase() === 'auto') {
+        const utf8 = new TextDecoder('utf-8', { fatal: true, ignoreBOM: true });
+        const fallback = new TextDecoder(fallbackEncoding);
+
+        return (bytes) => {
+            try {
+                return utf8.decode(bytes);
+            } catch {
+                // Not valid UTF-8, so most likely a legacy codepage
+                return fallback.decode(bytes);
+            }
+        };
+    }
+
+    const decoder = new TextDecoder(encoding, { ignoreBOM: true });
+
+    if (decoder.encoding === 'utf-8') {
+        return (bytes) => bytes.toString('utf-8');
+    }
+
+    return (bytes) => decoder.decode(bytes);
+}
@@ -0,0 +1,119 @@
+import * as net from 'net';
+import { BufferReadError } from './buffer-reader';
+import { InvalidResponseError, ParseError, QueryAbortError, QueryError, QueryTimeoutError } from '../errors';
+import type { QueryErrorDetails } from '../errors';
+import type { LookupAddress } from './resolver';
+
+/**
+ * Handles the data of a response received so far.
+ *
+ * @param data - All the data received on the connection so far.
+ * @param send - Sends further data to the server.
+ * @returns The result once the response is complete, or undefined to wait for more data.
+ */
+export type TcpResponseHandler<T> = (data: Buffer, send: (packet: Buffer) => void) => T | undefined;
+
+/**
+ * Sends TCP requests to one server, each over its own connection, and collects the responses.
+ * When the host has both IPv6 and IPv4 addresses, they are tried as happy eyeballs does.
+ *
+ * @internal
+ */
+export class TcpClient {
+    /**
+     * The address connected to by the last request.
+     */
+    public address?: LookupAddress;
+
+    private host: string;
+    private port: number;
+    private timeout: number;
+    private debug: boolean;
+
+    /**
+     * Creates a new TCP client.
+     *
+     * @param host - The IP address or hostname of the server.
+     * @param port - The port number of the server.
+     * @param timeout - The timeout duration (in milliseconds) of each request, including the connection.
+     * @param debug - Enables debug logging if true.
+     */
+    constructor(host: string, port: number, timeout: number, debug: boolean) {
+        this.host = host;
+        this.port = port;
+        this.timeout = timeout;
+        this.debug = debug;
+    }
+
+    /**
+     * Connects, sends a request and feeds the received data to the handler until it returns a result.
+     *
+     * @param requestType - The name of the request, reported in errors.
+     * @param packet - The request packet, or an empty buffer if the server speaks first.
+     * @param handle - Handles the data received so far. Errors it throws reject the request, wrapped into a
+     * {@link ParseError} unless they are a {@link QueryError} already.
+     * @param signal - Aborts the request when signalled.
+     * @returns A promise that resolves with the result of the handler.
+     */
+    public request<T>(requestType: string, packet: Buffer, handle: TcpResponseHandler<T>, signal?: AbortSignal): Promise<T> {
+        return new Promise((resolve, reject) => {
+            let received = Buffer.alloc(0);
+            const details = (): QueryErrorDetails => ({ host: this.host, port: this.port, requestType, data: received });
+
+            if (signal && signal.aborted) {
+                reject(new QueryAbortError(details()));
+                return;
+            }
+
+            let closed = false;
+
+            const settle = (err?: Error, data?: T) => {
+                if (closed) return;
+                closed = true;
+                clearTimeout(timeoutId);
+                if (signal) signal.removeEventListener('abort', onAbort);
+                socket.destroy();
+                if (err) reject(err); else resolve(data as T);
+            }
+
+            const send = (data: Buffer) => {
+                if (this.debug) console.log("[DEBUG] Send:", data);
+                socket.write(data);
+            }
+
+            const timeoutId = setTimeout(() => settle(new QueryTimeoutError(details())), this.timeout);
+            const onAbort = () => settle(new QueryAbortError(details()));
+
+            if (signal) signal.addEventListener('abort', onAbort);
+
+            const socket = net.createConnection({ host: this.host, port: this.port, autoSelectFamily: true }, () => {
+                this.address = { address: socket.remoteAddress!, family: socket.remoteFamily === 'IPv6' ? 6 : 4 };
+                if (packet.length > 0) send(packet);
+            });
+
+            socket.on('data', (data) => {
+                if (closed) return;
+                if (this.debug) console.log("[DEBUG] Recv:", data);
+                received = Buffer.concat([received, data]);
+
+                try {
+                    const result = handle(received, send);
+
+                    if (result !== undefined) {
+                        settle(undefined, result);
+                    }
+                } catch (err) {
+                    if (err instanceof QueryError) {
+                        settle(err);
+                    } else {
+                        // Reads past the end of a truncated or malformed response end up here
+                        settle(new ParseError(details(), (err as Error).message, err instanceof BufferReadError ? err : undefined));
+                    }
+                }
+            });
+
+            socket.on('error', (err) => settle(err));
+            socket.on('close', () => settle(new InvalidResponseError(details(), 'Connection closed before the response was complete')));
+        });
+    }
+}
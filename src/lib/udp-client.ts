@@ -0,0 +1,123 @@
+import { performance } from 'perf_hooks';
+import { UdpEndpoint } from './udp-endpoint';
+import { BufferReadError } from './buffer-reader';
+import { ParseError, QueryAbortError, QueryError, QueryTimeoutError } from '../errors';
+import type { QueryErrorDetails } from '../errors';
+import type { LookupAddress } from './resolver';
+
+/**
+ * Handles one datagram of a response.
+ *
+ * @param message - The received datagram.
+ * @param send - Sends a further datagram to the server, e.g. the request with a challenge.
+ * @param sentAt - The `performance.now()` time the last datagram was written to the socket, after the host was resolved.
+ * @returns The result once the response is complete, or undefined to wait for more datagrams.
+ */
+export type UdpResponseHandler<T> = (message: Buffer, send: (packet: Buffer) => void, sentAt: number) => T | undefined;
+
+/**
+ * Sends UDP requests to one server, each over its own socket, and collects the responses.
+ * The host is resolved once per request, see {@link UdpEndpoint}.
+ *
+ * @internal
+ */
+export class UdpClient {
+    /**
+     * The address that answered the last request.
+     */
+    public address?: LookupAddress;
+
+    private host: string;
+    private port: number;
+    private timeout: number;
+    private debug: boolean;
+
+    /**
+     * Creates a new UDP client.
+     *
+     * @param host - The IP address or hostname of the server.
+     * @param port - The port number of the server.
+     * @param timeout - The timeout duration (in milliseconds) of each request.
+     * @param debug - Enables debug logging if true.
+     */
+    constructor(host: string, port: number, timeout: number, debug: boolean) {
+        this.host = host;
+        this.port = port;
+        this.timeout = timeout;
+        this.debug = debug;
+    }
+
+    /**
+     * Sends a request and feeds every received datagram to the handler until it returns a result.
+     *
+     * @param requestType - The name of the request, reported in errors.
+     * @param packet - The request packet.
+     * @param handle - Handles each datagram. Errors it throws reject the request, wrapped into a
+     * {@link ParseError} unless they are a {@link QueryError} already.
+     * @param signal - Aborts the request when signalled.
+     * @returns A promise that resolves with the result of the handler.
+     */
+    public request<T>(requestType: string, packet: Buffer, handle: UdpResponseHandler<T>, signal?: AbortSignal): Promise<T> {
+        return new Promise((resolve, reject) => {
+            const received: Buffer[] = [];
+            const details = (): QueryErrorDetails => ({ host: this.host, port: this.port, requestType, data: Buffer.concat(received) });
+
+            if (signal && signal.aborted) {
+                reject(new QueryAbortError(details()));
+                return;
+            }
+
+            let closed = false;
+            let sentAt = 0;
+
+            const settle = (err?: Error, data?: T) => {
+                if (closed) return;
+                closed = true;
+                clearTimeout(timeoutId);
+                if (signal) signal.removeEventListener('abort', onAbort);
+                this.address = endpoint.address;
+                endpoint.close();
+                if (err) reject(err); else resolve(data as T);
+            }
+
+            const send = (data: Buffer) => {
+                if (this.debug) console.log("[DEBUG] Send:", data);
+                endpoint.send(data);
+            }
+
+            const timeoutId = setTimeout(() => settle(new QueryTimeoutError(details())), this.timeout);
+            const onAbort = () => settle(new QueryAbortError(details()));
+
+            if (signal) signal.addEventListener('abort', onAbort);
+
+            const onMessage = (message: Buffer) => {
+                if (closed) return;
+                if (this.debug) console.log("[DEBUG] Recv:", message);
+                received.push(message);
+
+                try {
+                    const result = handle(message, send, sentAt);
+
+                    if (result !== undefined) {
+                        settle(undefined, result);
+                    }
+                } catch (err) {
+                    if (err instanceof QueryError) {
+                        settle(err);
+                    } else {
+                        // Reads past the end of a truncated or malformed response end up here
+                        settle(new ParseError(details(), (err as Error).message, err instanceof BufferReadError ? err : undefined));
+                    }
+                }
+            }
+
+            const endpoint = new UdpEndpoint({ host: this.host, port: this.port }, {
+                onMessage,
+                onError: (err) => settle(err),
+                onSend: () => sentAt = performance.now(),
+            });
+
+            send(packet);
+        });
+    }
+}
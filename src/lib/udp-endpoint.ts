@@ -0,0 +1,264 @@
+import * as dgram from 'dgram';
+import { lookupHost } from './resolver';
+import type { LookupAddress, QueryTarget } from './resolver';
+
+/**
+ * How long to wait for an answer from the first address before also trying an address of the other family.
+ */
+export const FALLBACK_DELAY = 250;
+
+/**
+ * Options of a {@link UdpEndpoint}.
+ *
+ * @internal
+ */
+export interface UdpEndpointOptions {
+    /**
+     * Receives each datagram from the server.
+     */
+    onMessage: (message: Buffer) => void;
+
+    /**
+     * Receives the error that made the endpoint unusable, e.g. a failed lookup.
+     */
+    onError: (err: Error) => void;
+
+    /**
+     * Called right before each datagram is written to a socket, once the host is resolved.
+     */
+    onSend?: (packet: Buffer) => void;
+}
+
+/**
+ * An address being tried, with the socket of its family.
+ */
+interface Candidate {
+    address: LookupAddress;
+    socket: dgram.Socket;
+}
+
+/**
+ * Sends datagrams to one server, resolving its host once and opening a `udp4` or `udp6` socket
+ * depending on the family of its address.
+ *
+ * When the host has both IPv6 and IPv4 addresses and the first one does not answer within {@link FALLBACK_DELAY},
+ * the datagrams are sent to an address of the other family as well, and the first one to answer is kept.
+ *
+ * @internal
+ */
+export class UdpEndpoint {
+    /**
+     * The host and port the datagrams are sent to, once known.
+     */
+    public target?: QueryTarget;
+
+    /**
+     * The address that answered, or undefined before the first answer.
+     */
+    public address?: LookupAddress;
+
+    private options: UdpEndpointOptions;
+    private candidates: Candidate[] = [];
+    private fallback?: LookupAddress;
+    private fallbackTimer?: NodeJS.Timeout;
+    private queued: Buffer[] = [];
+    private sent: Buffer[] = [];
+    private resolved = false;
+    private closed = false;
+    private unreferenced = false;
+
+    /**
+     * Creates a new endpoint and starts resolving the host.
+     *
+     * @param target - The host and port of the server, or a promise of them, e.g. after a DNS SRV lookup.
+     * @param options - The message and error handlers.
+     */
+    constructor(target: QueryTarget | Promise<QueryTarget>, options: UdpEndpointOptions) {
+        this.options = options;
+
+        Promise.resolve(target)
+            .then(async (resolvedTarget) => {
+                this.target = resolvedTarget;
+                return lookupHost(resolvedTarget.host);
+            })
+            .then((addresses) => {
+                if (this.closed) return;
+
+                this.resolved = true;
+                this.fallback = addresses.find((entry) => entry.family !== addresses[0].family);
+                this.open(addresses[0]);
+
+                for (const packet of this.queued.splice(0)) {
+                    this.send(packet);
+                }
+            })
+            .catch((err) => this.fail(err));
+    }
+
+    /**
+     * Sends a datagram to the server. Datagrams sent before the host is resolved are queued.
+     *
+     * @param packet - The datagram.
+     */
+    public send(packet: Buffer): void {
+        if (this.closed) return;
+
+        if (!this.resolved) {
+            this.queued.push(packet);
+            return;
+        }
+
+        if (!this.address) {
+            // Kept to be sent again to the fallback address
+            this.sent.push(packet);
+
+            if (this.fallback && !this.fallbackTimer) {
+                this.fallbackTimer = setTimeout(() => this.tryFallback(), FALLBACK_DELAY);
+                if (this.unreferenced) this.fallbackTimer.unref();
+            }
+        }
+
+        for (const candidate of this.candidates) {
+            this.sendTo(candidate, packet);
+        }
+    }
+
+    /**
+     * Closes the sockets. Datagrams are no longer sent nor received.
+     */
+    public close(): void {
+        if (this.closed) return;
+        this.closed = true;
+        clearTimeout(this.fallbackTimer);
+
+        for (const { socket } of this.candidates.splice(0)) {
+            socket.close();
+        }
+    }
+
+    /**
+     * Lets the process exit while the sockets are open.
+     */
+    public unref(): void {
+        this.unreferenced = true;
+
+        for (const { socket } of this.candidates) {
+            socket.unref();
+        }
+    }
+
+    /**
+     * Opens a socket for an address.
+     *
+     * @param address - The address.
+     * @returns The candidate.
+     */
+    private open(address: LookupAddress): Candidate {
+        const socket = dgram.createSocket(address.family === 6 ? 'udp6' : 'udp4');
+        const candidate: Candidate = { address, socket };
+
+        socket.on('message', (message) => {
+            if (this.closed) return;
+
+            if (!this.address) {
+                // The first address to answer is kept, the others are dropped
+                this.address = address;
+                clearTimeout(this.fallbackTimer);
+                this.fallback = undefined;
+                this.sent = [];
+
+                for (const other of this.candidates.filter((entry) => entry !== candidate)) {
+                    this.drop(other);
+                }
+            }
+
+            if (this.address === address) {
+                this.options.onMessage(message);
+            }
+        });
+
+        socket.on('error', (err) => this.failCandidate(candidate, err));
+
+        if (this.unreferenced) socket.unref();
+
+        this.candidates.push(candidate);
+        return candidate;
+    }
+
+    /**
+     * Sends a datagram to an address.
+     *
+     * @param candidate - The address and its socket.
+     * @param packet - The datagram.
+     */
+    private sendTo(candidate: Candidate, packet: Buffer): void {
+        if (this.options.onSend) this.options.onSend(packet);
+
+        // Errors such as an unreachable network only concern this address while another one may answer
+        candidate.socket.send(packet, 0, packet.length, this.target!.port, candidate.address.address, (err) => {
+            if (err) this.failCandidate(candidate, err);
+        });
+    }
+
+    /**
+     * Starts sending to the address of the other family, including the datagrams sent so far.
+     */
+    private tryFallback(): void {
+        const address = this.fallback;
+        this.fallback = undefined;
+
+        if (!address || this.closed || this.address) return;
+
+        const candidate = this.open(address);
+
+        for (const packet of this.sent) {
+            this.sendTo(candidate, packet);
+        }
+    }
+
+    /**
+     * Drops an address after an error, and fails the endpoint if no address is left.
+     *
+     * @param candidate - The address and its socket.
+     * @param err - The error.
+     */
+    private failCandidate(candidate: Candidate, err: Error): void {
+        if (this.closed || !this.candidates.includes(candidate)) return;
+
+        this.drop(candidate);
+
+        if (this.candidates.length > 0 && !this.address) {
+            return;
+        }
+
+        if (this.fallback && !this.address) {
+            // Do not wait for the delay when the first address cannot be used at all
+            clearTimeout(this.fallbackTimer);
+            this.tryFallback();
+            return;
+        }
+
+        this.fail(err);
+    }
+
+    /**
+     * Closes the socket of an address.
+     *
+     * @param candidate - The address and its socket.
+     */
+    private drop(candidate: Candidate): void {
+        this.candidates = this.candidates.filter((entry) => entry !== candidate);
+        candidate.socket.close();
+    }
+
+    /**
+     * Closes the endpoint and reports the error.
+     *
+     * @param err - The error.
+     */
+    private fail(err: Error): void {
+        if (this.closed) return;
+        this.close();
+        this.options.onError(err);
+    }
+}
@@ -0,0 +1,187 @@
+import { BufferReader } from './lib/buffer-reader';
+import { UdpEndpoint } from './lib/udp-endpoint';
+import { InvalidResponseError, QueryTimeoutError } from './errors';
+import type { SourceParams } from './interfaces/source.interface';
+import { MasterServerRegion } from './interfaces/master-server.interface';
+import type { MasterServerAddress, MasterServerFilter, MasterServerQueryOptions } from './interfaces/master-server.interface';
+
+/**
+ * The endpoint of a server list query, with its error kept until the next page is requested.
+ */
+interface Connection {
+    endpoint: UdpEndpoint;
+    error?: Error;
+    // Resolve and reject the page being requested, if any
+    onMessage?: (message: Buffer) => void;
+    onError?: (err: Error) => void;
+}
+
+/**
+ * A class for retrieving server lists from the Valve master server.
+ * The Source master server listens on `hl2master.steampowered.com:27011`.
+ *
+ * @example
+ * const master = new MasterServer({ host: 'hl2master.steampowered.com', port: 27011 });
+ * for await (const server of master.getServers({ filter: '\\appid\\730\\dedicated\\1' })) {
+ *     console.log(server.host, server.port);
+ * }
+ */
+export default class MasterServer {
+    private host: string;
+    private port: number;
+    private timeout: number;
+    private debug: boolean;
+
+    /**
+     * Creates a new master server query instance.
+     *
+     * @param params - A JSON object containing the configuration for the MasterServer instance.
+     * @param params.host - The IP address or hostname of the master server.
+     * @param params.port - The port number of the master server.
+     * @param params.timeout - The timeout duration (in milliseconds) for each page of results. Default is 5000.
+     * @param params.debug - Enables debug logging if true. Default is false.
+     */
+    constructor(params: SourceParams) {
+        this.host = params.host;
+        this.port = params.port;
+        this.timeout = params.timeout ?? 5000;
+        this.debug = params.debug ?? false;
+    }
+
+    /**
+     * Retrieves the server list page by page, yielding each server as soon as its page has arrived.
+     *
+     * @param options - The filter and region of the query.
+     * @returns An async iterator of server addresses.
+     * @throws Will throw an error if a page times out or the response is invalid.
+     */
+    public async *getServers(options: MasterServerQueryOptions = {}): AsyncIterableIterator<MasterServerAddress> {
+        const filter = typeof options.filter === 'string' ? options.filter : MasterServer.buildFilter(options.filter ?? {});
+        const region = options.region ?? MasterServerRegion.All;
+        let seed = '0.0.0.0:0';
+
+        const connection: Connection = {
+            endpoint: new UdpEndpoint({ host: this.host, port: this.port }, {
+                onMessage: (message) => {
+                    if (connection.onMessage) connection.onMessage(message);
+                },
+                // Errors such as an ICMP unreachable may arrive while the consumer processes a page, between two requests
+                onError: (err) => {
+                    if (this.debug) console.log("[DEBUG] Error:", err);
+                    connection.error = connection.error ?? err;
+                    if (connection.onError) connection.onError(err);
+                },
+            }),
+        };
+
+        try {
+            for (;;) {
+                const response = await this.request(connection, region, seed, filter);
+                const reader = new BufferReader(response, 6);
+                let last = seed;
+
+                while (reader.getOffset() + 6 <= reader.byteLength()) {
+                    const host = [reader.readUint8(), reader.readUint8(), reader.readUint8(), reader.readUint8()].join('.');
+                    const port = reader.readUint16(false);
+
+                    // 0.0.0.0:0 marks the end of the list
+                    if (host === '0.0.0.0' && port === 0) {
+                        return;
+                    }
+
+                    last = `${host}:${port}`;
+                    yield { host, port };
+                }
+
+                // A page without new servers would make us request the same page forever
+                if (last === seed) {
+                    return;
+                }
+
+                seed = last;
+            }
+        } finally {
+            connection.endpoint.close();
+        }
+    }
+
+    /**
+     * Serializes a filter object to the Valve filter-string syntax.
+     *
+     * @param filter - The filter object.
+     * @returns The filter string.
+     */
+    public static buildFilter(filter: MasterServerFilter): string {
+        return Object.keys(filter)
+            .filter((key) => filter[key] !== undefined)
+            .map((key) => {
+                const value = filter[key];
+
+                if (typeof value === 'object') {
+                    const count = Object.keys(value).filter((k) => value[k] !== undefined).length;
+                    return `\\${key}\\${count}${MasterServer.buildFilter(value)}`;
+                }
+
+                return `\\${key}\\${typeof value === 'boolean' ? Number(value) : value}`;
+            })
+            .join('');
+    }
+
+    /**
+     * Requests one page of the server list.
+     *
+     * @param connection - The endpoint to send the request through, and its error, which rejects the request.
+     * @param region - The region code.
+     * @param seed - The `IP:port` of the last server of the previous page, or `0.0.0.0:0` for the first page.
+     * @param filter - The filter string.
+     * @returns A promise that resolves with the raw response.
+     */
+    private request(connection: Connection, region: number, seed: string, filter: string): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            if (connection.error) {
+                reject(connection.error);
+                return;
+            }
+
+            const cleanup = () => {
+                clearTimeout(timeoutId);
+                connection.onMessage = undefined;
+                connection.onError = undefined;
+            }
+
+            const onMessage = (message: Buffer) => {
+                if (this.debug) console.log("[DEBUG] Recv:", message);
+                cleanup();
+
+                if (!message.subarray(0, 6).equals(Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, 0x66, 0x0A]))) {
+                    reject(new InvalidResponseError({ host: this.host, port: this.port, requestType: 'A2M_GET_SERVERS_BATCH2', data: message }));
+                    return;
+                }
+
+                resolve(message);
+            }
+
+            const onError = (err: Error) => {
+                cleanup();
+                reject(err);
+            }
+
+            const timeoutId = setTimeout(() => {
+                cleanup();
+                reject(new QueryTimeoutError({ host: this.host, port: this.port, requestType: 'A2M_GET_SERVERS_BATCH2' }));
+            }, this.timeout);
+
+            connection.onMessage = onMessage;
+            connection.onError = onError;
+
+            const request = Buffer.concat([
+                Buffer.from([0x31, region]),
+                Buffer.from(`${seed}\0${filter}\0`, 'utf-8'),
+            ]);
+
+            if (this.debug) console.log("[DEBUG] Send:", request);
+
+            connection.endpoint.send(request);
+        });
+    }
+}
@@ -0,0 +1,224 @@
+import ProtocolBase from './protocol-base';
+import GameSpy4 from './gamespy4';
+import { BufferReader } from './lib/buffer-reader';
+import { BufferWriter } from './lib/buffer-writer';
+import { InvalidResponseError, ParseError, QueryAbortError, QueryError, QueryTimeoutError } from './errors';
+import type { MinecraftChatComponent, MinecraftFullStat, MinecraftParams, MinecraftStatus } from './interfaces/minecraft.interface';
+import type { QueryOptions } from './interfaces/query.interface';
+
+/**
+ * A class for querying Minecraft: Java Edition servers.
+ * Supports the Server List Ping over TCP (with a fallback to the legacy ping of servers older than 1.7)
+ * and the Query protocol over UDP, which lists every player and the plugins.
+ *
+ * @example
+ * const minecraft = new Minecraft({ host: '127.0.0.1', port: 25565 });
+ * const status = await minecraft.getStatus();
+ * console.log(status.motd, status.players.online);
+ */
+export default class Minecraft extends ProtocolBase {
+    public readonly fullName = 'Minecraft Protocol';
+
+    protected readonly srvService = '_minecraft._tcp';
+
+    private queryPort?: number;
+
+    /**
+     * Creates a new Minecraft server query instance.
+     *
+     * @param params - A JSON object containing the configuration for the Minecraft instance.
+     * @param params.host - The IP address or hostname of the server.
+     * @param params.port - The port number of the server.
+     * @param params.timeout - The timeout duration (in milliseconds) for server queries. Default is 5000.
+     * @param params.debug - Enables debug logging if true. Default is false.
+     * @param params.queryPort - The UDP port of the Query protocol. Default is the server port.
+     * @param params.srv - Looks up the `_minecraft._tcp` DNS SRV record of the host first, as the game does. Default is false.
+     */
+    constructor(params: MinecraftParams) {
+        super(params);
+        this.queryPort = params.queryPort;
+    }
+
+    /**
+     * Retrieves the server status using the Server List Ping.
+     * If the server does not understand it, the legacy ping is tried instead.
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the server status.
+     */
+    public async getStatus(options: QueryOptions = {}): Promise<MinecraftStatus> {
+        try {
+            return await this.getServerListPing(options);
+        } catch (err) {
+            // Servers older than 1.7 close the connection or answer with a kick packet, but do answer the legacy ping
+            if (!(err instanceof QueryError) || err instanceof QueryTimeoutError || err instanceof QueryAbortError) {
+                throw err;
+            }
+
+            if (this.debug) console.log("[DEBUG] Server List Ping failed, trying the legacy ping:", err.message);
+            return this.getLegacyStatus(options);
+        }
+    }
+
+    /**
+     * Retrieves the server status using the legacy ping (`0xFE 0x01`) of servers older than 1.7.
+     * Servers older than 1.4 only report the MOTD and the player counts.
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the server status.
+     */
+    public getLegacyStatus(options: QueryOptions = {}): Promise<MinecraftStatus> {
+        return this.tcp('LEGACY_PING', Buffer.from([0xFE, 0x01]), (data) => {
+            if (data[0] !== 0xFF) {
+                throw new InvalidResponseError(this.details('LEGACY_PING', data));
+            }
+
+            // Kick packet: the length in characters, then the UTF-16BE string
+            if (data.length < 3 || data.length < 3 + data.readUInt16BE(1) * 2) {
+                return undefined;
+            }
+
+            const text = Buffer.from(data.subarray(3, 3 + data.readUInt16BE(1) * 2)).swap16().toString('utf16le');
+
+            // 1.4 and later: §1\0protocol\0version\0motd\0online\0max
+            if (text.startsWith('§1\0')) {
+                const [, protocol, name, motd, online, max] = text.split('\0');
+
+                return {
+                    version: { name, protocol: Number(protocol) },
+                    players: { max: Number(max), online: Number(online) },
+                    description: motd,
+                    motd: Minecraft.stripFormatting(motd),
+                };
+            }
+
+            // Beta 1.8 to 1.3: motd§online§max, where the MOTD may contain § formatting codes itself
+            const fields = text.split('§');
+
+            if (fields.length < 3) {
+                throw new ParseError(this.details('LEGACY_PING', data), 'Expected the MOTD and the player counts');
+            }
+
+            const max = fields.pop();
+            const online = fields.pop();
+            const motd = fields.join('§');
+
+            return {
+                version: { name: '', protocol: -1 },
+                players: { max: Number(max), online: Number(online) },
+                description: motd,
+                motd: Minecraft.stripFormatting(motd),
+            };
+        }, options);
+    }
+
+    /**
+     * Retrieves every player and the plugins using the Query protocol (GameSpy 4).
+     * The server must have `enable-query=true` in `server.properties`.
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the full stat.
+     */
+    public async getFullStat(options: QueryOptions = {}): Promise<MinecraftFullStat> {
+        const target = await this.resolveTarget();
+        const gamespy4 = new GameSpy4({ host: target.host, port: this.queryPort ?? target.port, timeout: this.timeout, debug: this.debug });
+        const { info, players } = await gamespy4.getStatus(options);
+        const result: MinecraftFullStat = { info, plugins: [], players: players.map((player) => player.player ?? '') };
+
+        // e.g. "CraftBukkit on Bukkit 1.20.4: WorldEdit 7.2.15; Essentials 2.20.1"
+        if (info.plugins) {
+            const [software, plugins] = info.plugins.split(/:\s*([\s\S]*)/);
+            result.software = software.trim();
+            result.plugins = plugins ? plugins.split(';').map((plugin) => plugin.trim()).filter(Boolean) : [];
+        }
+
+        return result;
+    }
+
+    /**
+     * Retrieves the server status using the Server List Ping of Minecraft 1.7 and later.
+     *
+     * @param options - The query options.
+     * @returns A promise that resolves with the server status.
+     */
+    private getServerListPing(options: QueryOptions): Promise<MinecraftStatus> {
+        const host = Buffer.from(this.host, 'utf-8');
+
+        // Handshake: packet id, protocol version (-1 when pinging), server address, port and next state (1 = status)
+        const handshake = new BufferWriter()
+            .writeVarInt(0x00)
+            .writeVarInt(-1)
+            .writeVarInt(host.length)
+            .writeBytes(host)
+            .writeUint16(this.port, false)
+            .writeVarInt(1)
+            .toBuffer();
+
+        // Followed by the status request, which has no fields
+        const request = new BufferWriter().writeVarInt(handshake.length).writeBytes(handshake).writeVarInt(1).writeVarInt(0x00).toBuffer();
+
+        return this.tcp('STATUS', request, (data) => {
+            // The length prefix is complete once a byte without the continuation bit has arrived
+            if (data.length < 5 && !data.some((byte) => (byte & 0x80) === 0)) {
+                return undefined;
+            }
+
+            const reader = new BufferReader(data);
+            const length = reader.readVarInt();
+
+            if (data.length < reader.getOffset() + length) {
+                return undefined;
+            }
+
+            if (reader.readVarInt() !== 0x00) {
+                throw new InvalidResponseError(this.details('STATUS', data));
+            }
+
+            const json = Minecraft.readJson(reader);
+
+            if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+                throw new InvalidResponseError(this.details('STATUS', data), 'Expected an object');
+            }
+
+            const status = json as MinecraftStatus;
+
+            return { ...status, motd: Minecraft.flatten(status.description ?? '') };
+        }, options);
+    }
+
+    /**
+     * Reads the JSON string of the status response.
+     *
+     * @param reader - The reader, at the length prefix of the string.
+     * @returns The parsed JSON.
+     */
+    private static readJson(reader: BufferReader): unknown {
+        const length = reader.readVarInt();
+        return JSON.parse(reader.readBytes(length, 'json').toString('utf-8'));
+    }
+
+    /**
+     * Flattens a chat component to plain text.
+     *
+     * @param component - The chat component, or a string with `§` formatting codes.
+     * @returns The plain text.
+     */
+    private static flatten(component: MinecraftChatComponent | string): string {
+        if (typeof component === 'string') {
+            return Minecraft.stripFormatting(component);
+        }
+
+        const text = (component.text ?? component.translate ?? '') + (component.extra ?? []).map((child) => Minecraft.flatten(child)).join('');
+        return Minecraft.stripFormatting(text);
+    }
+
+    /**
+     * Strips the `§` formatting codes (colors and styles) from a text.
+     *
+     * @param text - The text.
+     * @returns The text without formatting codes.
+     */
+    private static stripFormatting(text: string): string {
+        return text.replace(/§./g, '');
+    }
+}
@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import { UdpEndpoint } from './lib/udp-endpoint';
+import type { CapturedPacket, PacketCapture, PacketRecorderParams, UdpTransportFactory } from './interfaces/transport.interface';
+
+/**
+ * A class for capturing the exact packets of real queries, e.g. to attach them to a bug report
+ * or to replay them in a test with {@link PacketReplay}.
+ * Pass its `transport` to a protocol, run the queries, then save the capture.
+ *
+ * @example
+ * const recorder = new PacketRecorder();
+ * const source = new Source({ host: '91.216.250.10', port: 27015, transport: recorder.transport });
+ * await source.getAll();
+ * await recorder.save('capture.json');
+ */
+export default class PacketRecorder {
+    private inner: UdpTransportFactory;
+    private start?: number;
+    private target?: { host: string; port: number };
+    private packets: CapturedPacket[] = [];
+
+    /**
+     * Creates a new packet recorder.
+     *
+     * @param params - A JSON object containing the configuration for the PacketRecorder instance.
+     * @param params.transport - The transport whose packets are captured. Default is the UDP transport the protocols use.
+     */
+    constructor(params: PacketRecorderParams = {}) {
+        this.inner = params.transport ?? ((target, handlers) => new UdpEndpoint(target, handlers));
+    }
+
+    /**
+     * The transport to pass to a protocol. Every transport it creates adds its packets to this capture.
+     */
+    public readonly transport: UdpTransportFactory = (target, handlers) => {
+        // A failed lookup is reported to the handlers by the inner transport
+        target.then((resolved) => {
+            this.target = this.target ?? resolved;
+        }, () => undefined);
+
+        const transport = this.inner(target, {
+            onMessage: (message) => {
+                this.record('receive', message);
+                handlers.onMessage(message);
+            },
+            onError: handlers.onError,
+        });
+
+        return {
+            get target() {
+                return transport.target;
+            },
+            get address() {
+                return transport.address;
+            },
+            send: (packet) => {
+                this.record('send', packet);
+                transport.send(packet);
+            },
+            close: () => transport.close(),
+            unref: () => transport.unref?.(),
+        };
+    };
+
+    /**
+     * Gets the packets captured so far.
+     *
+     * @returns The capture.
+     */
+    public toJSON(): PacketCapture {
+        return { version: 1, target: this.target, packets: [...this.packets] };
+    }
+
+    /**
+     * Saves the packets captured so far to a JSON file.
+     *
+     * @param path - The path of the file.
+     * @returns A promise that resolves once the file is written.
+     */
+    public save(path: string): Promise<void> {
+        return fs.promises.writeFile(path, `${JSON.stringify(this.toJSON(), null, 2)}\n`);
+    }
+
+    /**
+     * Adds a packet to the capture.
+     *
+     * @param direction - Whether the packet was sent or received.
+     * @param packet - The packet.
+     */
+    private record(direction: CapturedPacket['direction'], packet: Buffer): void {
+        const now = Date.now();
+        this.start = this.start ?? now;
+        this.packets.push({ direction, data: packet.toString('hex'), time: now - this.start });
+    }
+}
@@ -0,0 +1,95 @@
+import * as fs from 'fs';
+import type { PacketCapture, UdpTransport, UdpTransportFactory, UdpTransportHandlers } from './interfaces/transport.interface';
+
+/**
+ * A class for feeding the packets of a {@link PacketRecorder} capture back to a protocol, without any network access.
+ * Each packet the protocol sends has to match the next sent packet of the capture, and is answered
+ * with the packets received after it. The packets are shared by every transport it creates, in order.
+ *
+ * @example
+ * const replay = await PacketReplay.load('capture.json');
+ * const source = new Source({ host: '91.216.250.10', port: 27015, transport: replay.transport });
+ * const info = await source.getInfo();
+ */
+export default class PacketReplay {
+    private capture: PacketCapture;
+    private position = 0;
+
+    /**
+     * Creates a new packet replay.
+     *
+     * @param capture - The capture to feed back.
+     */
+    constructor(capture: PacketCapture) {
+        this.capture = capture;
+    }
+
+    /**
+     * Loads a capture saved by {@link PacketRecorder.save}.
+     *
+     * @param path - The path of the file.
+     * @returns A promise that resolves with the replay.
+     */
+    public static async load(path: string): Promise<PacketReplay> {
+        return new PacketReplay(JSON.parse(await fs.promises.readFile(path, 'utf-8')));
+    }
+
+    /**
+     * Whether every packet of the capture has been sent or received.
+     */
+    public get done(): boolean {
+        return this.position >= this.capture.packets.length;
+    }
+
+    /**
+     * The transport to pass to a protocol.
+     */
+    public readonly transport: UdpTransportFactory = (target, handlers) => {
+        let closed = false;
+
+        const transport: UdpTransport = {
+            target: this.capture.target,
+            send: (packet) => {
+                if (!closed) this.send(packet, handlers, () => closed);
+            },
+            close: () => {
+                closed = true;
+            },
+        };
+
+        return transport;
+    };
+
+    /**
+     * Checks a sent packet against the capture and answers it with the packets received after it.
+     *
+     * @param packet - The sent packet.
+     * @param handlers - The handlers of the transport that sent it.
+     * @param isClosed - Whether the transport has been closed since.
+     */
+    private send(packet: Buffer, handlers: UdpTransportHandlers, isClosed: () => boolean): void {
+        const index = this.position;
+        const expected = this.capture.packets[index];
+
+        if (!expected || expected.direction !== 'send' || expected.data !== packet.toString('hex')) {
+            const description = expected && expected.direction === 'send' ? expected.data : 'no more sent packets';
+            setImmediate(() => handlers.onError(new Error(`Replay mismatch at packet ${index}: expected ${description}, got ${packet.toString('hex')}`)));
+            return;
+        }
+
+        this.position++;
+
+        // Deliver the answers one by one and asynchronously, as a socket would
+        const deliver = () => {
+            const next = this.capture.packets[this.position];
+
+            if (!next || next.direction !== 'receive' || isClosed()) return;
+
+            this.position++;
+            handlers.onMessage(Buffer.from(next.data, 'hex'));
+            setImmediate(deliver);
+        };
+
+        setImmediate(deliver);
+    }
+}
@@ -0,0 +1,174 @@
+import * as net from 'net';
+import { HttpClient } from './lib/http-client';
+import { TcpClient } from './lib/tcp-client';
+import { UdpClient } from './lib/udp-client';
+import { lookupSrv } from './lib/resolver';
+import type { LookupAddress, QueryTarget } from './lib/resolver';
+import type { TcpResponseHandler } from './lib/tcp-client';
+import type { UdpResponseHandler } from './lib/udp-client';
+import type { QueryErrorDetails } from './errors';
+import type { ProtocolParams } from './interfaces/protocol.interface';
+import type { QueryOptions } from './interfaces/query.interface';
+
+/**
+ * The base class of every game server query protocol.
+ * It holds the common configuration and provides the UDP, TCP and HTTP transports with timeout, abort and debug logging,
+ * so a protocol only has to build its requests and parse the responses.
+ */
+export default abstract class ProtocolBase {
+    protected host: string;
+    protected port: number;
+    protected timeout: number;
+    protected debug: boolean;
+    protected srv: boolean | string;
+
+    /**
+     * The full name of the protocol, e.g. `Source Engine Protocol`.
+     */
+    public abstract readonly fullName: string;
+
+    /**
+     * The DNS SRV service the `srv: true` option looks up, e.g. `_minecraft._tcp`. Undefined if the protocol has none.
+     */
+    protected readonly srvService?: string;
+
+    /**
+     * Creates a new protocol instance.
+     *
+     * @param params - A JSON object containing the configuration for the protocol instance.
+     * @param params.host - The IP address or hostname of the server.
+     * @param params.port - The port number of the server.
+     * @param params.timeout - The timeout duration (in milliseconds) for server queries. Default is 5000.
+     * @param params.debug - Enables debug logging if true. Default is false.
+     * @param params.srv - Looks up the DNS SRV record of the host first. Default is false.
+     */
+    constructor(params: ProtocolParams) {
+        this.host = params.host;
+        this.port = params.port;
+        this.timeout = params.timeout ?? 5000;
+        this.debug = params.debug ?? false;
+        this.srv = params.srv ?? false;
+    }
+
+    /**
+     * Retrieves the main status of the server, e.g. A2S_INFO for the Source protocol.
+     * This is what the protocol registry returns for a query.
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the server status.
+     */
+    public abstract getStatus(options?: QueryOptions): Promise<unknown>;
+
+    /**
+     * Sends a UDP request and feeds every received datagram to the handler until it returns a result.
+     *
+     * @param requestType - The name of the request, reported in errors.
+     * @param packet - The request packet.
+     * @param handle - Handles each datagram, returning undefined while the response is incomplete.
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the request.
+     * @param target - The host and port to query. Default is the result of {@link resolveTarget}.
+     * @returns A promise that resolves with the result of the handler, or rejects with a `QueryError`.
+     */
+    protected async udp<T>(requestType: string, packet: Buffer, handle: UdpResponseHandler<T>, options: QueryOptions = {}, target?: QueryTarget): Promise<T> {
+        const { host, port } = target ?? await this.resolveTarget();
+        const client = new UdpClient(host, port, this.timeout, this.debug);
+
+        try {
+            return await client.request(requestType, packet, handle, options.signal);
+        } finally {
+            this.reportAddress(options, host, port, client.address);
+        }
+    }
+
+    /**
+     * Connects over TCP, sends a request and feeds the received data to the handler until it returns a result.
+     *
+     * @param requestType - The name of the request, reported in errors.
+     * @param packet - The request packet, or an empty buffer if the server speaks first.
+     * @param handle - Handles all the data received so far, returning undefined while the response is incomplete.
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the request.
+     * @param target - The host and port to query. Default is the result of {@link resolveTarget}.
+     * @returns A promise that resolves with the result of the handler, or rejects with a `QueryError`.
+     */
+    protected async tcp<T>(requestType: string, packet: Buffer, handle: TcpResponseHandler<T>, options: QueryOptions = {}, target?: QueryTarget): Promise<T> {
+        const { host, port } = target ?? await this.resolveTarget();
+        const client = new TcpClient(host, port, this.timeout, this.debug);
+
+        try {
+            return await client.request(requestType, packet, handle, options.signal);
+        } finally {
+            this.reportAddress(options, host, port, client.address);
+        }
+    }
+
+    /**
+     * Sends an HTTP GET request to the server and collects the response body.
+     *
+     * @param requestType - The name of the request, reported in errors.
+     * @param path - The path of the request, e.g. `/info.json`.
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the request.
+     * @returns A promise that resolves with the response body, or rejects with a `QueryError`.
+     */
+    protected async http(requestType: string, path: string, options: QueryOptions = {}): Promise<Buffer> {
+        const { host, port } = await this.resolveTarget();
+        const client = new HttpClient(host, port, this.timeout, this.debug);
+
+        try {
+            return await client.get(requestType, path, options.signal);
+        } finally {
+            this.reportAddress(options, host, port, client.address);
+        }
+    }
+
+    /**
+     * Resolves the host and port to query: the configured ones, or the target of the DNS SRV record
+     * of the host if the `srv` option is enabled and the record exists.
+     *
+     * @returns A promise that resolves with the host and port.
+     */
+    protected async resolveTarget(): Promise<QueryTarget> {
+        return await this.lookupService() ?? { host: this.host, port: this.port };
+    }
+
+    /**
+     * Looks up the DNS SRV record of the host if the `srv` option is enabled.
+     *
+     * @returns A promise that resolves with the target of the record, or undefined if disabled or there is no record.
+     */
+    protected async lookupService(): Promise<QueryTarget | undefined> {
+        const service = this.srv === true ? this.srvService : this.srv || undefined;
+
+        if (!service || net.isIP(this.host) !== 0) {
+            return undefined;
+        }
+
+        const record = await lookupSrv(`${service}.${this.host}`);
+        if (this.debug) console.log("[DEBUG] SRV record:", `${service}.${this.host}`, '->', record ? `${record.host}:${record.port}` : 'none');
+        return record;
+    }
+
+    /**
+     * Passes the address of the server that answered a query to its `onAddress` option.
+     *
+     * @param options - The query options.
+     * @param host - The host queried.
+     * @param port - The port queried.
+     * @param address - The IP address that answered, if any did.
+     */
+    protected reportAddress(options: QueryOptions, host: string, port: number, address?: LookupAddress): void {
+        if (address && options.onAddress) {
+            options.onAddress({ host, port, address: address.address, family: address.family });
+        }
+    }
+
+    /**
+     * Builds the details of a query error.
+     *
+     * @param requestType - The name of the request that failed.
+     * @param data - The raw bytes received before the failure, if any.
+     * @returns The error details.
+     */
+    protected details(requestType?: string, data?: Buffer): QueryErrorDetails {
+        return { host: this.host, port: this.port, requestType, data };
+    }
+}
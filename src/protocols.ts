@@ -0,0 +1,98 @@
+import ASE from './ase';
+import Battlefield from './battlefield';
+import FiveM from './fivem';
+import GameSpy1 from './gamespy1';
+import GameSpy2 from './gamespy2';
+import GameSpy3 from './gamespy3';
+import GameSpy4 from './gamespy4';
+import Minecraft from './minecraft';
+import Quake1 from './quake1';
+import Quake2 from './quake2';
+import Quake3 from './quake3';
+import RakNet from './raknet';
+import Source from './source';
+import TeamSpeak3 from './teamspeak3';
+import Unreal2 from './unreal2';
+import type ProtocolBase from './protocol-base';
+import type { ProtocolParams } from './interfaces/protocol.interface';
+import type { QueryOptions } from './interfaces/query.interface';
+
+/**
+ * The supported protocols, by the name used to select them (e.g. in configuration files or on the command line).
+ */
+export const protocols = {
+    ase: ASE,
+    battlefield: Battlefield,
+    fivem: FiveM,
+    gamespy1: GameSpy1,
+    gamespy2: GameSpy2,
+    gamespy3: GameSpy3,
+    gamespy4: GameSpy4,
+    minecraft: Minecraft,
+    quake1: Quake1,
+    quake2: Quake2,
+    quake3: Quake3,
+    raknet: RakNet,
+    source: Source,
+    teamspeak3: TeamSpeak3,
+    unreal2: Unreal2,
+};
+
+/**
+ * The name of a supported protocol.
+ */
+export type ProtocolName = keyof typeof protocols;
+
+type ProtocolClass<K extends ProtocolName> = (typeof protocols)[K];
+
+type ProtocolParamsOf<K extends ProtocolName> = ConstructorParameters<ProtocolClass<K>>[0] & ProtocolParams;
+
+/**
+ * Lists the names of the supported protocols.
+ *
+ * @returns The protocol names.
+ */
+export function getProtocols(): ProtocolName[] {
+    return Object.keys(protocols) as ProtocolName[];
+}
+
+/**
+ * Creates an instance of a protocol by its name.
+ *
+ * @param name - The name of the protocol, e.g. `source`.
+ * @param params - The configuration of the protocol instance.
+ * @returns The protocol instance.
+ * @throws Will throw an error if the protocol is not supported.
+ */
+export function createProtocol<K extends ProtocolName>(name: K, params: ProtocolParamsOf<K>): InstanceType<ProtocolClass<K>>;
+export function createProtocol(name: string, params: ProtocolParams): ProtocolBase;
+export function createProtocol(name: string, params: ProtocolParams): ProtocolBase {
+    if (!Object.prototype.hasOwnProperty.call(protocols, name)) {
+        throw new Error(`Unknown protocol: ${name}`);
+    }
+
+    const Protocol: new (params: ProtocolParams) => ProtocolBase = protocols[name as ProtocolName];
+    return new Protocol(params);
+}
+
+/**
+ * Queries the status of a server with a protocol selected by its name.
+ *
+ * @example
+ * const info = await query('source', { host: '127.0.0.1', port: 27015 });
+ *
+ * @param name - The name of the protocol, e.g. `source`.
+ * @param params - The configuration of the protocol instance.
+ * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+ * @returns A promise that resolves with the server status returned by the protocol's `getStatus()`.
+ * @throws Will throw an error if the protocol is not supported.
+ */
+export function query<K extends ProtocolName>(name: K, params: ProtocolParamsOf<K>, options?: QueryOptions): ReturnType<InstanceType<ProtocolClass<K>>['getStatus']>;
+export function query(name: string, params: ProtocolParams, options?: QueryOptions): Promise<unknown>;
+export function query(name: string, params: ProtocolParams, options: QueryOptions = {}): Promise<unknown> {
+    try {
+        return createProtocol(name, params).getStatus(options);
+    } catch (err) {
+        return Promise.reject(err);
+    }
+}
@@ -0,0 +1,149 @@
+import ProtocolBase from './protocol-base';
+import { InvalidResponseError } from './errors';
+import type { QuakeParams, QuakeStatus } from './interfaces/quake.interface';
+import type { QueryOptions } from './interfaces/query.interface';
+
+/**
+ * The base class of the Quake protocols. The servers answer out-of-band commands (prefixed with `\xFF\xFF\xFF\xFF`)
+ * with a backslash-delimited info string, followed by one line per player.
+ */
+export default abstract class QuakeBase<TPlayer> extends ProtocolBase {
+    protected stripColors: boolean;
+
+    /**
+     * The command requesting the status, e.g. `status`.
+     */
+    protected abstract readonly requestHeader: string;
+
+    /**
+     * The header of the status response, e.g. `print\n`.
+     */
+    protected abstract readonly responseHeader: string;
+
+    /**
+     * Creates a new Quake server query instance.
+     *
+     * @param params - A JSON object containing the configuration for the instance.
+     * @param params.host - The IP address or hostname of the server.
+     * @param params.port - The port number of the server.
+     * @param params.timeout - The timeout duration (in milliseconds) for server queries. Default is 5000.
+     * @param params.debug - Enables debug logging if true. Default is false.
+     * @param params.stripColors - Strips the color codes from the info values and player names. Default is true.
+     */
+    constructor(params: QuakeParams) {
+        super(params);
+        this.stripColors = params.stripColors ?? true;
+    }
+
+    /**
+     * Retrieves the server info keys and the players.
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the server status.
+     */
+    public getStatus(options: QueryOptions = {}): Promise<QuakeStatus<TPlayer>> {
+        return this.command(this.requestHeader, this.responseHeader, (body) => {
+            const [info, ...players] = body.split('\n').filter((line) => line.trim().length > 0);
+
+            return {
+                info: this.parseInfo(info ?? ''),
+                players: players.map((line) => this.parsePlayer(QuakeBase.tokenize(line))),
+            };
+        }, options);
+    }
+
+    /**
+     * Sends an out-of-band command and parses the response.
+     *
+     * @param request - The command, e.g. `getstatus`.
+     * @param responseHeader - The header the response must start with.
+     * @param parse - Parses the response body following the header.
+     * @param options - The query options.
+     * @returns A promise that resolves with the parsed response.
+     */
+    protected command<T>(request: string, responseHeader: string, parse: (body: string) => T, options: QueryOptions): Promise<T> {
+        const header = Buffer.from(`\xFF\xFF\xFF\xFF${responseHeader}`, 'latin1');
+        const packet = Buffer.from(`\xFF\xFF\xFF\xFF${request}\n`, 'latin1');
+
+        return this.udp(request, packet, (message) => {
+            if (!message.subarray(0, header.length).equals(header)) {
+                throw new InvalidResponseError(this.details(request, message));
+            }
+
+            // The strings are bytes rather than UTF-8, so latin1 keeps every byte intact
+            return parse(message.subarray(header.length).toString('latin1'));
+        }, options);
+    }
+
+    /**
+     * Parses a backslash-delimited info string, e.g. `\hostname\My Server\mapname\q3dm17`.
+     *
+     * @param text - The info string.
+     * @returns The info keys and values.
+     */
+    protected parseInfo(text: string): Record<string, string> {
+        const items = text.trim().split('\\');
+        const info: Record<string, string> = {};
+
+        // The string starts with a backslash, so the first item is empty
+        for (let i = items[0] === '' ? 1 : 0; i + 1 < items.length; i += 2) {
+            info[items[i]] = this.clean(items[i + 1]);
+        }
+
+        return info;
+    }
+
+    /**
+     * Parses the tokens of a player line.
+     *
+     * @param tokens - The space-separated tokens of the line, with the quotes removed.
+     * @returns The player.
+     */
+    protected abstract parsePlayer(tokens: string[]): TPlayer;
+
+    /**
+     * Strips the color codes from a text, unless the raw text is requested.
+     *
+     * @param text - The text.
+     * @returns The text without color codes.
+     */
+    protected clean(text: string): string {
+        // ^0-^9 and other single characters, and ^Xrrggbb hexadecimal colors
+        return this.stripColors ? text.replace(/\^(X[0-9A-Fa-f]{6}|.)/g, '') : text;
+    }
+
+    /**
+     * Converts a numeric token of a player line.
+     *
+     * @param token - The token.
+     * @returns The number.
+     * @throws Will throw an error if the token is missing or not a number.
+     */
+    protected static toNumber(token: string | undefined): number {
+        const value = Number(token);
+
+        if (token === undefined || token === '' || isNaN(value)) {
+            throw new Error(`Invalid player field: ${token}`);
+        }
+
+        return value;
+    }
+
+    /**
+     * Splits a player line into space-separated tokens, keeping quoted strings (e.g. names with spaces) whole.
+     *
+     * @param line - The player line.
+     * @returns The tokens, with the quotes removed.
+     */
+    private static tokenize(line: string): string[] {
+        const tokens: string[] = [];
+        const pattern = /"([^"]*)"|(\S+)/g;
+        let match;
+
+        while ((match = pattern.exec(line)) !== null) {
+            tokens.push(match[1] ?? match[2]);
+        }
+
+        return tokens;
+    }
+}
@@ -0,0 +1,35 @@
+import QuakeBase from './quake-base';
+import type { Quake1Player } from './interfaces/quake.interface';
+
+/**
+ * A class for querying Quake 1 (QuakeWorld) servers using the `status` command.
+ *
+ * @example
+ * const quake1 = new Quake1({ host: '127.0.0.1', port: 27500 });
+ * const status = await quake1.getStatus();
+ * console.log(status.info.hostname, status.players);
+ */
+export default class Quake1 extends QuakeBase<Quake1Player> {
+    public readonly fullName: string = 'Quake1 Protocol';
+    protected readonly requestHeader: string = 'status';
+    protected readonly responseHeader: string = 'n';
+
+    /**
+     * Parses a player line, e.g. `2 15 40 25 "Player" "base" 4 4`.
+     *
+     * @param tokens - The tokens of the line.
+     * @returns The player.
+     */
+    protected parsePlayer(tokens: string[]): Quake1Player {
+        return {
+            id: QuakeBase.toNumber(tokens[0]),
+            score: QuakeBase.toNumber(tokens[1]),
+            time: QuakeBase.toNumber(tokens[2]),
+            ping: QuakeBase.toNumber(tokens[3]),
+            name: this.clean(tokens[4] ?? ''),
+            skin: tokens[5] ?? '',
+            color1: QuakeBase.toNumber(tokens[6]),
+            color2: QuakeBase.toNumber(tokens[7]),
+        };
+    }
+}
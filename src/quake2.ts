@@ -0,0 +1,36 @@
+import QuakeBase from './quake-base';
+import type { Quake2Player } from './interfaces/quake.interface';
+
+/**
+ * A class for querying Quake 2 servers using the `status` command.
+ *
+ * @example
+ * const quake2 = new Quake2({ host: '127.0.0.1', port: 27910 });
+ * const status = await quake2.getStatus();
+ * console.log(status.info.hostname, status.players);
+ */
+export default class Quake2 extends QuakeBase<Quake2Player> {
+    public readonly fullName: string = 'Quake2 Protocol';
+    protected readonly requestHeader: string = 'status';
+    protected readonly responseHeader: string = 'print\n';
+
+    /**
+     * Parses a player line, e.g. `15 40 "Player"`, optionally followed by the player address.
+     *
+     * @param tokens - The tokens of the line.
+     * @returns The player.
+     */
+    protected parsePlayer(tokens: string[]): Quake2Player {
+        const player: Quake2Player = {
+            score: QuakeBase.toNumber(tokens[0]),
+            ping: QuakeBase.toNumber(tokens[1]),
+            name: this.clean(tokens[2] ?? ''),
+        };
+
+        if (tokens[3] !== undefined) {
+            player.address = tokens[3];
+        }
+
+        return player;
+    }
+}
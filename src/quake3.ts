@@ -0,0 +1,29 @@
+import Quake2 from './quake2';
+import type { QueryOptions } from './interfaces/query.interface';
+
+/**
+ * A class for querying Quake 3 and other id Tech 3 based servers (e.g. Urban Terror, Wolfenstein: Enemy Territory,
+ * Call of Duty 1-4) using the `getinfo` and `getstatus` commands.
+ *
+ * @example
+ * const quake3 = new Quake3({ host: '127.0.0.1', port: 27960 });
+ * const info = await quake3.getInfo();
+ * const status = await quake3.getStatus();
+ * console.log(info.hostname, status.players);
+ */
+export default class Quake3 extends Quake2 {
+    public readonly fullName: string = 'Quake3 Protocol';
+    protected readonly requestHeader: string = 'getstatus';
+    protected readonly responseHeader: string = 'statusResponse\n';
+
+    /**
+     * Retrieves the server info keys without the players. The response is smaller than the one of `getStatus()`
+     * and includes keys such as `clients` (the number of players).
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the server info keys.
+     */
+    public getInfo(options: QueryOptions = {}): Promise<Record<string, string>> {
+        return this.command('getinfo opengsq', 'infoResponse\n', (body) => this.parseInfo(body.split('\n')[0]), options);
+    }
+}
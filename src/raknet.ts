@@ -0,0 +1,100 @@
+import * as crypto from 'crypto';
+import { performance } from 'perf_hooks';
+import ProtocolBase from './protocol-base';
+import { BufferReader } from './lib/buffer-reader';
+import { InvalidResponseError } from './errors';
+import type { RakNetStatus } from './interfaces/raknet.interface';
+import type { QueryOptions } from './interfaces/query.interface';
+
+const ID_UNCONNECTED_PING = 0x01;
+const ID_UNCONNECTED_PONG = 0x1C;
+
+// The magic bytes every offline (unconnected) message carries
+const OFFLINE_MESSAGE_DATA_ID = Buffer.from([0x00, 0xFF, 0xFF, 0x00, 0xFE, 0xFE, 0xFE, 0xFE, 0xFD, 0xFD, 0xFD, 0xFD, 0x12, 0x34, 0x56, 0x78]);
+
+/**
+ * A class for querying RakNet servers (e.g. Minecraft: Bedrock Edition) using the Unconnected Ping.
+ *
+ * @example
+ * const raknet = new RakNet({ host: '127.0.0.1', port: 19132 });
+ * const status = await raknet.getStatus();
+ * console.log(status.motd, status.players, status.latency);
+ */
+export default class RakNet extends ProtocolBase {
+    public readonly fullName = 'RakNet Protocol';
+
+    /**
+     * Retrieves the server status and measures the round-trip time.
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the server status.
+     */
+    public getStatus(options: QueryOptions = {}): Promise<RakNetStatus> {
+        const time = Buffer.alloc(8);
+        time.writeBigInt64BE(BigInt(Date.now()));
+
+        // Packet id, time, magic and client GUID
+        const request = Buffer.concat([Buffer.from([ID_UNCONNECTED_PING]), time, OFFLINE_MESSAGE_DATA_ID, crypto.randomBytes(8)]);
+
+        return this.udp('UNCONNECTED_PING', request, (message, send, sentAt) => {
+            const reader = new BufferReader(message);
+
+            if (reader.readUint8() !== ID_UNCONNECTED_PONG) {
+                throw new InvalidResponseError(this.details('UNCONNECTED_PING', message));
+            }
+
+            // Measured from the send, so the DNS lookup and the socket creation are not included
+            const latency = performance.now() - sentAt;
+            reader.readBigInt64(false); // The time of the ping, echoed back
+            reader.readBigInt64(false); // The GUID of the server
+            const magic = reader.subarray(reader.getOffset(), reader.getOffset() + OFFLINE_MESSAGE_DATA_ID.length);
+
+            if (!magic.equals(OFFLINE_MESSAGE_DATA_ID)) {
+                throw new InvalidResponseError(this.details('UNCONNECTED_PING', message), 'Invalid offline message magic');
+            }
+
+            reader.skip(OFFLINE_MESSAGE_DATA_ID.length);
+            const length = reader.readUint16(false);
+            const raw = reader.readBytes(length, 'serverId').toString('utf-8');
+
+            return RakNet.parseServerId(raw, latency);
+        }, options);
+    }
+
+    /**
+     * Parses the semicolon-delimited server id string, e.g.
+     * `MCPE;Dedicated Server;622;1.20.50;0;10;13253860892328930865;Bedrock level;Survival;1;19132;19133;`.
+     *
+     * @param raw - The server id string.
+     * @param latency - The measured round-trip time.
+     * @returns The server status.
+     */
+    private static parseServerId(raw: string, latency: number): RakNetStatus {
+        const fields = raw.split(';');
+        const optionalNumber = (value: string | undefined) => value ? Number(value) : undefined;
+
+        const status: RakNetStatus = {
+            edition: fields[0] ?? '',
+            motd: fields[1] ?? '',
+            protocol: Number(fields[2] ?? 0),
+            version: fields[3] ?? '',
+            players: Number(fields[4] ?? 0),
+            maxPlayers: Number(fields[5] ?? 0),
+            serverGuid: fields[6] ?? '',
+            levelName: fields[7],
+            gamemode: fields[8],
+            gamemodeId: optionalNumber(fields[9]),
+            portIPv4: optionalNumber(fields[10]),
+            portIPv6: optionalNumber(fields[11]),
+            raw,
+            latency,
+        };
+
+        // Older servers send fewer fields
+        for (const key of Object.keys(status) as (keyof RakNetStatus)[]) {
+            if (status[key] === undefined) delete status[key];
+        }
+
+        return status;
+    }
+}
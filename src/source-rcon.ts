@@ -0,0 +1,310 @@
+import * as net from 'net';
+import { BufferReadError, BufferReader } from './lib/buffer-reader';
+import { InvalidResponseError, ParseError, QueryTimeoutError, RconAuthenticationError } from './errors';
+import type { SourceParams } from './interfaces/source.interface';
+import type { SourceRconPacket } from './interfaces/source-rcon.interface';
+
+const SERVERDATA_AUTH = 3;
+const SERVERDATA_AUTH_RESPONSE = 2;
+const SERVERDATA_EXECCOMMAND = 2;
+const SERVERDATA_RESPONSE_VALUE = 0;
+
+/**
+ * A class for executing commands on Source game servers using the Source RCON protocol over TCP.
+ *
+ * @example
+ * const rcon = new SourceRcon({ host: '127.0.0.1', port: 27015 });
+ * await rcon.authenticate('password');
+ * const status = await rcon.exec('status');
+ * console.log(status);
+ * rcon.close();
+ */
+export default class SourceRcon {
+    private host: string;
+    private port: number;
+    private timeout: number;
+    private debug: boolean;
+
+    private socket?: net.Socket;
+    private buffer: Buffer = Buffer.alloc(0);
+    private authenticated = false;
+    private requestId = 0;
+    private queue: Promise<unknown> = Promise.resolve();
+    private pending?: {
+        onPacket: (packet: SourceRconPacket) => void;
+        onClose: (err: Error) => void;
+    };
+
+    /**
+     * Creates a new Source RCON client instance.
+     *
+     * @param params - A JSON object containing the configuration for the SourceRcon instance.
+     * @param params.host - The IP address or hostname of the server.
+     * @param params.port - The RCON port number of the server.
+     * @param params.timeout - The timeout duration (in milliseconds) for each request. Default is 5000.
+     * @param params.debug - Enables debug logging if true. Default is false.
+     */
+    constructor(params: SourceParams) {
+        this.host = params.host;
+        this.port = params.port;
+        this.timeout = params.timeout ?? 5000;
+        this.debug = params.debug ?? false;
+    }
+
+    /**
+     * Connects to the server (if not connected yet) and authenticates with SERVERDATA_AUTH.
+     *
+     * @param password - The RCON password of the server.
+     * @returns A promise that resolves once the server has accepted the password.
+     * @throws Will reject if the password is wrong, the connection drops or the request times out.
+     */
+    public authenticate(password: string): Promise<void> {
+        return this.enqueue(async () => {
+            if (!this.socket) {
+                await this.connect();
+            }
+
+            const id = this.nextId();
+
+            await this.transact<void>(this.pack(id, SERVERDATA_AUTH, password), (packet, resolve, reject) => {
+                // The server answers with an empty SERVERDATA_RESPONSE_VALUE first, then the real
+                // SERVERDATA_AUTH_RESPONSE whose id is -1 when the password was rejected.
+                if (packet.type !== SERVERDATA_AUTH_RESPONSE) return;
+
+                if (packet.id === -1) {
+                    reject(new RconAuthenticationError('Authentication failed: wrong RCON password'));
+                } else if (packet.id === id) {
+                    resolve();
+                }
+            });
+
+            this.authenticated = true;
+        });
+    }
+
+    /**
+     * Executes a command on the server and returns the full response.
+     * Multi-packet responses are reassembled by sending an empty SERVERDATA_RESPONSE_VALUE
+     * packet after the command, which the server mirrors back once the whole response has been sent.
+     *
+     * @param command - The command to execute.
+     * @returns A promise that resolves with the response body.
+     * @throws Will reject if not authenticated, the connection drops or the request times out.
+     */
+    public exec(command: string): Promise<string> {
+        return this.enqueue(() => {
+            if (!this.authenticated) {
+                return Promise.reject(new Error('Not authenticated, call authenticate() first'));
+            }
+
+            const id = this.nextId();
+            const terminatorId = this.nextId();
+            const payload = Buffer.concat([
+                this.pack(id, SERVERDATA_EXECCOMMAND, command),
+                this.pack(terminatorId, SERVERDATA_RESPONSE_VALUE, ''),
+            ]);
+            const bodies: string[] = [];
+
+            return this.transact<string>(payload, (packet, resolve) => {
+                if (packet.type !== SERVERDATA_RESPONSE_VALUE) return;
+
+                if (packet.id === id) {
+                    bodies.push(packet.body);
+                } else if (packet.id === terminatorId) {
+                    resolve(bodies.join(''));
+                }
+            });
+        });
+    }
+
+    /**
+     * Closes the connection to the server.
+     */
+    public close(): void {
+        if (this.socket) {
+            this.socket.destroy();
+            this.socket = undefined;
+            this.authenticated = false;
+        }
+    }
+
+    /**
+     * Opens the TCP connection to the server.
+     *
+     * @returns A promise that resolves once connected.
+     */
+    private connect(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const socket = net.createConnection({ host: this.host, port: this.port });
+
+            const timeoutId = setTimeout(() => {
+                reject(new QueryTimeoutError({ host: this.host, port: this.port, requestType: 'connect' }, 'Connection timed out'));
+                socket.destroy();
+            }, this.timeout);
+
+            socket.once('connect', () => {
+                if (this.debug) console.log("[DEBUG] Connected:", `${this.host}:${this.port}`);
+                clearTimeout(timeoutId);
+                this.socket = socket;
+                resolve();
+            });
+            socket.on('error', (err) => {
+                clearTimeout(timeoutId);
+                reject(err);
+                this.onClose(socket, err);
+            });
+            socket.on('data', (data) => this.onData(socket, data));
+            socket.on('close', () => this.onClose(socket, new Error('Connection closed by the server')));
+        });
+    }
+
+    /**
+     * Sends a payload and feeds every received packet to the handler until it resolves or rejects.
+     *
+     * @param payload - The bytes to send.
+     * @param handler - Called for each received packet with the resolve and reject functions of the request.
+     * @returns A promise that resolves with the value passed to `resolve` by the handler.
+     */
+    private transact<T>(
+        payload: Buffer,
+        handler: (packet: SourceRconPacket, resolve: (value: T) => void, reject: (err: Error) => void) => void
+    ): Promise<T> {
+        return new Promise((resolve, reject) => {
+            const socket = this.socket;
+
+            if (!socket) {
+                reject(new Error('Not connected'));
+                return;
+            }
+
+            const settle = (err?: Error, value?: T) => {
+                clearTimeout(timeoutId);
+                this.pending = undefined;
+                if (err) reject(err); else resolve(value as T);
+            };
+
+            const timeoutId = setTimeout(() => {
+                settle(new QueryTimeoutError({ host: this.host, port: this.port, requestType: 'rcon' }));
+                // Late responses would be mistaken for the next request's, so drop the connection.
+                this.close();
+            }, this.timeout);
+
+            this.pending = {
+                onPacket: (packet) => handler(packet, (value) => settle(undefined, value), (err) => settle(err)),
+                onClose: (err) => settle(err),
+            };
+
+            if (this.debug) console.log("[DEBUG] Send:", payload);
+
+            socket.write(payload);
+        });
+    }
+
+    /**
+     * Buffers incoming TCP data and dispatches every complete packet.
+     * A malformed packet rejects the pending request and drops the connection, as the stream cannot be resynchronized.
+     *
+     * @param socket - The socket the chunk was received on.
+     * @param data - The received chunk.
+     */
+    private onData(socket: net.Socket, data: Buffer): void {
+        if (this.debug) console.log("[DEBUG] Recv:", data);
+
+        this.buffer = Buffer.concat([this.buffer, data]);
+
+        while (this.buffer.length >= 4) {
+            const size = this.buffer.readInt32LE(0);
+            const details = { host: this.host, port: this.port, requestType: 'rcon', data: this.buffer };
+
+            // The id, the type and the two null terminators take at least 10 bytes
+            if (size < 10) {
+                this.onClose(socket, new InvalidResponseError(details, `Invalid packet size: ${size}`));
+                socket.destroy();
+                return;
+            }
+
+            if (this.buffer.length < 4 + size) break;
+
+            let packet: SourceRconPacket;
+
+            try {
+                const reader = new BufferReader(this.buffer.subarray(4, 4 + size));
+                packet = {
+                    id: reader.readInt32(true, 'id'),
+                    type: reader.readInt32(true, 'type'),
+                    body: reader.readString('body'),
+                };
+            } catch (err) {
+                const message = err instanceof Error ? err.message : String(err);
+                this.onClose(socket, new ParseError(details, message, err instanceof BufferReadError ? err : undefined));
+                socket.destroy();
+                return;
+            }
+
+            this.buffer = this.buffer.subarray(4 + size);
+
+            if (this.pending) {
+                this.pending.onPacket(packet);
+            }
+        }
+    }
+
+    /**
+     * Resets the connection state and rejects the pending request, if any.
+     *
+     * @param socket - The socket that was closed.
+     * @param err - The reason the connection was closed.
+     */
+    private onClose(socket: net.Socket, err: Error): void {
+        // Ignore stale events from a socket that has already been replaced.
+        if (this.socket && this.socket !== socket) return;
+
+        this.socket = undefined;
+        this.buffer = Buffer.alloc(0);
+        this.authenticated = false;
+
+        if (this.pending) {
+            this.pending.onClose(err);
+        }
+    }
+
+    /**
+     * Builds a Source RCON packet.
+     *
+     * @param id - The request id.
+     * @param type - The packet type.
+     * @param body - The packet body.
+     * @returns The packet bytes.
+     */
+    private pack(id: number, type: number, body: string): Buffer {
+        const bodyBuffer = Buffer.from(body, 'utf-8');
+        const packet = Buffer.alloc(14 + bodyBuffer.length);
+        packet.writeInt32LE(10 + bodyBuffer.length, 0); // Size (excluding this field)
+        packet.writeInt32LE(id, 4);
+        packet.writeInt32LE(type, 8);
+        bodyBuffer.copy(packet, 12); // Body followed by two null bytes
+        return packet;
+    }
+
+    /**
+     * Gets the next request id, wrapping before it reaches the 32-bit signed limit.
+     *
+     * @returns The request id.
+     */
+    private nextId(): number {
+        this.requestId = (this.requestId % 0x7FFFFFFF) + 1;
+        return this.requestId;
+    }
+
+    /**
+     * Runs the task after every previously queued task, so requests never interleave on the connection.
+     *
+     * @param task - The task to run.
+     * @returns A promise that resolves with the result of the task.
+     */
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(task, task);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+}
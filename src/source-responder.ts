@@ -0,0 +1,441 @@
+import * as dgram from 'dgram';
+import * as crypto from 'crypto';
+import * as crc32 from 'crc-32';
+import type { AddressInfo } from 'net';
+import { BufferWriter } from './lib/buffer-writer';
+import type { SourcePlayerInfo, SourceServerInfo } from './interfaces/source.interface';
+import type { SourceResponderParams } from './interfaces/source-responder.interface';
+
+const A2S_INFO = 0x54;
+const A2S_PLAYER = 0x55;
+const A2S_RULES = 0x56;
+const A2S_SERVERQUERY_GETCHALLENGE = 0x57;
+
+// The size of a compressed Orange Box multi-packet header, the largest one
+const MAX_HEADER_SIZE = 20;
+
+/**
+ * A class for answering A2S queries, so a Node.js game server shows up in Source server browsers
+ * and `Source` can be tested without a real game server.
+ * Issues challenges and splits oversized responses into Source or GoldSource multi-packet responses,
+ * optionally compressed with a bzip2 compressor of your choice.
+ *
+ * @example
+ * const responder = new SourceResponder({ port: 27015, info, players, rules });
+ * await responder.listen();
+ * responder.players = [...]; // Update at any time
+ * await responder.close();
+ */
+export default class SourceResponder {
+    /**
+     * The server information returned for A2S_INFO queries.
+     */
+    public info: SourceServerInfo;
+
+    /**
+     * The players returned for A2S_PLAYER queries.
+     */
+    public players: SourcePlayerInfo[];
+
+    /**
+     * The rules returned for A2S_RULES queries.
+     */
+    public rules: Record<string, string>;
+
+    private host: string;
+    private port: number;
+    private challenge: boolean;
+    private obsoleteInfo: boolean;
+    private goldSource: boolean;
+    private orangeBox: boolean;
+    private compress?: (data: Buffer) => Buffer;
+    private maxPacketSize: number;
+    private debug: boolean;
+    private secret = crypto.randomBytes(16);
+    private packetId = 0;
+    private socket?: dgram.Socket;
+
+    /**
+     * Creates a new A2S responder instance.
+     *
+     * @param params - A JSON object containing the configuration for the SourceResponder instance.
+     * @param params.port - The local port to listen on.
+     * @param params.info - The server information returned for A2S_INFO queries.
+     * @throws {@link RangeError} if `maxPacketSize` is too small for a multi-packet header,
+     * or if there are more than 255 players or bots.
+     */
+    constructor(params: SourceResponderParams) {
+        this.host = params.host ?? '0.0.0.0';
+        this.port = params.port;
+        this.info = params.info;
+        this.players = params.players ?? [];
+        this.rules = params.rules ?? {};
+        this.challenge = params.challenge ?? true;
+        this.obsoleteInfo = params.obsoleteInfo ?? false;
+        this.goldSource = params.goldSource ?? false;
+        this.orangeBox = params.orangeBox ?? true;
+        this.compress = params.compress;
+        this.maxPacketSize = params.maxPacketSize ?? 1400;
+
+        if (this.maxPacketSize <= MAX_HEADER_SIZE) {
+            throw new RangeError(`maxPacketSize must be greater than ${MAX_HEADER_SIZE}, got ${this.maxPacketSize}`);
+        }
+        this.debug = params.debug ?? false;
+
+        // Serialize once, so counts that do not fit into a response throw here rather than on the first query
+        this.serializeInfo();
+        this.serializePlayers();
+    }
+
+    /**
+     * Starts listening for queries.
+     *
+     * @returns A promise that resolves once the socket is bound.
+     */
+    public listen(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const socket = dgram.createSocket('udp4');
+            socket.once('error', reject);
+            socket.on('message', (message, rinfo) => this.onMessage(message, rinfo));
+            socket.bind(this.port, this.host, () => {
+                socket.removeListener('error', reject);
+                socket.on('error', (err) => {
+                    if (this.debug) console.log("[DEBUG] Error:", err);
+                });
+                this.socket = socket;
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Stops listening for queries.
+     *
+     * @returns A promise that resolves once the socket is closed.
+     */
+    public close(): Promise<void> {
+        return new Promise((resolve) => {
+            if (!this.socket) {
+                resolve();
+                return;
+            }
+
+            this.socket.close(() => resolve());
+            this.socket = undefined;
+        });
+    }
+
+    /**
+     * Gets the address the responder is listening on.
+     *
+     * @returns The bound address, useful to find the port when listening on port 0.
+     */
+    public address(): AddressInfo {
+        if (!this.socket) {
+            throw new Error('Not listening');
+        }
+
+        return this.socket.address();
+    }
+
+    /**
+     * Handles an incoming query.
+     *
+     * @param message - The received datagram.
+     * @param rinfo - The address of the client.
+     */
+    private onMessage(message: Buffer, rinfo: dgram.RemoteInfo): void {
+        if (this.debug) console.log("[DEBUG] Recv:", message);
+
+        if (message.length < 5 || message.readInt32LE(0) !== -1) return;
+
+        const header = message[4];
+        let challenge: Buffer | undefined;
+
+        if (header === A2S_INFO) {
+            const end = message.indexOf(0x00, 5);
+            if (end === -1) return;
+            challenge = message.length >= end + 5 ? message.subarray(end + 1, end + 5) : undefined;
+        } else if (header === A2S_PLAYER || header === A2S_RULES || header === A2S_SERVERQUERY_GETCHALLENGE) {
+            challenge = message.length >= 9 ? message.subarray(5, 9) : undefined;
+        } else {
+            return;
+        }
+
+        const expected = this.getChallenge(rinfo);
+
+        if (header === A2S_SERVERQUERY_GETCHALLENGE || (this.challenge && (!challenge || challenge.readInt32LE(0) !== expected))) {
+            const response = Buffer.alloc(9);
+            response.writeInt32LE(-1, 0);
+            response.writeUInt8(0x41, 4);
+            response.writeInt32LE(expected, 5);
+            this.send(response, rinfo);
+            return;
+        }
+
+        // The public fields may have been changed to values that do not fit into a response, which leaves the query unanswered
+        try {
+            if (header === A2S_INFO) {
+                this.reply(this.obsoleteInfo ? this.serializeObsoleteInfo() : this.serializeInfo(), rinfo);
+            } else if (header === A2S_PLAYER) {
+                this.reply(this.serializePlayers(), rinfo);
+            } else {
+                this.reply(this.serializeRules(), rinfo);
+            }
+        } catch (err) {
+            if (this.debug) console.log("[DEBUG] Error:", err);
+        }
+    }
+
+    /**
+     * Derives the challenge number of a client from its address, so no per-client state has to be kept.
+     *
+     * @param rinfo - The address of the client.
+     * @returns The challenge number.
+     */
+    private getChallenge(rinfo: dgram.RemoteInfo): number {
+        const value = crypto.createHmac('sha256', this.secret).update(`${rinfo.address}:${rinfo.port}`).digest().readInt32LE(0);
+        // -1 (0xFFFFFFFF) is what clients send to ask for a challenge
+        return value === -1 ? 0 : value;
+    }
+
+    /**
+     * Sends a response, splitting it into multiple packets if it does not fit into one datagram.
+     *
+     * @param payload - The full response, starting with the single-packet header.
+     * @param rinfo - The address of the client.
+     */
+    private reply(payload: Buffer, rinfo: dgram.RemoteInfo): void {
+        if (payload.length <= this.maxPacketSize) {
+            this.send(payload, rinfo);
+            return;
+        }
+
+        this.packetId = (this.packetId + 1) & 0x7FFFFFFF;
+
+        if (this.goldSource) {
+            // The packet number and count share one byte, so at most 15 packets are possible
+            const chunkSize = Math.max(this.maxPacketSize - 9, Math.ceil(payload.length / 15));
+            const chunks = this.split(payload, chunkSize);
+
+            chunks.forEach((chunk, i) => {
+                const header = Buffer.alloc(9);
+                header.writeInt32LE(-2, 0);
+                header.writeInt32LE(this.packetId, 4);
+                header.writeUInt8((i << 4) | chunks.length, 8);
+                this.send(Buffer.concat([header, chunk]), rinfo);
+            });
+
+            return;
+        }
+
+        const data = this.compress ? this.compress(payload) : payload;
+        const headerSize = 10 + (this.orangeBox ? 2 : 0) + (this.compress ? 8 : 0);
+        // The packet count is one byte, so at most 255 packets are possible
+        const chunkSize = Math.max(this.maxPacketSize - headerSize, Math.ceil(data.length / 255));
+        const chunks = this.split(data, chunkSize);
+        const id = this.compress ? (this.packetId | 0x80000000) >>> 0 : this.packetId;
+
+        chunks.forEach((chunk, i) => {
+            const header = Buffer.alloc(headerSize);
+            let offset = header.writeInt32LE(-2, 0);
+            offset = header.writeUInt32LE(id, offset);
+            offset = header.writeUInt8(chunks.length, offset);
+            offset = header.writeUInt8(i, offset);
+
+            if (this.orangeBox) {
+                offset = header.writeUInt16LE(Math.min(headerSize + chunkSize, 0xFFFF), offset);
+            }
+
+            if (this.compress && i === 0) {
+                offset = header.writeUInt32LE(payload.length, offset);
+                offset = header.writeInt32LE(crc32.buf(payload), offset);
+            }
+
+            this.send(Buffer.concat([header.subarray(0, offset), chunk]), rinfo);
+        });
+    }
+
+    /**
+     * Splits data into chunks.
+     *
+     * @param data - The data to split.
+     * @param size - The maximum size of each chunk.
+     * @returns The chunks.
+     */
+    private split(data: Buffer, size: number): Buffer[] {
+        const chunks: Buffer[] = [];
+
+        for (let i = 0; i < data.length; i += size) {
+            chunks.push(data.subarray(i, i + size));
+        }
+
+        return chunks;
+    }
+
+    /**
+     * Sends a single datagram.
+     *
+     * @param packet - The datagram.
+     * @param rinfo - The address of the client.
+     */
+    private send(packet: Buffer, rinfo: dgram.RemoteInfo): void {
+        if (this.debug) console.log("[DEBUG] Send:", packet);
+
+        if (this.socket) {
+            this.socket.send(packet, 0, packet.length, rinfo.port, rinfo.address);
+        }
+    }
+
+    /**
+     * Serializes the A2S_INFO response.
+     *
+     * @returns The response payload.
+     */
+    private serializeInfo(): Buffer {
+        const info = this.info;
+        const extraData = info.extraData;
+        const writer = new BufferWriter()
+            .writeInt32(-1)
+            .writeUint8(0x49)
+            .writeUint8(info.protocol)
+            .writeString(info.name)
+            .writeString(info.map)
+            .writeString(info.folder)
+            .writeString(info.game)
+            .writeUint16(info.id ?? 0)
+            .writeUint8(count(info.players, 'info.players'))
+            .writeUint8(count(info.maxPlayers, 'info.maxPlayers'))
+            .writeUint8(count(info.bots, 'info.bots'))
+            .writeUint8(info.serverType.charCodeAt(0))
+            .writeUint8(info.environment.charCodeAt(0))
+            .writeUint8(info.visibility)
+            .writeUint8(info.vac)
+            .writeString(info.version ?? '');
+
+        if (extraData) {
+            let flag = 0;
+            const fields = new BufferWriter();
+
+            if (extraData.port !== undefined) {
+                flag |= 0x80;
+                fields.writeUint16(extraData.port);
+            }
+
+            if (extraData.steamID !== undefined) {
+                flag |= 0x10;
+                fields.writeBigUint64(extraData.steamID);
+            }
+
+            if (extraData.tvPort !== undefined) {
+                flag |= 0x40;
+                fields.writeUint16(extraData.tvPort).writeString(extraData.tvName ?? '');
+            }
+
+            if (extraData.keywords !== undefined) {
+                flag |= 0x20;
+                fields.writeString(extraData.keywords);
+            }
+
+            if (extraData.gameID !== undefined) {
+                flag |= 0x01;
+                fields.writeBigUint64(extraData.gameID);
+            }
+
+            writer.writeUint8(flag).writeBytes(fields.toBuffer());
+        }
+
+        return writer.toBuffer();
+    }
+
+    /**
+     * Serializes the Obsolete GoldSource A2S_INFO response.
+     *
+     * @returns The response payload.
+     */
+    private serializeObsoleteInfo(): Buffer {
+        const info = this.info;
+        const writer = new BufferWriter()
+            .writeInt32(-1)
+            .writeUint8(0x6D)
+            .writeString(info.address ?? `${this.host}:${this.port}`)
+            .writeString(info.name)
+            .writeString(info.map)
+            .writeString(info.folder)
+            .writeString(info.game)
+            .writeUint8(count(info.players, 'info.players'))
+            .writeUint8(count(info.maxPlayers, 'info.maxPlayers'))
+            .writeUint8(info.protocol)
+            .writeUint8(info.serverType.charCodeAt(0))
+            .writeUint8(info.environment.charCodeAt(0))
+            .writeUint8(info.visibility)
+            .writeUint8(info.mod ? 1 : 0);
+
+        if (info.mod) {
+            writer
+                .writeString(info.mod.link)
+                .writeString(info.mod.downloadLink)
+                .writeUint8(0) // NULL byte
+                .writeUint32(info.mod.version)
+                .writeUint32(info.mod.size)
+                .writeUint8(info.mod.type)
+                .writeUint8(info.mod.dll);
+        }
+
+        return writer.writeUint8(info.vac).writeUint8(count(info.bots, 'info.bots')).toBuffer();
+    }
+
+    /**
+     * Serializes the A2S_PLAYER response.
+     *
+     * @returns The response payload.
+     */
+    private serializePlayers(): Buffer {
+        const writer = new BufferWriter().writeInt32(-1).writeUint8(0x44).writeUint8(count(this.players.length, 'The number of players'));
+
+        for (const player of this.players) {
+            writer.writeUint8(player.index).writeString(player.name).writeInt32(player.score).writeFloat32(player.duration);
+        }
+
+        // The Ship additional player info
+        if (this.players.some((player) => player.deaths !== undefined || player.money !== undefined)) {
+            for (const player of this.players) {
+                writer.writeInt32(player.deaths ?? 0).writeInt32(player.money ?? 0);
+            }
+        }
+
+        return writer.toBuffer();
+    }
+
+    /**
+     * Serializes the A2S_RULES response.
+     *
+     * @returns The response payload.
+     */
+    private serializeRules(): Buffer {
+        const keys = Object.keys(this.rules);
+        const writer = new BufferWriter().writeInt32(-1).writeUint8(0x45).writeUint16(keys.length);
+
+        for (const key of keys) {
+            writer.writeString(key).writeString(this.rules[key]);
+        }
+
+        return writer.toBuffer();
+    }
+}
+
+/**
+ * Checks that a player count fits into the single byte A2S sends it in.
+ *
+ * @param value - The count.
+ * @param name - The name of the count, reported in the error.
+ * @returns The count.
+ * @throws {@link RangeError} if the count is above 255.
+ */
+function count(value: number, name: string): number {
+    if (value > 0xFF) {
+        throw new RangeError(`${name} must be at most 255, got ${value}`);
+    }
+
+    return value;
+}
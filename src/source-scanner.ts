@@ -0,0 +1,338 @@
+import * as dgram from 'dgram';
+import * as net from 'net';
+import { A2S_INFO, A2S_PLAYER, A2S_RULES, SourceSession } from './lib/source-session';
+import { RateLimiter } from './lib/rate-limiter';
+import { lookupHost } from './lib/resolver';
+import { QueryAbortError } from './errors';
+import type { SettledResponse, SourceRequestHeader } from './lib/source-session';
+import type { LookupAddress } from './lib/resolver';
+import type { SourceScannerParams, SourceScanOptions, SourceScanResult, SourceScanTarget } from './interfaces/source-scanner.interface';
+
+const REQUEST_HEADERS: Record<'info' | 'players' | 'rules', SourceRequestHeader> = {
+    info: A2S_INFO,
+    players: A2S_PLAYER,
+    rules: A2S_RULES,
+};
+
+/**
+ * The sockets, sessions and send queue of one scan.
+ */
+interface ScanState {
+    // The sockets of each slot by address family, opened on first use
+    sockets: Map<number, dgram.Socket>[];
+
+    // The session of each server, by slot and by remote address
+    routes: Map<string, SourceSession>[];
+
+    limiter: RateLimiter;
+    stopped: boolean;
+}
+
+/**
+ * Gets the key a server is routed by, with its IPv6 address in the form the socket reports the sender in:
+ * without brackets, lowercase and compressed, and IPv4-mapped addresses as plain IPv4 addresses.
+ *
+ * @param address - The IP address of the server.
+ * @param port - The port number of the server.
+ * @returns The route key.
+ */
+function routeKey(address: string, port: number): string {
+    let host = stripBrackets(address);
+
+    if (net.isIPv6(host)) {
+        const [ip, zone] = host.split('%');
+        const canonical = new URL(`http://[${ip}]`).hostname.slice(1, -1);
+        const mapped = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(canonical);
+
+        if (mapped) {
+            const high = parseInt(mapped[1], 16);
+            const low = parseInt(mapped[2], 16);
+            host = [high >> 8, high & 0xFF, low >> 8, low & 0xFF].join('.');
+        } else {
+            host = zone !== undefined ? `${canonical}%${zone}` : canonical;
+        }
+    }
+
+    return `${host}:${port}`;
+}
+
+/**
+ * Removes the brackets around an IPv6 address, e.g. `[::1]`.
+ *
+ * @param host - The IP address or hostname.
+ * @returns The host without brackets.
+ */
+function stripBrackets(host: string): string {
+    return host.startsWith('[') && host.endsWith(']') ? host.slice(1, -1) : host;
+}
+
+/**
+ * A class for querying many Source servers at once using the A2S protocol.
+ * Every request goes through a small number of shared UDP sockets, and the responses are routed to their
+ * server by remote address and to their request by response type, so scanning thousands of servers
+ * needs neither thousands of file descriptors nor thousands of ephemeral ports.
+ * Hostnames are resolved to the address the system prefers, and IPv6 servers get `udp6` sockets of their own.
+ *
+ * @example
+ * const scanner = new SourceScanner({ concurrency: 500, packetsPerSecond: 1000 });
+ * for await (const result of scanner.scan(servers, { requests: ['info', 'players'] })) {
+ *     console.log(result.host, result.port, result.info, result.errors);
+ * }
+ */
+export default class SourceScanner {
+    private timeout: number;
+    private debug: boolean;
+    private sockets: number;
+    private concurrency: number;
+    private packetsPerSecond: number;
+
+    /**
+     * Creates a new Source server scanner.
+     *
+     * @param params - A JSON object containing the configuration for the SourceScanner instance.
+     * @param params.timeout - The timeout duration (in milliseconds) of each request to a server. Default is 5000.
+     * @param params.debug - Enables debug logging if true. Default is false.
+     * @param params.sockets - The number of UDP sockets the requests are spread over. Default is 1.
+     * @param params.concurrency - The number of servers queried at the same time. Default is 100.
+     * @param params.packetsPerSecond - The maximum number of packets sent per second, or 0 for no limit. Default is 0.
+     * Packets waiting for their turn count against the timeout, so keep the concurrency in line with this rate.
+     */
+    constructor(params: SourceScannerParams = {}) {
+        this.timeout = params.timeout ?? 5000;
+        this.debug = params.debug ?? false;
+        this.sockets = params.sockets ?? 1;
+        this.concurrency = params.concurrency ?? 100;
+        this.packetsPerSecond = params.packetsPerSecond ?? 0;
+    }
+
+    /**
+     * Queries every server of a list, yielding the result of each server as soon as it has answered or timed out.
+     * The sockets are closed once the list is exhausted or the iteration is stopped early, and the list is returned,
+     * so that e.g. the socket of `MasterServer.getServers()` is closed too. At most `concurrency` results are buffered:
+     * once they are, no more servers are queried until the consumer takes a result.
+     *
+     * @param servers - The servers to query, as an iterable or an async iterable (e.g. `MasterServer.getServers()`).
+     * @param options - The requests to send to each server, and an `AbortSignal` to stop the scan.
+     * When signalled, the remaining servers are skipped and the pending ones reject with a `QueryAbortError`.
+     * @returns An async iterator of the results, in the order the servers answer.
+     * @throws Will throw an error if iterating the server list throws.
+     */
+    public async *scan(servers: Iterable<SourceScanTarget> | AsyncIterable<SourceScanTarget>, options: SourceScanOptions = {}): AsyncIterableIterator<SourceScanResult> {
+        const requests = options.requests ?? ['info'];
+        const state = this.open();
+        const targets = (async function* () { yield* servers; })();
+        const results: SourceScanResult[] = [];
+        // The workers waiting for the consumer to take a result
+        const waiting: (() => void)[] = [];
+        let wake: (() => void) | undefined;
+        let finished = false;
+        let failure: Error | undefined;
+        let count = 0;
+
+        const worker = async () => {
+            while (!state.stopped && !(options.signal && options.signal.aborted)) {
+                const next = await targets.next();
+
+                if (next.done) return;
+
+                results.push(await this.query(state, count++ % state.sockets.length, next.value, requests, options.signal));
+                if (wake) wake();
+
+                while (results.length >= this.concurrency && !state.stopped) {
+                    await new Promise<void>((resolve) => waiting.push(resolve));
+                }
+            }
+        }
+
+        Promise.all(Array.from({ length: this.concurrency }, worker)).then(
+            () => { finished = true; if (wake) wake(); },
+            (err: Error) => { failure = err; finished = true; if (wake) wake(); },
+        );
+
+        try {
+            while (results.length > 0 || !finished) {
+                if (results.length > 0) {
+                    const result = results.shift()!;
+                    const resume = waiting.shift();
+                    if (resume) resume();
+                    yield result;
+                } else {
+                    await new Promise<void>((resolve) => wake = resolve);
+                    wake = undefined;
+                }
+            }
+
+            if (failure) {
+                throw failure;
+            }
+        } finally {
+            this.close(state);
+
+            for (const resume of waiting.splice(0)) {
+                resume();
+            }
+
+            await targets.return?.(undefined);
+        }
+    }
+
+    /**
+     * Opens the state of a scan. The sockets are opened on first use.
+     *
+     * @returns The state of the scan.
+     */
+    private open(): ScanState {
+        const state: ScanState = { sockets: [], routes: [], limiter: new RateLimiter(this.packetsPerSecond), stopped: false };
+
+        for (let i = 0; i < this.sockets; i++) {
+            state.sockets.push(new Map());
+            state.routes.push(new Map());
+        }
+
+        return state;
+    }
+
+    /**
+     * Gets the socket of a slot for an address family, opening it on first use.
+     *
+     * @param state - The state of the scan.
+     * @param index - The index of the slot of sockets.
+     * @param family - The address family, 4 or 6.
+     * @returns The socket.
+     */
+    private socket(state: ScanState, index: number, family: number): dgram.Socket {
+        const existing = state.sockets[index].get(family);
+
+        if (existing) {
+            return existing;
+        }
+
+        const socket = dgram.createSocket(family === 6 ? 'udp6' : 'udp4');
+        const routes = state.routes[index];
+
+        socket.on('message', (message, rinfo) => {
+            const session = routes.get(routeKey(rinfo.address, rinfo.port));
+
+            if (session) {
+                session.receive(message);
+            } else if (this.debug) {
+                console.log("[DEBUG] Unexpected packet from:", `${rinfo.address}:${rinfo.port}`);
+            }
+        });
+
+        socket.on('error', (err) => {
+            for (const session of routes.values()) {
+                session.fail(err);
+            }
+        });
+
+        state.sockets[index].set(family, socket);
+        return socket;
+    }
+
+    /**
+     * Stops a scan: drops the queued packets, rejects the pending requests and closes the sockets.
+     *
+     * @param state - The state of the scan.
+     */
+    private close(state: ScanState): void {
+        state.stopped = true;
+        state.limiter.clear();
+
+        for (const routes of state.routes) {
+            for (const session of routes.values()) {
+                session.fail((details) => new QueryAbortError(details, 'Scan stopped'));
+            }
+        }
+
+        for (const sockets of state.sockets) {
+            for (const socket of sockets.values()) {
+                socket.close();
+            }
+        }
+    }
+
+    /**
+     * Queries one server through one of the shared sockets.
+     *
+     * @param state - The state of the scan.
+     * @param index - The index of the slot of sockets to use.
+     * @param target - The server.
+     * @param requests - The requests to send.
+     * @param signal - Aborts the requests when signalled.
+     * @returns A promise that resolves with the result of the server. It never rejects: failures are reported in `errors`.
+     */
+    private async query(state: ScanState, index: number, target: SourceScanTarget, requests: ('info' | 'players' | 'rules')[], signal?: AbortSignal): Promise<SourceScanResult> {
+        const result: SourceScanResult = { host: target.host, port: target.port, errors: {} };
+        let outcomes: SettledResponse[];
+
+        try {
+            // Responses are routed by the address they come from, so hostnames have to be resolved first
+            const [address] = await lookupHost(stripBrackets(target.host));
+            outcomes = await this.request(state, index, address, target.port, requests, signal);
+
+            if (outcomes.some((outcome) => !outcome.error)) {
+                result.address = { host: target.host, port: target.port, address: address.address, family: address.family };
+            }
+        } catch (err) {
+            outcomes = requests.map(() => ({ error: err as Error }));
+        }
+
+        requests.forEach((request, i) => {
+            if (outcomes[i].error) {
+                result.errors[request] = outcomes[i].error;
+            } else {
+                Object.assign(result, { [request]: outcomes[i].value });
+            }
+        });
+
+        return result;
+    }
+
+    /**
+     * Sends the requests to one server and waits for all of them to settle.
+     *
+     * @param state - The state of the scan.
+     * @param index - The index of the slot of sockets to use.
+     * @param address - The IP address of the server.
+     * @param port - The port number of the server.
+     * @param requests - The requests to send.
+     * @param signal - Aborts the requests when signalled.
+     * @returns A promise that resolves with the outcome of each request.
+     */
+    private async request(state: ScanState, index: number, address: LookupAddress, port: number, requests: ('info' | 'players' | 'rules')[], signal?: AbortSignal): Promise<SettledResponse[]> {
+        const socket = this.socket(state, index, address.family);
+        const host = address.address;
+        const routes = state.routes[index];
+        const key = routeKey(host, port);
+
+        // A server listed twice shares the session of the first entry while it is in flight
+        let session = routes.get(key);
+
+        if (!session) {
+            const created = session = new SourceSession({
+                host,
+                port,
+                debug: this.debug,
+                send: (packet) => state.limiter.schedule(() => {
+                    if (state.stopped) return;
+
+                    // Errors such as an unreachable host only concern this server, not the whole socket
+                    socket.send(packet, 0, packet.length, port, host, (err) => {
+                        if (err) created.fail(err);
+                    });
+                }),
+            });
+
+            routes.set(key, session);
+        }
+
+        try {
+            return await session.requestAll(requests.map((request) => REQUEST_HEADERS[request]), this.timeout, signal);
+        } finally {
+            if (session.size === 0 && routes.get(key) === session) {
+                routes.delete(key);
+            }
+        }
+    }
+}
@@ -1,7 +1,23 @@
-import * as dgram from 'dgram';
-import * as crc32 from 'crc-32';
-import { BufferReader } from './lib/buffer-reader';
-import type { SourceParams, SourceServerInfo, SourcePlayerInfo } from './interfaces/source.interface';
+import ProtocolBase from './protocol-base';
+import { A2S_INFO, A2S_PLAYER, A2S_RULES, SourceSession } from './lib/source-session';
+import { UdpEndpoint } from './lib/udp-endpoint';
+import { createStringDecoder } from './lib/string-decoding';
+import { QueryAbortError, QueryTimeoutError } from './errors';
+import type { SourceRequestHeader, SourceResponses } from './lib/source-session';
+import type {
+    SourceParams,
+    SourceServerInfo,
+    SourcePlayerInfo,
+    SourceAllResult,
+    SourceStringDecoder,
+    SourceQueryOptions,
+    SourceTimedResponse,
+    SourcePingOptions,
+    SourcePingResult,
+} from './interfaces/source.interface';
+import type { QueryOptions } from './interfaces/query.interface';
+import type { ResolvedAddress } from './interfaces/protocol.interface';
+import type { UdpTransport, UdpTransportFactory } from './interfaces/transport.interface';
 
 /**
  * A class for querying Source game servers (e.g., GoldSource, Source Engine) using the A2S protocol.
@@ -12,11 +28,15 @@ import type { SourceParams, SourceServerInfo, SourcePlayerInfo } from './interfa
  * const info = await source.getInfo();
  * console.log(info);
  */
-export default class Source {
-    private host: string;
-    private port: number;
-    private timeout: number;
-    private debug: boolean;
+export default class Source extends ProtocolBase {
+    public readonly fullName = 'Source Engine Protocol';
+
+    private keepAlive: boolean;
+    private decodeString: SourceStringDecoder;
+    private transport: UdpTransportFactory;
+
+    // The transport and session shared by every query when keepAlive is enabled
+    private connection?: { transport: UdpTransport; session: SourceSession };
 
     /**
      * Creates a new Source server query instance.
@@ -26,413 +46,272 @@ export default class Source {
      * @param params.port - The port number of the server.
      * @param params.timeout - The timeout duration (in milliseconds) for server queries. Default is 5000.
      * @param params.debug - Enables debug logging if true. Default is false.
+     * @param params.keepAlive - Keeps one socket open for every query of this instance. Default is false.
+     * @param params.encoding - The encoding of the strings in the responses, `'auto'`, or a custom decoder. Default is `'utf-8'`.
+     * @param params.fallbackEncoding - The encoding `'auto'` falls back to for strings that are not valid UTF-8. Default is `'windows-1252'`.
+     * @param params.transport - Creates the UDP transport of the queries, e.g. to capture or replay their packets. Default is a UDP socket.
+     * @throws {@link RangeError} if an encoding is not supported.
      */
     constructor(params: SourceParams) {
-        this.host = params.host;
-        this.port = params.port;
-        this.timeout = params.timeout ?? 5000;
-        this.debug = params.debug ?? false;
+        super(params);
+        this.keepAlive = params.keepAlive ?? false;
+        this.decodeString = createStringDecoder(params.encoding, params.fallbackEncoding);
+        this.transport = params.transport ?? ((target, handlers) => new UdpEndpoint(target, handlers));
     }
 
     /**
-     * Retrieves server information.
+     * Retrieves the server status, which is the server information.
      *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
      * @returns A promise that resolves with the server information.
      */
-    public getInfo(): Promise<SourceServerInfo> {
-        return new Promise((resolve, reject) => this.get(0x54, resolve, reject));
+    public getStatus(options: QueryOptions = {}): Promise<SourceServerInfo> {
+        return this.getInfo(options);
+    }
+
+    /**
+     * Retrieves server information.
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query, and `timing` to measure its latency.
+     * @returns A promise that resolves with the server information, or with `{ value, timing, address }` if `timing` is enabled.
+     */
+    public getInfo(options: SourceQueryOptions & { timing: true }): Promise<SourceTimedResponse<SourceServerInfo>>;
+    public getInfo(options?: QueryOptions & { timing?: false }): Promise<SourceServerInfo>;
+    public getInfo(options?: SourceQueryOptions): Promise<SourceServerInfo | SourceTimedResponse<SourceServerInfo>>;
+    public getInfo(options: SourceQueryOptions = {}): Promise<SourceServerInfo | SourceTimedResponse<SourceServerInfo>> {
+        return this.requestOne(A2S_INFO, options);
     }
 
     /**
      * Retrieves player information.
      *
-     * @returns A promise that resolves with an array of player information.
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query, and `timing` to measure its latency.
+     * @returns A promise that resolves with an array of player information, or with `{ value, timing, address }` if `timing` is enabled.
      */
-    public getPlayers(): Promise<SourcePlayerInfo[]> {
-        return new Promise((resolve, reject) => this.get(0x55, resolve, reject));
+    public getPlayers(options: SourceQueryOptions & { timing: true }): Promise<SourceTimedResponse<SourcePlayerInfo[]>>;
+    public getPlayers(options?: QueryOptions & { timing?: false }): Promise<SourcePlayerInfo[]>;
+    public getPlayers(options?: SourceQueryOptions): Promise<SourcePlayerInfo[] | SourceTimedResponse<SourcePlayerInfo[]>>;
+    public getPlayers(options: SourceQueryOptions = {}): Promise<SourcePlayerInfo[] | SourceTimedResponse<SourcePlayerInfo[]>> {
+        return this.requestOne(A2S_PLAYER, options);
     }
 
     /**
      * Retrieves server rules.
      *
-     * @returns A promise that resolves with a map of server rules.
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query, and `timing` to measure its latency.
+     * @returns A promise that resolves with a map of server rules, or with `{ value, timing, address }` if `timing` is enabled.
      */
-    public getRules(): Promise<Record<string, string>> {
-        return new Promise((resolve, reject) => this.get(0x56, resolve, reject));
+    public getRules(options: SourceQueryOptions & { timing: true }): Promise<SourceTimedResponse<Record<string, string>>>;
+    public getRules(options?: QueryOptions & { timing?: false }): Promise<Record<string, string>>;
+    public getRules(options?: SourceQueryOptions): Promise<Record<string, string> | SourceTimedResponse<Record<string, string>>>;
+    public getRules(options: SourceQueryOptions = {}): Promise<Record<string, string> | SourceTimedResponse<Record<string, string>>> {
+        return this.requestOne(A2S_RULES, options);
     }
 
     /**
-     * Sends a request to the server and handles the response.
+     * Retrieves server information, players and rules over one socket.
+     * The challenge number is obtained once and reused, and the three requests run in parallel.
+     * If some of the requests fail (e.g. the server has rules disabled), the others are still returned.
      *
-     * @param header - The A2S header for the request.
-     * @param resolve - The resolve function of the promise.
-     * @param reject - The reject function of the promise.
-     * @throws Will throw an error if the request fails or the response is invalid.
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query, and `timing` to measure the latency of each request.
+     * @returns A promise that resolves with the results and the errors of the failed requests.
+     * @throws Will reject with the error of the server information request if all three requests fail.
      */
-    private get(header: number, resolve: (data: any) => void, reject: (err: Error) => void) {
-        const maxRetries = 2;
-        let retryCount = 0;
-        let packets: Record<string, Buffer> = {};
-        let isCompressed = false;
-        let crc32CheckSum = 0;
-
-        // Multi-packet Response Format Goldsource Server
-        // Obsolete GoldSource Response
-        let goldSource = false;
-
-        // Maximum size of packet before packet switching occurs.
-        // AppIDs which are known not to contain this field:
-        // 215, 17550, 17700, and 240 when protocol = 7.
-        let orangeBox = true;
-
-        const timeoutId = setTimeout(() => {
-            reject(new Error('Request timed out'));
-            socket.close();
-        }, this.timeout);
-
-        const sendRequest = (challenge?: Buffer): void => {
-            let request = Buffer.from([0xFF, 0xFF, 0xFF, 0xFF, header]);
-
-            if (header === 0x54) { // A2S_INFO
-                request = Buffer.concat([request, Buffer.from([0x53, 0x6F, 0x75, 0x72, 0x63, 0x65, 0x20, 0x45, 0x6E, 0x67, 0x69, 0x6E, 0x65, 0x20, 0x51, 0x75, 0x65, 0x72, 0x79, 0x00])]);
-            }
-
-            if (challenge) {
-                request = Buffer.concat([request, challenge]);
-            } else if (header !== 0x54) { // A2S_INFO
-                request = Buffer.concat([request, Buffer.from([0xFF, 0xFF, 0xFF, 0xFF])]);
-            }
+    public async getAll(options: SourceQueryOptions = {}): Promise<SourceAllResult> {
+        let address: ResolvedAddress | undefined;
 
-            if (this.debug) console.log("[DEBUG] Send:", request)
+        const onAddress = (resolved: ResolvedAddress) => {
+            address = resolved;
+            if (options.onAddress) options.onAddress(resolved);
+        };
 
-            socket.send(request, 0, request.length, this.port, this.host);
-        }
+        const all = await this.withSession(async (session) => {
+            const [info, players, rules] = await session.requestAll([A2S_INFO, A2S_PLAYER, A2S_RULES], this.timeout, options.signal);
 
-        const parseResponse = (payload: Buffer): any => {
-            const reader = new BufferReader(payload, 4);
-            const header = reader.readInt8();
-
-            if (header === 0x49) { // A2S_INFO
-                return this.parseInfoResponse(reader);
-            } else if (header === 0x6D) { // A2S_INFO - Obsolete GoldSource response
-                return this.parseInfoObsoleteResponse(reader);
-            } else if (header === 0x44) { // A2S_PLAYER
-                return this.parsePlayerResponse(reader);
-            } else if (header === 0x45) { // A2S_RULES
-                return this.parseRulesResponse(reader);
+            if (info.error && players.error && rules.error) {
+                throw info.error;
             }
 
-            throw new Error('Unknown response type');
-        }
-
-        const reload = (message?: Buffer) => {
-            if (this.debug) console.log("[DEBUG] Packet: Reload");
+            const result: SourceAllResult = { errors: {} };
 
-            const entries = Object.values(packets);
-            packets = {};
+            if (info.error) result.errors.info = info.error; else result.info = info.value;
+            if (players.error) result.errors.players = players.error; else result.players = players.value;
+            if (rules.error) result.errors.rules = rules.error; else result.rules = rules.value;
 
-            if (message) {
-                entries.push(message);
+            if (options.timing) {
+                result.timing = { info: info.timing, players: players.timing, rules: rules.timing };
             }
 
-            for (const message of entries) {
-                onMessage(message);
-            }
-        }
-
-        const onMessage = (message: Buffer) => {
-            if (this.debug) console.log("[DEBUG] Recv:", message)
-
-            const A2S_CHALLENGE_RESPONSE_HEADER = 0x41;
-            const A2S_MULTI_PACKET_HEADER = -2;
-            const A2S_SINGLE_PACKET_HEADER = -1;
-            const firstPacketPayloadHeader = Buffer.from([0xFF, 0xFF, 0xFF, 0xFF]);
-            const reader = new BufferReader(message);
-            const header = reader.readInt32();
-
-            if (reader.subarray(4, 5)[0] === A2S_CHALLENGE_RESPONSE_HEADER) {
-                const challenge = message.subarray(5, 9);
-                if (retryCount < maxRetries) {
-                    retryCount++;
-                    sendRequest(challenge);
-                } else {
-                    reject(new Error('Max retries reached while handling challenge'));
-                    socket.close();
-                }
-            } else if (header === A2S_SINGLE_PACKET_HEADER) { // Single-packet response
-                resolve(parseResponse(message));
-                socket.close();
-            } else if (header === A2S_MULTI_PACKET_HEADER) { // Multi-packet response
-                const id = reader.readInt32(); // Unique ID for this response
-                isCompressed = (id & 0x80000000) !== 0; // Check if the response is compressed
-
-                if (!goldSource) {
-                    const start = 9;
-
-                    if (message.subarray(start, start + 4).equals(firstPacketPayloadHeader)) {
-                        if (this.debug) console.log("[DEBUG] Packet: Obsolete GoldSource Response Detected");
-                        goldSource = true;
-                        reload(message);
-                        return;
-                    }
-                }
+            return result;
+        }, { ...options, onAddress });
 
-                let totalPackets, packetNumber;
-
-                if (goldSource) { // Goldsource Server
-                    const packetByte = reader.readUint8();
-                    packetNumber = (packetByte >> 4) & 0x0F;
-                    totalPackets = packetByte & 0x0F;
-                } else { // Source Server
-                    totalPackets = reader.readUint8(); // Total number of packets
-                    packetNumber = reader.readUint8(); // Current packet number
-
-                    if (orangeBox && packetNumber === 0) {
-                        const start = isCompressed ? 18 : 10;
-
-                        if (message.subarray(start, start + 4).equals(firstPacketPayloadHeader)) {
-                            // Source Server Multi-packet Response Format without size
-                            if (this.debug) console.log("[DEBUG] Packet: Below Orange Box Engine Detected");
-                            orangeBox = false;
-                            reload(message);
-                            return;
-                        }
-                    }
-
-                    if (orangeBox) { // Orange Box Engine and above only.
-                        reader.readUint16(); // Maximum size of packet before packet switching occurs.
-                    }
-
-                    // For the first packet
-                    if (packetNumber === 0 && isCompressed) {
-                        if (this.debug) console.log("[DEBUG] Packet: Compression Detected");
-                        reader.readUint32(); // Size of the packet (if compressed)
-                        crc32CheckSum = reader.readInt32(); // CRC32 checksum of uncompressed response
-                    }
-                }
+        return { ...all, address };
+    }
 
-                if (this.debug && packetNumber === 0) {
-                    console.log("[DEBUG] Total Packets:", totalPackets);
+    /**
+     * Measures the round-trip latency of the server by sending A2S_INFO probes one after another.
+     * The challenge handshake of the first probe is not included in its round trip, and a probe that times out counts as lost.
+     * As its answer may still arrive, the probes after a lost one are sent from a new socket.
+     *
+     * @param options - The number of probes, the interval between them and an `AbortSignal` to cancel the measurement.
+     * @returns A promise that resolves with the round-trip statistics and the packet loss.
+     * @throws Will reject with the error of a probe that fails otherwise than by timing out, e.g. with an invalid response.
+     */
+    public async getPing(options: SourcePingOptions = {}): Promise<SourcePingResult> {
+        const count = options.count ?? 4;
+        const interval = options.interval ?? 0;
+        const rtts: number[] = [];
+        let connection = this.connect();
+
+        try {
+            for (let i = 0; i < count; i++) {
+                if (i > 0 && interval > 0) {
+                    await new Promise((resolve) => setTimeout(resolve, interval));
                 }
 
-                // Store the payload in the packets object
-                packets[packetNumber] = message;
-
-                // Check if all packets have been received
-                if (Object.keys(packets).length === totalPackets) {
-                    // Reassemble the payload by sorting packets and concatenating them
-                    const sortedPackets = Object.entries(packets)
-                        .sort(([keyA], [keyB]) => Number(keyA) - Number(keyB))
-                        .map(([id, packet]) => {
-                            // Return the payload (remaining bytes)
-                            if (goldSource) {
-                                return packet.subarray(9);
-                            }
-
-                            let start = 10 + (orangeBox ? 2 : 0) + ((id === '0' && isCompressed) ? 8 : 0);
-                            return packet.subarray(start);
-                        });
-
-                    let assembledPayload = Buffer.concat(sortedPackets);
-                    if (this.debug) console.log("[DEBUG] Payload:", assembledPayload);
-
-                    if (isCompressed) {
-                        // Decompress the buffer using bzip2
-                        var Bunzip = require('seek-bzip');
-
-                        try {
-                            assembledPayload = Bunzip.decode(assembledPayload);
-                        } catch (error) {
-                            if (!orangeBox) throw error;
-                            if (this.debug) console.log("[DEBUG] Packet: Below Orange Box Engine Detected");
-                            orangeBox = false;
-                            reload();
-                            return;
-                        }
-
-                        if (this.debug) console.log("[DEBUG] Payload (Decompressed):", assembledPayload);
-
-                        // Calculate the CRC32 checksum of the decompressed data
-                        const actualChecksum = crc32.buf(assembledPayload);
-
-                        // Verify the checksum
-                        if (actualChecksum !== crc32CheckSum) {
-                            throw new Error(`Checksum mismatch: expected ${crc32CheckSum}, got ${actualChecksum}`);
-                        }
-                    }
-
-                    resolve(parseResponse(assembledPayload));
-                    socket.close();
+                try {
+                    const { timing } = await connection.session.request(A2S_INFO, this.timeout, options.signal);
+                    rtts.push(timing.dataRtt);
+                } catch (err) {
+                    if (!(err instanceof QueryTimeoutError)) throw err;
+                    if (this.debug) console.log(`[DEBUG] Probe ${i + 1} of ${count} lost`);
+
+                    // A late answer would be taken for the answer of the next probe, so it must not reach its session
+                    this.reportTransportAddress(options, connection.transport);
+                    connection.transport.close();
+                    connection = this.connect();
                 }
-            } else {
-                reject(new Error('Invalid response header'));
-                socket.close();
             }
+        } finally {
+            this.reportTransportAddress(options, connection.transport);
+            connection.transport.close();
         }
 
-        const socket = dgram.createSocket('udp4');
-        socket.on('message', onMessage);
-        socket.on('error', (err) => {
-            reject(err);
-            socket.close();
-        });
-        socket.on('close', () => clearTimeout(timeoutId));
+        const result: SourcePingResult = { sent: count, received: rtts.length, loss: count > 0 ? (count - rtts.length) / count : 0, rtts };
 
-        sendRequest();
+        if (rtts.length > 0) {
+            result.min = Math.min(...rtts);
+            result.max = Math.max(...rtts);
+            result.avg = rtts.reduce((sum, rtt) => sum + rtt, 0) / rtts.length;
+            result.jitter = rtts.length > 1
+                ? rtts.slice(1).reduce((sum, rtt, index) => sum + Math.abs(rtt - rtts[index]), 0) / (rtts.length - 1)
+                : 0;
+        }
+
+        return result;
     }
 
     /**
-     * Parses the server information from the response.
-     *
-     * @param reader - The BufferReader instance containing the response data.
-     * @returns The parsed server information.
+     * Closes the socket kept open by the `keepAlive` option. Pending queries are rejected.
      */
-    private parseInfoResponse(reader: BufferReader): SourceServerInfo {
-        const info: SourceServerInfo = {
-            protocol: reader.readUint8(),
-            name: reader.readString(),
-            map: reader.readString(),
-            folder: reader.readString(),
-            game: reader.readString(),
-            id: reader.readUint16(),
-            players: reader.readUint8(),
-            maxPlayers: reader.readUint8(),
-            bots: reader.readUint8(),
-            serverType: String.fromCharCode(reader.readUint8()),
-            environment: String.fromCharCode(reader.readUint8()),
-            visibility: reader.readUint8(),
-            vac: reader.readUint8(),
-            version: reader.readString(),
-        };
-
-        if (reader.getOffset() < reader.byteLength()) {
-            const extraDataFlag = reader.readUint8();
-            info.extraData = {};
-
-            if (extraDataFlag & 0x80) {
-                info.extraData.port = reader.readUint16();
-            }
-
-            if (extraDataFlag & 0x10) {
-                info.extraData.steamID = reader.readBigUint64();
-            }
-
-            if (extraDataFlag & 0x40) {
-                info.extraData.tvPort = reader.readUint16();
-                info.extraData.tvName = reader.readString();
-            }
-
-            if (extraDataFlag & 0x20) {
-                info.extraData.keywords = reader.readString();
-            }
-
-            if (extraDataFlag & 0x01) {
-                info.extraData.gameID = reader.readBigUint64();
-            }
+    public close(): void {
+        if (this.connection) {
+            const { transport, session } = this.connection;
+            this.connection = undefined;
+            session.fail((details) => new QueryAbortError(details, 'Socket closed'));
+            transport.close();
         }
-
-        return info;
     }
 
     /**
-     * Parses the server information from an Obsolete GoldSource response.
+     * Sends one request on a session.
      *
-     * @param reader - The BufferReader instance containing the response data.
-     * @returns The parsed server information.
+     * @param header - The A2S header of the request.
+     * @param options - The query options.
+     * @returns A promise that resolves with the response, with its timing and the address of the server if the `timing` option is enabled.
      */
-    private parseInfoObsoleteResponse(reader: BufferReader): SourceServerInfo {
-        const info: SourceServerInfo = {
-            address: reader.readString(), // IP address and port of the server.
-            name: reader.readString(), // Server name
-            map: reader.readString(), // Current map
-            folder: reader.readString(), // Game folder
-            game: reader.readString(), // Game name
-            players: reader.readUint8(), // Number of players
-            maxPlayers: reader.readUint8(), // Maximum players
-            protocol: reader.readUint8(), // Protocol version
-            bots: 0, // Bots (default to 0)
-            serverType: String.fromCharCode(reader.readUint8()), // Server type: 'D', 'L', or 'P'
-            environment: String.fromCharCode(reader.readUint8()), // Environment: 'L' or 'W'
-            visibility: reader.readUint8(), // Visibility: 0 (public) or 1 (private)
-            vac: 0, // VAC (default to 0)
-        };
-
-        // Check if the server is running a mod
-        if (reader.readUint8() === 1) {
-            const link = reader.readString(); // Mod website URL
-            const downloadLink = reader.readString(); // Mod download URL
-            reader.skip(1); // NULL byte (0x00)
-
-            info.mod = {
-                link,
-                downloadLink,
-                version: reader.readUint32(), // Mod version
-                size: reader.readUint32(), // Mod size in bytes
-                type: reader.readUint8(), // Mod type: 0 (single/multiplayer), 1 (multiplayer only)
-                dll: reader.readUint8(), // Mod DLL: 0 (Half-Life DLL), 1 (custom DLL)
-            };
-        }
+    private async requestOne<H extends SourceRequestHeader>(header: H, options: SourceQueryOptions): Promise<SourceResponses[H] | SourceTimedResponse<SourceResponses[H]>> {
+        let address: ResolvedAddress | undefined;
 
-        info.vac = reader.readUint8();
-        info.bots = reader.readUint8();
+        const onAddress = (resolved: ResolvedAddress) => {
+            address = resolved;
+            if (options.onAddress) options.onAddress(resolved);
+        };
 
-        return info;
+        const { value, timing } = await this.withSession((session) => session.request(header, this.timeout, options.signal), { ...options, onAddress });
+        return options.timing ? { value, timing, address } : value;
     }
 
     /**
-     * Parses the player information from the response.
+     * Runs queries on a session: the shared one if `keepAlive` is enabled, otherwise one with its own socket
+     * that is closed once the queries have settled.
      *
-     * @param reader - The BufferReader instance containing the response data.
-     * @returns An array of player information.
+     * @param run - Runs the queries.
+     * @param options - The query options, whose `onAddress` receives the address of the server once the queries have settled.
+     * @returns A promise that resolves with the result of the queries.
      */
-    private parsePlayerResponse(reader: BufferReader): SourcePlayerInfo[] {
-        const playerCount = reader.readUint8();
-        if (this.debug) console.log("[DEBUG] Player Count:", playerCount);
-
-        const players: SourcePlayerInfo[] = [];
+    private async withSession<T>(run: (session: SourceSession) => Promise<T>, options: QueryOptions): Promise<T> {
+        if (this.keepAlive) {
+            this.connection = this.connection || this.connect();
+            const { transport, session } = this.connection;
+
+            try {
+                return await run(session);
+            } finally {
+                this.reportTransportAddress(options, transport);
+            }
+        }
 
-        for (let i = 0; i < playerCount; i++) {
-            const index = reader.readUint8();
-            const name = reader.readString();
-            const score = reader.readUint32();
-            const duration = reader.readFloat32();
+        const { transport, session } = this.connect();
 
-            players.push({ index, name, score, duration });
+        try {
+            return await run(session);
+        } finally {
+            this.reportTransportAddress(options, transport);
+            transport.close();
         }
+    }
 
-        // The Ship additional player info (comes after the basic information in the packet):
-        if (reader.getOffset() < reader.byteLength()) {
-            for (let i = 0; i < playerCount; i++) {
-                players[i].deaths = reader.readUint32();
-                players[i].money = reader.readUint32();
-            }
+    /**
+     * Passes the address of the server that answered through a transport to the `onAddress` option of a query.
+     *
+     * @param options - The query options.
+     * @param transport - The transport.
+     */
+    private reportTransportAddress(options: QueryOptions, transport: UdpTransport): void {
+        if (transport.target) {
+            this.reportAddress(options, transport.target.host, transport.target.port, transport.address);
         }
-
-        return players;
     }
 
     /**
-     * Parses the server rules from the response.
+     * Opens a transport to the server and a session on it. The host is resolved once, by the transport.
      *
-     * @param reader - The BufferReader instance containing the response data.
-     * @returns A map of server rules.
+     * @returns The transport and the session.
      */
-    private parseRulesResponse(reader: BufferReader): Record<string, string> {
-        const ruleCount = reader.readUint16();
-        if (this.debug) console.log("[DEBUG] Rule Count:", ruleCount);
+    private connect(): { transport: UdpTransport; session: SourceSession } {
+        const connection = {} as { transport: UdpTransport; session: SourceSession };
+
+        connection.session = new SourceSession({
+            host: this.host,
+            port: this.port,
+            debug: this.debug,
+            decodeString: this.decodeString,
+            send: (packet) => connection.transport.send(packet),
+        });
 
-        const rules: Record<string, string> = {};
+        connection.transport = this.transport(this.resolveTarget(), {
+            onMessage: (message) => connection.session.receive(message),
+            onError: (err) => {
+                connection.session.fail(err);
 
-        for (let i = 0; i < ruleCount; i++) {
-            const key = reader.readString();
-            const value = reader.readString();
-            rules[key] = value;
+                // The transport is unusable after an error, so the next query opens a new one
+                if (this.connection === connection) {
+                    this.connection = undefined;
+                }
+            },
+        });
+
+        if (this.keepAlive) {
+            // Pending queries keep the process alive through their timers, an idle socket should not
+            connection.transport.unref?.();
         }
 
-        return rules;
+        return connection;
     }
 }
 
+
 // npx ts-node source.ts
 /* istanbul ignore next */
 if (require.main === module) {
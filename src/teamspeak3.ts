@@ -0,0 +1,232 @@
+import ProtocolBase from './protocol-base';
+import { InvalidResponseError, TeamSpeak3Error } from './errors';
+import type { TeamSpeak3Channel, TeamSpeak3Client, TeamSpeak3Params, TeamSpeak3ServerInfo } from './interfaces/teamspeak3.interface';
+import type { QueryOptions } from './interfaces/query.interface';
+import type { QueryTarget } from './lib/resolver';
+
+// Characters escaped in ServerQuery values, and their escape sequences
+const ESCAPES: [string, string][] = [
+    ['\\', '\\\\'],
+    ['/', '\\/'],
+    [' ', '\\s'],
+    ['|', '\\p'],
+    ['\x07', '\\a'],
+    ['\b', '\\b'],
+    ['\f', '\\f'],
+    ['\n', '\\n'],
+    ['\r', '\\r'],
+    ['\t', '\\t'],
+    ['\v', '\\v'],
+];
+
+// The properties converted to numbers, by command
+const SERVER_NUMBERS = ['virtualserver_id', 'virtualserver_port', 'virtualserver_clientsonline', 'virtualserver_queryclientsonline', 'virtualserver_maxclients', 'virtualserver_channelsonline', 'virtualserver_uptime', 'virtualserver_reserved_slots'];
+const CLIENT_NUMBERS = ['clid', 'cid', 'client_database_id', 'client_type'];
+const CHANNEL_NUMBERS = ['cid', 'pid', 'channel_order', 'total_clients', 'channel_needed_subscribe_power'];
+
+/**
+ * A class for querying TeamSpeak 3 servers using the ServerQuery interface over TCP (port 10011 by default).
+ * Each query connects, optionally logs in, selects the virtual server by its voice port and runs one command.
+ *
+ * @example
+ * const teamspeak3 = new TeamSpeak3({ host: '127.0.0.1', port: 10011, voicePort: 9987 });
+ * const info = await teamspeak3.getInfo();
+ * const clients = await teamspeak3.getClients();
+ * console.log(info.virtualserver_name, clients.map((client) => client.client_nickname));
+ */
+export default class TeamSpeak3 extends ProtocolBase {
+    public readonly fullName = 'TeamSpeak 3 Protocol';
+
+    protected readonly srvService = '_ts3._udp';
+
+    private voicePort?: number;
+    private username?: string;
+    private password?: string;
+
+    /**
+     * Creates a new TeamSpeak 3 server query instance.
+     *
+     * @param params - A JSON object containing the configuration for the TeamSpeak3 instance.
+     * @param params.host - The IP address or hostname of the server.
+     * @param params.port - The ServerQuery port of the server, usually 10011.
+     * @param params.voicePort - The voice port of the virtual server to select. Default is the port of the
+     * `_ts3._udp` DNS SRV record if the `srv` option is enabled, otherwise 9987.
+     * @param params.username - The ServerQuery login name. If not provided, the queries run as guest.
+     * @param params.password - The ServerQuery password.
+     * @param params.timeout - The timeout duration (in milliseconds) for server queries. Default is 5000.
+     * @param params.debug - Enables debug logging if true. Default is false.
+     * @param params.srv - Looks up the `_ts3._udp` DNS SRV record of the host first, which gives the host
+     * and the voice port. The ServerQuery port is not changed. Default is false.
+     */
+    constructor(params: TeamSpeak3Params) {
+        super(params);
+        this.voicePort = params.voicePort;
+        this.username = params.username;
+        this.password = params.password;
+    }
+
+    /**
+     * Retrieves the server status, which is the virtual server information.
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the virtual server information.
+     */
+    public getStatus(options: QueryOptions = {}): Promise<TeamSpeak3ServerInfo> {
+        return this.getInfo(options);
+    }
+
+    /**
+     * Retrieves the virtual server information (`serverinfo`).
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the virtual server information.
+     * @throws {@link TeamSpeak3Error} if the server answers the command with an error.
+     */
+    public async getInfo(options: QueryOptions = {}): Promise<TeamSpeak3ServerInfo> {
+        const [info] = await this.command('serverinfo', SERVER_NUMBERS, options);
+        return info as TeamSpeak3ServerInfo;
+    }
+
+    /**
+     * Retrieves the connected clients (`clientlist`), including ServerQuery clients (`client_type` 1).
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the clients.
+     * @throws {@link TeamSpeak3Error} if the server answers the command with an error.
+     */
+    public async getClients(options: QueryOptions = {}): Promise<TeamSpeak3Client[]> {
+        return await this.command('clientlist', CLIENT_NUMBERS, options) as TeamSpeak3Client[];
+    }
+
+    /**
+     * Retrieves the channels (`channellist`).
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the channels.
+     * @throws {@link TeamSpeak3Error} if the server answers the command with an error.
+     */
+    public async getChannels(options: QueryOptions = {}): Promise<TeamSpeak3Channel[]> {
+        return await this.command('channellist', CHANNEL_NUMBERS, options) as TeamSpeak3Channel[];
+    }
+
+    /**
+     * Connects, logs in if credentials are configured, selects the virtual server and runs a command.
+     *
+     * @param command - The command.
+     * @param numbers - The properties of the response to convert to numbers.
+     * @param options - The query options.
+     * @returns A promise that resolves with the entries of the response.
+     */
+    private async command(command: string, numbers: string[], options: QueryOptions): Promise<Record<string, string | number>[]> {
+        const target = await this.resolveTarget();
+        const commands = [`use port=${target.voicePort}`, command];
+
+        if (this.username !== undefined) {
+            commands.unshift(`login client_login_name=${TeamSpeak3.escape(this.username)} client_login_password=${TeamSpeak3.escape(this.password ?? '')}`);
+        }
+
+        let consumed = 0;
+        let step = -1; // Waiting for the greeting
+        let entries: Record<string, string | number>[] = [];
+
+        const sendNext = (send: (packet: Buffer) => void) => {
+            step++;
+            if (this.debug) console.log("[DEBUG] Command:", commands[step].startsWith('login') ? 'login ***' : commands[step]);
+            send(Buffer.from(`${commands[step]}\n`, 'utf-8'));
+        }
+
+        // The greeting is sent on connect, so the first command waits for it
+        return this.tcp(command, Buffer.alloc(0), (data, send) => {
+            // Lines end with "\n\r"; the last item is incomplete
+            const lines = data.toString('utf-8').split('\n').slice(0, -1).map((line) => line.replace(/^\r|\r$/g, ''));
+
+            for (; consumed < lines.length; consumed++) {
+                const line = lines[consumed];
+
+                if (step === -1) {
+                    if (line !== 'TS3') {
+                        throw new InvalidResponseError(this.details(command, data), 'Not a TeamSpeak 3 ServerQuery interface');
+                    }
+
+                    sendNext(send);
+                } else if (line.startsWith('error ')) {
+                    const [error] = TeamSpeak3.parse(line.substring('error '.length), ['id']);
+
+                    if (error.id !== 0) {
+                        throw new TeamSpeak3Error(this.details(command, data), error.id as number, String(error.msg));
+                    }
+
+                    if (step === commands.length - 1) {
+                        return entries;
+                    }
+
+                    sendNext(send);
+                } else if (line !== '' && step === commands.length - 1) {
+                    entries = entries.concat(TeamSpeak3.parse(line, numbers));
+                }
+            }
+
+            return undefined;
+        }, options, target);
+    }
+
+    /**
+     * Resolves the host to query and the voice port of the virtual server.
+     * The DNS SRV record, if enabled, points to the voice server: it gives the host and the voice port,
+     * while the ServerQuery port stays the configured one.
+     *
+     * @returns A promise that resolves with the host, the ServerQuery port and the voice port.
+     */
+    protected async resolveTarget(): Promise<QueryTarget & { voicePort: number }> {
+        const record = await this.lookupService();
+        return { host: record?.host ?? this.host, port: this.port, voicePort: this.voicePort ?? record?.port ?? 9987 };
+    }
+
+    /**
+     * Parses a response line: entries separated by `|`, each made of `key=value` properties separated by spaces.
+     *
+     * @param line - The response line.
+     * @param numbers - The properties to convert to numbers.
+     * @returns The entries.
+     */
+    private static parse(line: string, numbers: string[]): Record<string, string | number>[] {
+        return line.split('|').map((entry) => {
+            const properties: Record<string, string | number> = {};
+
+            for (const property of entry.split(' ')) {
+                if (property === '') continue;
+
+                const index = property.indexOf('=');
+                const key = index === -1 ? property : property.substring(0, index);
+                const value = index === -1 ? '' : TeamSpeak3.unescape(property.substring(index + 1));
+
+                properties[key] = numbers.includes(key) && value !== '' ? Number(value) : value;
+            }
+
+            return properties;
+        });
+    }
+
+    /**
+     * Escapes a value for a ServerQuery command.
+     *
+     * @param value - The raw value.
+     * @returns The escaped value.
+     */
+    private static escape(value: string): string {
+        return ESCAPES.reduce((text, [raw, escaped]) => text.split(raw).join(escaped), value);
+    }
+
+    /**
+     * Decodes the escape sequences of a ServerQuery value, e.g. `My\sServer` to `My Server`.
+     *
+     * @param value - The escaped value.
+     * @returns The raw value.
+     */
+    private static unescape(value: string): string {
+        return value.replace(/\\(.)/g, (sequence) => {
+            const escape = ESCAPES.find(([, escaped]) => escaped === sequence);
+            return escape ? escape[0] : sequence;
+        });
+    }
+}
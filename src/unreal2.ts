@@ -0,0 +1,292 @@
+import ProtocolBase from './protocol-base';
+import { BufferReader } from './lib/buffer-reader';
+import { InvalidResponseError } from './errors';
+import type { Unreal2Details, Unreal2Params, Unreal2Player, Unreal2Rules } from './interfaces/unreal2.interface';
+import type { QueryOptions } from './interfaces/query.interface';
+
+const DETAILS = 0x00;
+const RULES = 0x01;
+const PLAYERS = 0x02;
+
+/**
+ * A class for querying Unreal Engine 2 servers, e.g. Unreal Tournament 2004, Killing Floor and Red Orchestra.
+ * The query port is usually the game port plus 1.
+ *
+ * @example
+ * const unreal2 = new Unreal2({ host: '127.0.0.1', port: 7778 });
+ * const details = await unreal2.getDetails();
+ * const players = await unreal2.getPlayers();
+ * console.log(details.serverName, players.map((player) => player.name));
+ */
+export default class Unreal2 extends ProtocolBase {
+    public readonly fullName = 'Unreal Engine 2 Protocol';
+
+    private stripColors: boolean;
+
+    /**
+     * Creates a new Unreal Engine 2 server query instance.
+     *
+     * @param params - A JSON object containing the configuration for the Unreal2 instance.
+     * @param params.host - The IP address or hostname of the server.
+     * @param params.port - The query port of the server.
+     * @param params.timeout - The timeout duration (in milliseconds) for server queries. Default is 5000.
+     * @param params.debug - Enables debug logging if true. Default is false.
+     * @param params.stripColors - Strips the color codes from the strings. Default is true.
+     */
+    constructor(params: Unreal2Params) {
+        super(params);
+        this.stripColors = params.stripColors ?? true;
+    }
+
+    /**
+     * Retrieves the server status, which is the server details.
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the server details.
+     */
+    public getStatus(options: QueryOptions = {}): Promise<Unreal2Details> {
+        return this.getDetails(options);
+    }
+
+    /**
+     * Retrieves the server details (0x00).
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the server details.
+     */
+    public getDetails(options: QueryOptions = {}): Promise<Unreal2Details> {
+        return this.request('DETAILS', DETAILS, (reader, message) => {
+            // Killing Floor and Red Orchestra insert a 0x01 byte after the length of a UCS-2 server name,
+            // so the byte is skipped only if the packet does not line up when it is read as part of the name
+            const plain = this.tryRead(() => this.readDetails(reader, message, false));
+
+            if (!(plain instanceof Error) && plain.aligned) {
+                return plain.details;
+            }
+
+            const marked = this.tryRead(() => this.readDetails(new BufferReader(message, 5), message, true));
+
+            if (!(marked instanceof Error) && (marked.aligned || plain instanceof Error)) {
+                return marked.details;
+            }
+
+            if (plain instanceof Error) {
+                throw plain;
+            }
+
+            return plain.details;
+        }, options);
+    }
+
+    /**
+     * Retrieves the server rules (0x01). The repeated `Mutator` rules are collected into `mutators`.
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the rules.
+     */
+    public getRules(options: QueryOptions = {}): Promise<Unreal2Rules> {
+        return this.request('RULES', RULES, (reader) => {
+            const rules: Unreal2Rules = { mutators: [] };
+
+            while (reader.getOffset() < reader.byteLength()) {
+                const key = this.readString(reader);
+                const value = this.readString(reader);
+
+                if (key.toLowerCase() === 'mutator') {
+                    rules.mutators.push(value);
+                } else {
+                    rules[key] = value;
+                }
+            }
+
+            return rules;
+        }, options);
+    }
+
+    /**
+     * Retrieves the players (0x02).
+     *
+     * @param options - The query options, e.g. an `AbortSignal` to cancel the query.
+     * @returns A promise that resolves with the players.
+     */
+    public getPlayers(options: QueryOptions = {}): Promise<Unreal2Player[]> {
+        return this.request('PLAYERS', PLAYERS, (reader, message) => {
+            // As for the server name, Killing Floor and Red Orchestra insert a 0x01 byte after the length of UCS-2 player names
+            const plain = this.tryRead(() => this.readPlayers(reader, false));
+
+            if (!(plain instanceof Error)) {
+                return plain;
+            }
+
+            const marked = this.tryRead(() => this.readPlayers(new BufferReader(message, 5), true));
+
+            if (marked instanceof Error) {
+                throw plain;
+            }
+
+            return marked;
+        }, options);
+    }
+
+    /**
+     * Sends a query and parses the response after checking its type.
+     *
+     * @param requestType - The name of the request, reported in errors.
+     * @param type - The query type.
+     * @param parse - Parses the body of the response.
+     * @param options - The query options.
+     * @returns A promise that resolves with the parsed response.
+     */
+    private request<T>(requestType: string, type: number, parse: (reader: BufferReader, message: Buffer) => T, options: QueryOptions): Promise<T> {
+        return this.udp(requestType, Buffer.from([0x79, 0x00, 0x00, 0x00, type]), (message) => {
+            // The response starts with 4 bytes (0x80 0x00 0x00 0x00), then the query type
+            if (message.length < 5 || message[4] !== type) {
+                throw new InvalidResponseError(this.details(requestType, message));
+            }
+
+            return parse(new BufferReader(message, 5), message);
+        }, options);
+    }
+
+    /**
+     * Reads the server details.
+     *
+     * @param reader - The reader, after the query type.
+     * @param message - The response.
+     * @param marker - Skips the 0x01 byte after the length of a UCS-2 server name.
+     * @returns The server details, and whether they end exactly at the end of the packet.
+     */
+    private readDetails(reader: BufferReader, message: Buffer, marker: boolean): { details: Unreal2Details; aligned: boolean } {
+        const details: Unreal2Details = {
+            serverId: reader.readInt32(),
+            serverIp: this.readString(reader),
+            gamePort: reader.readInt32(),
+            queryPort: reader.readInt32(),
+            serverName: this.readString(reader, marker),
+            mapName: this.readString(reader),
+            gameType: this.readString(reader),
+            numPlayers: reader.readInt32(),
+            maxPlayers: reader.readInt32(),
+        };
+
+        // Killing Floor inserts the current and total waves before the ping,
+        // so the remaining fields only line up with the end of the packet when read at the right offset
+        const offset = reader.getOffset();
+        const tail = this.readTail(new BufferReader(message, offset));
+
+        if (tail) {
+            return { details: { ...details, ...tail }, aligned: true };
+        }
+
+        const extended = new BufferReader(message, offset);
+        details.currentWave = extended.readInt32();
+        details.totalWaves = extended.readInt32();
+
+        const extendedTail = this.readTail(extended);
+
+        return { details: { ...details, ...extendedTail }, aligned: extendedTail !== undefined };
+    }
+
+    /**
+     * Reads the players until the end of the packet.
+     *
+     * @param reader - The reader, after the query type.
+     * @param marker - Skips the 0x01 byte after the length of UCS-2 player names.
+     * @returns The players.
+     */
+    private readPlayers(reader: BufferReader, marker: boolean): Unreal2Player[] {
+        const players: Unreal2Player[] = [];
+
+        while (reader.getOffset() < reader.byteLength()) {
+            players.push({
+                id: reader.readInt32(),
+                name: this.readString(reader, marker),
+                ping: reader.readInt32(),
+                score: reader.readInt32(),
+                statsId: reader.readInt32(),
+            });
+        }
+
+        return players;
+    }
+
+    /**
+     * Runs a read, returning the error it throws instead of throwing it.
+     *
+     * @param read - The read.
+     * @returns The result of the read, or the error it threw.
+     */
+    private tryRead<T>(read: () => T): T | Error {
+        try {
+            return read();
+        } catch (err) {
+            return err as Error;
+        }
+    }
+
+    /**
+     * Reads the ping, server flags and skill level that end the server details, when present.
+     *
+     * @param reader - The reader, after the fields common to every game.
+     * @returns The fields, or undefined if they do not end exactly at the end of the packet.
+     */
+    private readTail(reader: BufferReader): Pick<Unreal2Details, 'ping' | 'serverFlags' | 'skillLevel'> | undefined {
+        const tail: Pick<Unreal2Details, 'ping' | 'serverFlags' | 'skillLevel'> = {};
+
+        try {
+            if (reader.getOffset() < reader.byteLength()) tail.ping = reader.readInt32();
+
+            // The oldest games stop after the ping
+            if (reader.getOffset() < reader.byteLength()) {
+                tail.serverFlags = reader.readInt32();
+                tail.skillLevel = this.readString(reader);
+            }
+        } catch {
+            return undefined;
+        }
+
+        return reader.getOffset() === reader.byteLength() ? tail : undefined;
+    }
+
+    /**
+     * Reads a string: a length byte, then a null-terminated Latin-1 string,
+     * or if the high bit of the length is set, a UCS-2 string of that many characters.
+     *
+     * @param reader - The reader.
+     * @param marker - Skips the 0x01 byte, not included in the length, that some games insert after the length of UCS-2 strings.
+     * @returns The decoded string, without color codes unless disabled.
+     */
+    private readString(reader: BufferReader, marker = false): string {
+        const prefix = reader.readUint8('string length');
+        const ucs2 = (prefix & 0x80) !== 0;
+        const length = ucs2 ? (prefix & 0x7F) * 2 : prefix;
+
+        if (marker && ucs2 && reader.remaining() > 0 && reader.peekUint8() === 0x01) {
+            reader.skip(1);
+        }
+
+        const bytes = reader.readBytes(length, 'string');
+        const text = (ucs2 ? bytes.toString('utf16le') : bytes.toString('latin1')).replace(/\0+$/, '');
+
+        return this.stripColors ? Unreal2.stripColorCodes(text) : text;
+    }
+
+    /**
+     * Strips the color codes: the escape character followed by the red, green and blue bytes.
+     * A code cut short by the end of the text only loses its escape character, so no text is lost.
+     *
+     * @param text - The text.
+     * @returns The text without color codes.
+     */
+    private static stripColorCodes(text: string): string {
+        let result = '';
+        let start = 0;
+
+        for (let index = text.indexOf('\x1B'); index !== -1; index = text.indexOf('\x1B', start)) {
+            result += text.substring(start, index);
+            start = index + 4 <= text.length ? index + 4 : index + 1;
+        }
+
+        return result + text.substring(start);
+    }
+}